@@ -35,6 +35,7 @@ contract VerdictPredictionMarketRouter is Ownable {
 
     // Tracking
     mapping(string => address) public proposalToYesToken;
+    mapping(string => address) public proposalToNoToken;
     mapping(string => bytes32) public proposalToPoolId;
 
     event ContractsLinked(address vUSDC, address registry, address factory, address amm);
@@ -43,6 +44,8 @@ contract VerdictPredictionMarketRouter is Ownable {
     event ProposalLaunched(string id, address yesToken, bytes32 poolId);
     event AgentRegistered(address agent, uint256 balance);
     event WinnerGraduated(string id, uint256 finalPrice);
+    event NOBought(string id, address indexed trader, uint256 noOut, uint256 vUSDCRefund);
+    event NOSold(string id, address indexed trader, uint256 noIn, uint256 vUSDCOut);
 
     error OnlyBackend();
     error MarketInactive();
@@ -170,6 +173,14 @@ contract VerdictPredictionMarketRouter is Ownable {
             string(abi.encodePacked("vYES-", input.id))
         );
         proposalToYesToken[input.id] = yesToken;
+
+        // 1b. Deploy NO Token (minted in YES+NO pairs against vUSDC, not pooled)
+        address noToken = factory.createNOToken(
+            input.id,
+            string(abi.encodePacked("NO - ", input.name)),
+            string(abi.encodePacked("vNO-", input.id))
+        );
+        proposalToNoToken[input.id] = noToken;
         
         // 2. Create AMM Pool
         bytes32 poolId = amm.createPool(input.id, address(vUSDCToken), yesToken);
@@ -333,6 +344,75 @@ contract VerdictPredictionMarketRouter is Ownable {
         return amountOut;
     }
 
+    /**
+     * @notice Buy NO exposure: mint YES+NO pairs with vUSDC and sell the YES half into the pool
+     * @dev The deposited vUSDC stays in the Router as collateral for the pairs
+     * @param proposalId Proposal to trade
+     * @param amountIn vUSDC to lock, equals the NO tokens received
+     * @param minAmountOut Minimum vUSDC refunded from selling the YES half (slippage protection)
+     * @return vUSDCRefund vUSDC returned to the caller
+     */
+    function buyNO(
+        string memory proposalId,
+        uint256 amountIn,
+        uint256 minAmountOut
+    ) external returns (uint256 vUSDCRefund) {
+        bytes32 poolId = proposalToPoolId[proposalId];
+        require(poolId != bytes32(0), "Pool not found");
+        address yesToken = proposalToYesToken[proposalId];
+        address noToken = proposalToNoToken[proposalId];
+        require(noToken != address(0), "NO token not found");
+
+        // Lock collateral and mint the pairs
+        vUSDCToken.transferFrom(msg.sender, address(this), amountIn);
+        VerdictYESOutcomeToken(yesToken).mint(address(this), amountIn);
+        VerdictYESOutcomeToken(noToken).mint(msg.sender, amountIn);
+
+        // Sell the YES half, the caller keeps the NO half
+        IERC20(yesToken).approve(address(amm), amountIn);
+        vUSDCRefund = amm.swap(poolId, yesToken, amountIn, minAmountOut);
+        vUSDCToken.transfer(msg.sender, vUSDCRefund);
+
+        emit NOBought(proposalId, msg.sender, amountIn, vUSDCRefund);
+        return vUSDCRefund;
+    }
+
+    /**
+     * @notice Sell NO exposure: buy back matching YES from the pool and redeem the pairs' collateral
+     * @param proposalId Proposal to trade
+     * @param noIn NO tokens to sell
+     * @param minAmountOut Minimum vUSDC out (slippage protection)
+     * @return amountOut vUSDC paid to the caller
+     */
+    function sellNO(
+        string memory proposalId,
+        uint256 noIn,
+        uint256 minAmountOut
+    ) external returns (uint256 amountOut) {
+        bytes32 poolId = proposalToPoolId[proposalId];
+        require(poolId != bytes32(0), "Pool not found");
+        address yesToken = proposalToYesToken[proposalId];
+        address noToken = proposalToNoToken[proposalId];
+        require(noToken != address(0), "NO token not found");
+
+        IERC20(noToken).transferFrom(msg.sender, address(this), noIn);
+        VerdictYESOutcomeToken(noToken).burn(address(this), noIn);
+
+        // Buy the YES half back out of the pool with part of the collateral
+        uint256 cost = amm.getAmountIn(poolId, yesToken, noIn);
+        require(cost < noIn, "Insufficient output");
+        vUSDCToken.approve(address(amm), cost);
+        uint256 yesOut = amm.swap(poolId, address(vUSDCToken), cost, noIn);
+        VerdictYESOutcomeToken(yesToken).burn(address(this), yesOut);
+
+        amountOut = noIn - cost;
+        require(amountOut >= minAmountOut, "Slippage exceeded");
+        vUSDCToken.transfer(msg.sender, amountOut);
+
+        emit NOSold(proposalId, msg.sender, noIn, amountOut);
+        return amountOut;
+    }
+
     // ================================================================
     //                          GETTERS
     // ================================================================
@@ -353,6 +433,10 @@ contract VerdictPredictionMarketRouter is Ownable {
         return proposalToYesToken[proposalId];
     }
 
+    function getNoTokenAddress(string memory proposalId) external view returns (address) {
+        return proposalToNoToken[proposalId];
+    }
+
     /**
      * @notice Get current YES token price for a proposal
      * @param proposalId Proposal ID
@@ -374,6 +458,23 @@ contract VerdictPredictionMarketRouter is Ownable {
         return amm.getAmountOut(poolId, tokenIn, amountIn);
     }
 
+    /**
+     * @notice Get expected vUSDC refund for buyNO (NO received always equals amountIn)
+     */
+    function getBuyNOQuote(string memory proposalId, uint256 amountIn) external view returns (uint256) {
+        bytes32 poolId = proposalToPoolId[proposalId];
+        return amm.getAmountOut(poolId, proposalToYesToken[proposalId], amountIn);
+    }
+
+    /**
+     * @notice Get expected vUSDC out for sellNO
+     */
+    function getSellNOQuote(string memory proposalId, uint256 noIn) external view returns (uint256) {
+        bytes32 poolId = proposalToPoolId[proposalId];
+        uint256 cost = amm.getAmountIn(poolId, proposalToYesToken[proposalId], noIn);
+        return cost < noIn ? noIn - cost : 0;
+    }
+
     /**
      * @notice Get pool reserves for a proposal
      */
@@ -414,4 +515,13 @@ contract VerdictPredictionMarketRouter is Ownable {
         if (yesToken == address(0)) return 0;
         return IERC20(yesToken).balanceOf(user);
     }
+
+    /**
+     * @notice Get user's NO token balance for a proposal
+     */
+    function getNOBalance(string memory proposalId, address user) external view returns (uint256) {
+        address noToken = proposalToNoToken[proposalId];
+        if (noToken == address(0)) return 0;
+        return IERC20(noToken).balanceOf(user);
+    }
 }
@@ -205,6 +205,33 @@ contract VerdictSimpleAMM is Ownable {
         return amountOut;
     }
     
+    /**
+     * @notice Calculate input amount needed for an exact swap output (inverse of getAmountOut)
+     * @param poolId Pool ID
+     * @param tokenOut Output token address
+     * @param amountOut Desired output
+     * @return amountIn Required input (rounded up)
+     */
+    function getAmountIn(
+        bytes32 poolId,
+        address tokenOut,
+        uint256 amountOut
+    ) external view returns (uint256 amountIn) {
+        Pool storage pool = pools[poolId];
+        require(pool.exists, "Pool not found");
+        
+        bool outIsB = (tokenOut == pool.tokenB);
+        uint256 reserveIn = outIsB ? pool.reserveA : pool.reserveB;
+        uint256 reserveOut = outIsB ? pool.reserveB : pool.reserveA;
+        require(amountOut < reserveOut, "Insufficient liquidity");
+        
+        uint256 numerator = reserveIn * amountOut * BPS_DENOMINATOR;
+        uint256 denominator = (reserveOut - amountOut) * (BPS_DENOMINATOR - FEE_BPS);
+        amountIn = numerator / denominator + 1;
+        
+        return amountIn;
+    }
+    
     /**
      * @notice Get pool reserves
      * @param poolId Pool ID
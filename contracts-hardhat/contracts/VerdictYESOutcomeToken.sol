@@ -7,7 +7,8 @@ import "./utils/@openzeppelin/contracts/access/Ownable.sol";
 /**
  * @title VerdictYESOutcomeToken - ERC20 YES Outcome Token for Uniswap V4 Pool Trading
  * @notice ERC20 token representing YES outcome for a prediction market proposal
- * @dev Trades against vUSDC in Uniswap V4 pool. NO is implicit (price = 1 - YES price)
+ * @dev Trades against vUSDC in Uniswap V4 pool. Also deployed as the proposal's NO token,
+ *      which the router mints/burns as YES+NO pairs backed 1:1 by vUSDC
  */
 contract VerdictYESOutcomeToken is ERC20, Ownable {
     string public proposalId;
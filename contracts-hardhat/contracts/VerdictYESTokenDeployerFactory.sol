@@ -11,6 +11,7 @@ import "./utils/@openzeppelin/contracts/access/Ownable.sol";
  */
 contract VerdictYESTokenDeployerFactory is Ownable {
     mapping(string => address) public proposalToYesToken;
+    mapping(string => address) public proposalToNoToken;
     address[] public allYesTokens;
     address public marketContract;
 
@@ -21,6 +22,13 @@ contract VerdictYESTokenDeployerFactory is Ownable {
         string symbol
     );
 
+    event NOTokenCreated(
+        string indexed proposalId,
+        address indexed tokenAddress,
+        string name,
+        string symbol
+    );
+
     modifier onlyMarket() {
         require(msg.sender == marketContract, "Only market contract");
         _;
@@ -53,10 +61,36 @@ contract VerdictYESTokenDeployerFactory is Ownable {
         return tokenAddress;
     }
 
+    /**
+     * @notice Deploy the NO outcome token for a proposal (same mint/burn token contract as YES)
+     * @dev NO tokens are not pooled - the router mints them against vUSDC collateral
+     */
+    function createNOToken(
+        string memory proposalId,
+        string memory name,
+        string memory symbol
+    ) external onlyMarket returns (address tokenAddress) {
+        VerdictYESOutcomeToken token = new VerdictYESOutcomeToken(name, symbol, proposalId);
+
+        token.setMarketContract(marketContract);
+        token.transferOwnership(marketContract);
+
+        tokenAddress = address(token);
+        proposalToNoToken[proposalId] = tokenAddress;
+
+        emit NOTokenCreated(proposalId, tokenAddress, name, symbol);
+
+        return tokenAddress;
+    }
+
     function getYESToken(string memory proposalId) external view returns (address) {
         return proposalToYesToken[proposalId];
     }
 
+    function getNOToken(string memory proposalId) external view returns (address) {
+        return proposalToNoToken[proposalId];
+    }
+
     function getAllYESTokens() external view returns (address[] memory) {
         return allYesTokens;
     }
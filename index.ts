@@ -4,6 +4,8 @@ import { getYESPrice, getNOPrice } from './src/engine/amm';
 import { createServer } from './src/server';
 import { initBlockchain } from './src/blockchain';
 import { log } from './src/core/logger';
+import { startResolutionLoop } from './src/engine/resolution';
+import { config, isSimulation } from './src/core/config';
 
 // Initialize market and agents (start empty)
 const marketState = initializeMarket();
@@ -17,8 +19,13 @@ const server = createServer(agents, marketState, tradingLoopInterval);
 
 log('System', 'Infrastructure initialized in latent state; awaiting proposal generation');
 
+// Resolve graduated proposals against oracle data once their deadline passes
+startResolutionLoop();
+
 // Initialize blockchain connection
-log('System', 'Establishing blockchain connection layer...');
+log('System', isSimulation
+    ? `Simulation mode: using in-process chain (seed ${config.simulation.seed})`
+    : 'Establishing blockchain connection layer...');
 initBlockchain().then(async success => {
     if (success) {
         log('System', 'Blockchain connectivity established');
@@ -43,6 +50,6 @@ initBlockchain().then(async success => {
         
         log('System', 'Ready for proposal generation via /api/admin/init');
     } else {
-        log('System', 'Blockchain connectivity failed; entering simulation fallback mode', 'warn');
+        log('System', 'Blockchain connectivity failed; entering simulation fallback mode (set SIMULATION=true to run fully offline)', 'warn');
     }
 });
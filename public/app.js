@@ -282,12 +282,9 @@ function renderStrategies(strategies) {
   container.innerHTML = '';
 
   strategies.forEach(strategy => {
-    // Calculate prices using new model: YES + NO ≈ 1.0
-    const yesTokenReserve = strategy.yesToken.tokenReserve || 2000;
-    const noTokenReserve = strategy.noToken.tokenReserve || 2000;
-    const totalReserve = yesTokenReserve + noTokenReserve;
-    const yesPrice = totalReserve > 0 ? (noTokenReserve / totalReserve).toFixed(4) : '0.5000';
-    const noPrice = totalReserve > 0 ? (yesTokenReserve / totalReserve).toFixed(4) : '0.5000';
+    // Probabilities are computed server-side from the vUSDC/YES pool (YES + NO = 1.0)
+    const yesPrice = (strategy.yesPrice ?? 0.5).toFixed(4);
+    const noPrice = (strategy.noPrice ?? 0.5).toFixed(4);
     const yesTWAP = strategy.yesToken.twap.toFixed(4);
     const noTWAP = strategy.noToken.twap.toFixed(4);
 
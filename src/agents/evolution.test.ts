@@ -0,0 +1,22 @@
+import { expect, test } from 'bun:test';
+import { evolvePopulation, validateEvolutionOptions, type EvolutionOptions } from './evolution';
+import { createAgent, DEFAULT_AGENT_PERSONALITIES } from './index';
+
+const options: EvolutionOptions = { populationSize: 4, retireCount: 1, mutationRate: 0.3, mutationStrength: 0.2 };
+
+test('evolution options are bounded', () => {
+  expect(validateEvolutionOptions(options, 20)).toBeNull();
+  expect(validateEvolutionOptions({ ...options, populationSize: 21 }, 20)).toContain('populationSize');
+  expect(validateEvolutionOptions({ ...options, populationSize: 2.5 }, 20)).toContain('populationSize');
+  expect(validateEvolutionOptions({ ...options, retireCount: -1 }, 20)).toContain('retireCount');
+  expect(validateEvolutionOptions({ ...options, retireCount: NaN }, 20)).toContain('retireCount');
+  expect(validateEvolutionOptions({ ...options, mutationRate: 1.5 }, 20)).toContain('mutationRate');
+  expect(validateEvolutionOptions({ ...options, mutationStrength: NaN }, 20)).toContain('mutationStrength');
+});
+
+test('an evolution step with invalid options changes nothing', async () => {
+  const agents = [createAgent(DEFAULT_AGENT_PERSONALITIES[0]!, 'yes-no', 0)];
+
+  await expect(evolvePopulation(agents, { ...options, retireCount: NaN })).rejects.toThrow('retireCount');
+  expect(agents).toHaveLength(1);
+});
@@ -0,0 +1,166 @@
+// Evolutionary population manager run between rounds: retire the worst performers and replace them
+// with mutated copies of the best (personality and strategy parameters), each at a fresh wallet
+import type { Agent, AgentPersonality, StrategyConfig } from '../core/types';
+import { config } from '../core/config';
+import { log } from '../core/logger';
+import { random, randomInt } from '../core/random';
+import { getAgentRecords, getNextDerivationIndex } from '../core/db';
+import { getStrategy, resolveStrategyConfig } from '../engine/strategies';
+import { DEFAULT_AGENT_PERSONALITIES, createAgent, getUniqueAgentName, persistAgent } from './index';
+
+export interface EvolutionOptions {
+  populationSize: number;
+  retireCount: number;
+  mutationRate: number; // 0-1
+  mutationStrength: number; // Max relative change of numeric values
+}
+
+export interface EvolutionResult {
+  retired: string[]; // Agent ids
+  spawned: string[];
+}
+
+/**
+ * Reason the options can't drive an evolution step, or null if they are valid
+ */
+export function validateEvolutionOptions(options: EvolutionOptions, maxPopulationSize: number = config.agents.evolution.maxPopulationSize): string | null {
+  const { populationSize, retireCount, mutationRate, mutationStrength } = options;
+  if (!Number.isInteger(populationSize) || populationSize < 1 || populationSize > maxPopulationSize) {
+    return `populationSize must be an integer between 1 and ${maxPopulationSize}`;
+  }
+  if (!Number.isInteger(retireCount) || retireCount < 0) return 'retireCount must be an integer >= 0';
+  if (typeof mutationRate !== 'number' || !(mutationRate >= 0 && mutationRate <= 1)) return 'mutationRate must be between 0 and 1';
+  if (typeof mutationStrength !== 'number' || !(mutationStrength >= 0 && mutationStrength <= 1)) {
+    return 'mutationStrength must be between 0 and 1';
+  }
+  return null;
+}
+
+const RISK_LEVELS: AgentPersonality['riskTolerance'][] = ['low', 'medium', 'high'];
+
+// Traits a mutation can swap in, on top of those of the default personalities
+const TRAIT_POOL = [
+  ...new Set([
+    ...DEFAULT_AGENT_PERSONALITIES.flatMap(p => p.traits),
+    'disciplined', 'opportunistic', 'data-driven', 'skeptical', 'decisive', 'hedger',
+  ]),
+];
+
+/**
+ * Fitness of an agent: settlement PnL of its last round (0 before its first round)
+ */
+function getFitness(agent: Agent): number {
+  return agent.memory?.[agent.memory.length - 1]?.settlementPnl ?? 0;
+}
+
+function mutateValue(value: number, strength: number): number {
+  return value * (1 + (random() * 2 - 1) * strength);
+}
+
+/**
+ * Child personality: risk tolerance may move one level, aggressiveness drift, one trait be swapped
+ */
+function mutatePersonality(parent: AgentPersonality, options: EvolutionOptions): AgentPersonality {
+  const child: AgentPersonality = { ...parent, traits: [...parent.traits] };
+
+  if (random() < options.mutationRate) {
+    const level = RISK_LEVELS.indexOf(parent.riskTolerance) + (random() < 0.5 ? -1 : 1);
+    child.riskTolerance = RISK_LEVELS[Math.min(RISK_LEVELS.length - 1, Math.max(0, level))]!;
+  }
+  if (random() < options.mutationRate) {
+    child.aggressiveness = Math.min(1, Math.max(0.05, mutateValue(parent.aggressiveness, options.mutationStrength)));
+  }
+  if (random() < options.mutationRate) {
+    const candidates = TRAIT_POOL.filter(t => !child.traits.includes(t));
+    const trait = candidates[randomInt(candidates.length)];
+    if (trait) {
+      if (child.traits.length > 0) child.traits[randomInt(child.traits.length)] = trait;
+      else child.traits.push(trait);
+    }
+  }
+
+  return child;
+}
+
+/**
+ * Child strategy parameters: numbers scaled within the schema's range (integers stay integers), booleans flipped
+ * Returns undefined when the parent's strategy has no tunable parameters
+ */
+function mutateStrategyConfig(parent: Agent, options: EvolutionOptions): StrategyConfig | undefined {
+  const definition = getStrategy(parent.strategy);
+  if (!definition || Object.keys(definition.configSchema).length === 0) return parent.strategyConfig;
+
+  const base = resolveStrategyConfig(definition, parent.strategyConfig);
+  const child: StrategyConfig = { ...parent.strategyConfig };
+  for (const [key, param] of Object.entries(definition.configSchema)) {
+    if (random() >= options.mutationRate) continue;
+    const value = base[key];
+
+    if (param.type === 'number' && typeof value === 'number') {
+      let mutated = mutateValue(value, options.mutationStrength);
+      if (Number.isInteger(param.default)) mutated = Math.round(mutated);
+      if (param.min !== undefined) mutated = Math.max(param.min, mutated);
+      if (param.max !== undefined) mutated = Math.min(param.max, mutated);
+      child[key] = mutated;
+    } else if (param.type === 'boolean' && typeof value === 'boolean') {
+      child[key] = !value;
+    }
+  }
+
+  return Object.keys(child).length > 0 ? child : undefined;
+}
+
+/**
+ * One evolution step over the enrolled agents: rank by fitness, retire the bottom `retireCount` (more if the
+ * population is above `populationSize`) and fill up to `populationSize` with mutated children of the survivors,
+ * best first. Children are registered on-chain before anything changes; retired agents are kept in storage
+ */
+export async function evolvePopulation(agents: Agent[], options: EvolutionOptions = config.agents.evolution): Promise<EvolutionResult> {
+  if (agents.length === 0) return { retired: [], spawned: [] };
+  const invalid = validateEvolutionOptions(options);
+  if (invalid) throw new Error(`Invalid evolution options: ${invalid}`);
+
+  const ranked = [...agents].sort((a, b) => getFitness(b) - getFitness(a));
+  const retireCount = Math.min(
+    ranked.length - 1, // At least one parent survives
+    Math.max(options.retireCount, ranked.length - options.populationSize)
+  );
+  const survivors = ranked.slice(0, ranked.length - retireCount);
+  const retired = ranked.slice(ranked.length - retireCount);
+
+  const takenNames = new Set(getAgentRecords().map(r => r.personality.name));
+  const firstIndex = getNextDerivationIndex();
+  const children = Array.from({ length: Math.max(0, options.populationSize - survivors.length) }, (_, i) => {
+    const parent = survivors[i % survivors.length]!;
+    const personality = mutatePersonality(parent.personality, options);
+    // Children keep the family name, numbered like other duplicates
+    personality.name = getUniqueAgentName(parent.personality.name.replace(/ \d+$/, ''), takenNames);
+    const child = createAgent(personality, parent.strategy, firstIndex + i, mutateStrategyConfig(parent, options));
+    child.parentId = parent.id;
+    return child;
+  });
+
+  if (children.length > 0) {
+    const blockchain = await import('../blockchain');
+    const result = await blockchain.registerAllAgentsBatch(children.map(c => c.wallet.address));
+    if (!result.success) {
+      throw new Error('Batch registration of evolved agents failed on-chain');
+    }
+  }
+
+  for (const agent of retired) {
+    persistAgent(agent, 'retired');
+    log('Agents', `Retired ${agent.personality.name} (${agent.id}, last round ${getFitness(agent).toFixed(2)})`);
+  }
+  for (const child of children) {
+    persistAgent(child);
+    const parent = survivors.find(s => s.id === child.parentId);
+    log('Agents', `Spawned ${child.personality.name} (${child.id}) from ${parent?.personality.name}: ${child.personality.riskTolerance} risk, aggressiveness ${child.personality.aggressiveness.toFixed(2)}, [${child.strategy}] ${JSON.stringify(child.strategyConfig ?? {})}`);
+  }
+
+  agents.length = 0;
+  agents.push(...survivors, ...children);
+  log('Agents', `Population evolved: ${retired.length} retired, ${children.length} spawned, ${agents.length} enrolled`);
+
+  return { retired: retired.map(a => a.id), spawned: children.map(c => c.id) };
+}
@@ -1,7 +1,19 @@
 import { ethers } from 'ethers';
-import type { Agent, AgentTokenHoldings, MarketStrategy, MarketState } from '../core/types';
+import type {
+  Agent,
+  AgentPersonality,
+  AgentRecord,
+  AgentStats,
+  AgentTokenHoldings,
+  MarketStrategy,
+  RoundAgentResult,
+  StrategyConfig,
+  StrategyMix,
+  StrategyType,
+} from '../core/types';
 import { log } from '../core/logger';
-import { config } from '../core/config';
+import { config, isLLMReplay, isSimulation } from '../core/config';
+import { getAgentRecords, getNextDerivationIndex, saveAgentRecord } from '../core/db';
 
 /**
  * Derive an Ethereum wallet from the master seed using BIP-44 path
@@ -48,7 +60,7 @@ export function getAgentSigner(agent: Agent, provider?: ethers.Provider): ethers
 /**
  * Helper function to get agent's holdings for a specific token
  */
-export function getAgentTokenHoldings(agent: Agent, strategyId: string, tokenType: 'yes' | 'no'): number {
+export function getAgentTokenHoldings(agent: Pick<Agent, 'tokenHoldings'>, strategyId: string, tokenType: 'yes' | 'no'): number {
   const holding = agent.tokenHoldings.find(
     h => h.strategyId === strategyId && h.tokenType === tokenType
   );
@@ -59,7 +71,7 @@ export function getAgentTokenHoldings(agent: Agent, strategyId: string, tokenTyp
  * Helper function to update agent's token holdings
  */
 export function updateAgentTokenHoldings(
-  agent: Agent,
+  agent: Pick<Agent, 'tokenHoldings'>,
   strategyId: string,
   tokenType: 'yes' | 'no',
   quantityChange: number
@@ -84,22 +96,52 @@ export function updateAgentTokenHoldings(
   }
 }
 
+// Max slippage an agent accepts on a swap, by risk tolerance (basis points)
+const MAX_SLIPPAGE_BPS: Record<Agent['personality']['riskTolerance'], number> = {
+  low: 50,
+  medium: 150,
+  high: 300,
+};
+
 /**
- * Helper function to select a strategy for an agent to trade on
- * Randomly selects from unresolved strategies to ensure all proposals get trading activity
+ * Max slippage (bps) an agent accepts, derived from its risk tolerance
  */
-export function selectStrategyForAgent(agent: Agent, market: MarketState): MarketStrategy | null {
-  // Filter to only unresolved strategies
-  const availableStrategies = market.strategies.filter(s => !s.resolved);
-  
-  if (availableStrategies.length === 0) return null;
-
-  // Randomly select a strategy (ensures all proposals get trading activity)
-  const randomIndex = Math.floor(Math.random() * availableStrategies.length);
-  const selected = availableStrategies[randomIndex];
-  return selected || null;
+export function getMaxSlippageBps(agent: Agent): number {
+  return MAX_SLIPPAGE_BPS[agent.personality.riskTolerance];
 }
 
+// Personalities used when LLM generation is unavailable (and in simulations/backtests)
+export const DEFAULT_AGENT_PERSONALITIES: AgentPersonality[] = [
+  {
+    name: 'Sarah Chen',
+    riskTolerance: 'high',
+    aggressiveness: 0.8,
+    memo: 'I believe in long-term growth and market resilience. I buy on dips and hold through volatility, focusing on fundamental value.',
+    traits: ['optimistic', 'risk-taker', 'trend-follower'],
+  },
+  {
+    name: 'Michael Rodriguez',
+    riskTolerance: 'medium',
+    aggressiveness: 0.5,
+    memo: 'I use systematic approaches and time-weighted strategies to minimize market impact. Patience and discipline guide my decisions.',
+    traits: ['patient', 'systematic', 'risk-aware'],
+  },
+  {
+    name: 'Priya Patel',
+    riskTolerance: 'high',
+    aggressiveness: 0.9,
+    memo: 'I follow momentum and trends closely. When I see strong signals, I act quickly to capitalize on market movements.',
+    traits: ['impulsive', 'trend-chaser', 'volatile'],
+  },
+  {
+    name: 'James Wilson',
+    riskTolerance: 'low',
+    aggressiveness: 0.3,
+    memo: 'I believe markets revert to mean values. I buy when prices are low and sell when they peak, using a contrarian approach.',
+    traits: ['contrarian', 'cautious', 'value-oriented'],
+  },
+];
+
 /**
  * Initialize empty agents array
  */
@@ -114,82 +156,150 @@ export function getAgentWalletAddresses(agents: Agent[]): string[] {
   return agents.map(agent => agent.wallet.address);
 }
 
+const DEFAULT_AGENT_COUNT = 4; // Agents spawned when none are persisted yet
+const MEMORY_LIMIT = 20; // Round outcomes an agent remembers
+
+function createAgentStats(): AgentStats {
+  return { roundsPlayed: 0, tradeCount: 0, totalPnl: 0, totalSettlementPnl: 0, lastRoundNumber: null };
+}
+
 /**
- * Generate agents and populate the agents array with derived wallets
+ * Agent for the next round from its persisted identity (fresh balance, holdings and round memory)
  */
-export async function generateAndSetAgents(agents: Agent[]): Promise<void> {
-  // Clear existing agents if any
-  agents.length = 0;
-
-  let personalities: Array<{
-    name: string;
-    riskTolerance: 'low' | 'medium' | 'high';
-    aggressiveness: number;
-    memo: string;
-    traits: string[];
-  }> = [];
+function fromAgentRecord(record: AgentRecord): Agent {
+  return {
+    id: record.id,
+    personality: record.personality,
+    strategy: record.strategy,
+    strategyConfig: record.strategyConfig,
+    vUSD: 100,
+    tokenHoldings: [],
+    wallet: record.wallet,
+    trades: [],
+    roundMemory: [],
+    derivationIndex: record.derivationIndex,
+    stats: record.stats,
+    memory: record.memory,
+    parentId: record.parentId,
+  };
+}
 
-  try {
-    const { generateAgentPersonalities } = await import('../llm');
-    personalities = await generateAgentPersonalities(4);
-  } catch (error) {
-    log('Agents', `LLM personality generation unavailable, proceeding with fallbacks: ${error instanceof Error ? error.message : error}`, 'warn');
+/**
+ * New agent with a fresh track record at a wallet derivation index
+ */
+export function createAgent(personality: AgentPersonality, strategy: StrategyType, derivationIndex: number, strategyConfig?: StrategyConfig): Agent {
+  return {
+    id: `agent-${derivationIndex + 1}`,
+    personality,
+    strategy,
+    strategyConfig,
+    vUSD: 100,
+    tokenHoldings: [],
+    wallet: deriveWallet(derivationIndex),
+    trades: [],
+    roundMemory: [],
+    derivationIndex,
+    stats: createAgentStats(),
+    memory: [],
+  };
+}
+
+/**
+ * Name not used by any agent yet: the name itself, or with the first free numeric suffix
+ */
+export function getUniqueAgentName(name: string, takenNames: Set<string>): string {
+  let unique = name;
+  for (let n = 2; takenNames.has(unique); n++) unique = `${name} ${n}`;
+  takenNames.add(unique);
+  return unique;
+}
+
+/**
+ * Persist an agent's identity, strategy, stats and cross-round memory
+ */
+export function persistAgent(agent: Agent, status: AgentRecord['status'] = 'active'): void {
+  const existing = getAgentRecords().find(r => r.id === agent.id);
+  saveAgentRecord({
+    id: agent.id,
+    derivationIndex: agent.derivationIndex ?? existing?.derivationIndex ?? 0,
+    wallet: agent.wallet,
+    personality: agent.personality,
+    strategy: agent.strategy,
+    strategyConfig: agent.strategyConfig,
+    status,
+    createdAt: existing?.createdAt ?? Date.now(),
+    stats: agent.stats ?? createAgentStats(),
+    memory: agent.memory ?? [],
+    parentId: agent.parentId,
+    retiredAt: status === 'retired' ? existing?.retiredAt ?? Date.now() : undefined,
+  });
+}
+
+/**
+ * Personalities for new agents: LLM-generated, or the defaults when unavailable
+ * Names already used by persisted agents get a numeric suffix
+ */
+async function generatePersonalities(count: number, takenNames: Set<string>): Promise<AgentPersonality[]> {
+  let personalities: AgentPersonality[] = [];
+
+  // Simulation runs stay offline and reproducible, so they use the default personalities unless replaying recordings
+  if (!isSimulation || isLLMReplay) {
+    try {
+      const { generateAgentPersonalities } = await import('../llm');
+      personalities = await generateAgentPersonalities(count);
+    } catch (error) {
+      log('Agents', `LLM personality generation unavailable, proceeding with fallbacks: ${error instanceof Error ? error.message : error}`, 'warn');
+    }
   }
 
   if (personalities.length === 0) {
     log('Agents', 'Initializing default agent personalities');
-    personalities = [
-      {
-        name: 'Sarah Chen',
-        riskTolerance: 'high',
-        aggressiveness: 0.8,
-        memo: 'I believe in long-term growth and market resilience. I buy on dips and hold through volatility, focusing on fundamental value.',
-        traits: ['optimistic', 'risk-taker', 'trend-follower'],
-      },
-      {
-        name: 'Michael Rodriguez',
-        riskTolerance: 'medium',
-        aggressiveness: 0.5,
-        memo: 'I use systematic approaches and time-weighted strategies to minimize market impact. Patience and discipline guide my decisions.',
-        traits: ['patient', 'systematic', 'risk-aware'],
-      },
-      {
-        name: 'Priya Patel',
-        riskTolerance: 'high',
-        aggressiveness: 0.9,
-        memo: 'I follow momentum and trends closely. When I see strong signals, I act quickly to capitalize on market movements.',
-        traits: ['impulsive', 'trend-chaser', 'volatile'],
-      },
-      {
-        name: 'James Wilson',
-        riskTolerance: 'low',
-        aggressiveness: 0.3,
-        memo: 'I believe markets revert to mean values. I buy when prices are low and sell when they peak, using a contrarian approach.',
-        traits: ['contrarian', 'cautious', 'value-oriented'],
-      },
-    ];
+    personalities = Array.from({ length: count }, (_, i) => {
+      const p = DEFAULT_AGENT_PERSONALITIES[i % DEFAULT_AGENT_PERSONALITIES.length]!;
+      return { ...p, traits: [...p.traits] };
+    });
   }
 
-  // Prepare agent objects (but don't add to array yet)
-  const agentObjects = personalities.map((personality, index) => {
-    // Derive wallet for this agent from master seed
-    const wallet = deriveWallet(index);
-
-    return {
-      id: `agent-${index + 1}`,
-      personality,
-      strategy: 'yes-no' as const,
-      vUSD: 100,
-      tokenHoldings: [],
-      wallet,
-      trades: [],
-      roundMemory: [],
-    };
-  });
+  return personalities
+    .slice(0, count)
+    .map(personality => ({ ...personality, name: getUniqueAgentName(personality.name, takenNames) }));
+}
+
+/**
+ * Enroll agents for a round and populate the agents array
+ * Active persisted agents are reused with their identity, track record and memory; `spawnCount` new agents
+ * are created at fresh derivation indices (DEFAULT_AGENT_COUNT when none exist yet)
+ * Strategies of new agents come from the mix (defaults to config.agents.strategyMix); an explicit mix reassigns everyone
+ */
+export async function generateAndSetAgents(agents: Agent[], strategyMix?: StrategyMix, spawnCount: number = 0): Promise<void> {
+  if (!Number.isInteger(spawnCount) || spawnCount < 0) {
+    throw new Error(`Invalid spawn count: ${spawnCount}`);
+  }
+
+  const records = getAgentRecords();
+  const enrolled = records.filter(r => r.status === 'active').map(fromAgentRecord);
+  const count = enrolled.length === 0 ? Math.max(spawnCount, DEFAULT_AGENT_COUNT) : spawnCount;
 
-  log('Agents', `${agentObjects.length} agent identities prepared`);
+  const personalities = count > 0
+    ? await generatePersonalities(count, new Set(records.map(r => r.personality.name)))
+    : [];
+
+  const { assignStrategyMix, applyStrategyMix } = await import('../engine/strategies');
+  const assignedStrategies = assignStrategyMix(personalities.length, strategyMix);
+  const firstIndex = getNextDerivationIndex();
+
+  // Prepare agent objects with wallets derived from the master seed (but don't add to array yet)
+  const spawned = personalities.map((personality, i) => createAgent(personality, assignedStrategies[i] ?? 'yes-no', firstIndex + i));
+
+  const agentObjects = [...enrolled, ...spawned];
+  if (strategyMix && enrolled.length > 0) {
+    applyStrategyMix(agentObjects, strategyMix);
+  }
+
+  log('Agents', `${agentObjects.length} agent identities prepared (${enrolled.length} enrolled, ${spawned.length} new)`);
 
   // Register agents on-chain FIRST using batch function (atomic - all or nothing)
+  // Registration is idempotent (tops balances up to 100), so enrolled agents are included
   log('Agents', 'Synchronizing agent identities with blockchain via batch registration...');
   try {
     const blockchain = await import('../blockchain') as any;
@@ -210,10 +320,11 @@ export async function generateAndSetAgents(agents: Agent[]): Promise<void> {
       log('Agents', `Batch registration confirmed: ${config.blockchain.blockExplorerUrl}/tx/${result.txHash}`, 'debug');
     }
 
-    // Only add to memory AFTER blockchain operation succeeds
+    // Only persist and add to memory AFTER blockchain operation succeeds
     agents.length = 0;
     agentObjects.forEach((agent) => {
-      log('Agents', `Configuration complete: ${agent.personality.name} (${agent.wallet.address})`);
+      persistAgent(agent);
+      log('Agents', `Configuration complete: ${agent.personality.name} [${agent.strategy}] (${agent.wallet.address})`);
       agents.push(agent);
     });
 
@@ -224,3 +335,54 @@ export async function generateAndSetAgents(agents: Agent[]): Promise<void> {
     throw error; // Re-throw to let caller know it failed
   }
 }
+
+/**
+ * Fold a completed round into each agent's track record and memory, persist it, and clear the
+ * round-scoped state so the same agents can be enrolled into the next round
+ */
+export function completeAgentRound(
+  agents: Agent[],
+  roundNumber: number,
+  results: RoundAgentResult[],
+  strategies: MarketStrategy[],
+  winnerId: string | null
+): void {
+  for (const agent of agents) {
+    const result = results.find(r => r.agentId === agent.id);
+    const pnl = result?.pnl ?? 0;
+    const settlementPnl = result?.settlementPnl ?? pnl;
+    const stats = agent.stats ?? createAgentStats();
+
+    agent.stats = {
+      roundsPlayed: stats.roundsPlayed + 1,
+      tradeCount: stats.tradeCount + agent.trades.length,
+      totalPnl: stats.totalPnl + pnl,
+      totalSettlementPnl: stats.totalSettlementPnl + settlementPnl,
+      lastRoundNumber: roundNumber,
+    };
+    agent.memory = [...(agent.memory ?? []), {
+      roundNumber,
+      strategy: agent.strategy,
+      graduatedStrategyId: winnerId,
+      pnl,
+      settlementPnl,
+      tradeCount: agent.trades.length,
+      positions: agent.tokenHoldings.map(h => ({
+        strategyId: h.strategyId,
+        strategyName: strategies.find(s => s.id === h.strategyId)?.name ?? h.strategyId,
+        tokenType: h.tokenType,
+        quantity: h.quantity,
+      })),
+    }].slice(-MEMORY_LIMIT);
+
+    try {
+      persistAgent(agent);
+    } catch (error) {
+      log('Agents', `Failed to persist ${agent.personality.name}: ${error instanceof Error ? error.message : error}`, 'error');
+    }
+
+    agent.tokenHoldings = [];
+    agent.trades = [];
+    agent.roundMemory = [];
+  }
+}
@@ -0,0 +1,114 @@
+// Post-round reflections: each agent summarizes what it bet on, whether it graduated and what it learned,
+// and its most recent reflections are fed back into later decision prompts
+import type { Agent, AgentRoundOutcome } from '../core/types';
+import { config, isDev, isLLMReplay, isSimulation } from '../core/config';
+import { log } from '../core/logger';
+import { estimateTokens } from '../llm/budget';
+import { persistAgent } from './index';
+
+function formatPnl(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+/**
+ * What the agent held when the round closed and how each position settled
+ */
+export function summarizeOutcome(outcome: AgentRoundOutcome): string {
+  const pnl = `PnL ${formatPnl(outcome.pnl)} (settled ${formatPnl(outcome.settlementPnl)}), ${outcome.tradeCount} trades as ${outcome.strategy}`;
+  if (outcome.positions.length === 0) {
+    return `Round #${outcome.roundNumber}: ended without positions. ${pnl}.`;
+  }
+
+  const positions = outcome.positions.map(p => {
+    const graduated = p.strategyId === outcome.graduatedStrategyId;
+    return `${p.quantity.toFixed(2)} ${p.tokenType.toUpperCase()} on "${p.strategyName}" (${graduated ? 'graduated' : 'did not graduate'})`;
+  });
+  return `Round #${outcome.roundNumber}: held ${positions.join(', ')}. ${pnl}.`;
+}
+
+/**
+ * Lessons derived from the outcome alone, used when the LLM is unavailable
+ */
+function deriveLessons(outcome: AgentRoundOutcome): string {
+  const graduated = (p: AgentRoundOutcome['positions'][number]) => p.strategyId === outcome.graduatedStrategyId;
+  const lessons: string[] = [];
+
+  if (outcome.positions.some(p => p.tokenType === 'yes' && !graduated(p))) {
+    lessons.push('My YES on proposals that did not graduate went to zero; I should rotate out of trailing proposals before the round closes.');
+  }
+  if (outcome.positions.some(p => p.tokenType === 'no' && graduated(p))) {
+    lessons.push('Shorting the proposal that graduated cost me; I should not hold NO against the TWAP leader.');
+  }
+  if (outcome.positions.some(p => p.tokenType === 'yes' && graduated(p)) && outcome.settlementPnl > 0) {
+    lessons.push('Backing the eventual winner paid off; concentrating on the proposal most likely to graduate works.');
+  }
+  if (outcome.positions.length === 0 && outcome.tradeCount === 0) {
+    lessons.push('Sitting the round out earned nothing; I should take a position when I see a clear edge.');
+  }
+  if (lessons.length === 0) {
+    lessons.push(outcome.settlementPnl < 0
+      ? 'Fees and adverse moves outweighed my gains; I should trade less and only with a clear edge.'
+      : 'My approach held up; I should keep position sizes disciplined.');
+  }
+
+  return lessons.join(' ');
+}
+
+/**
+ * Write a reflection on the last completed round of each agent (LLM lessons when available, otherwise
+ * derived from the outcome), store it on that round's memory entry and persist the agent
+ */
+export async function reflectOnRound(agents: Agent[]): Promise<void> {
+  const pending = agents.filter(a => {
+    const last = a.memory?.[a.memory.length - 1];
+    return last && !last.reflection;
+  });
+  if (pending.length === 0) return;
+
+  // Simulation runs stay offline and dev mode skips the LLM like trading decisions do, unless replaying recordings
+  let llmLessons = new Map<string, string>();
+  if ((!isSimulation && !isDev) || isLLMReplay) {
+    try {
+      const { generateAgentReflections } = await import('../llm');
+      llmLessons = await generateAgentReflections(pending);
+    } catch (error) {
+      log('Agents', `LLM reflections unavailable, deriving lessons from outcomes: ${error instanceof Error ? error.message : error}`, 'warn');
+    }
+  }
+
+  for (const agent of pending) {
+    const outcome = agent.memory![agent.memory!.length - 1]!;
+    const lessons = llmLessons.get(agent.id);
+    outcome.reflection = {
+      summary: summarizeOutcome(outcome),
+      lessons: lessons ?? deriveLessons(outcome),
+      source: lessons ? 'llm' : 'rule',
+    };
+
+    try {
+      persistAgent(agent);
+    } catch (error) {
+      log('Agents', `Failed to persist reflection of ${agent.personality.name}: ${error instanceof Error ? error.message : error}`, 'error');
+    }
+  }
+
+  log('Agents', `Recorded post-round reflections for ${pending.length} agents (${llmLessons.size} LLM-written)`);
+}
+
+/**
+ * Most recent reflections of an agent that fit the token budget, newest first
+ */
+export function getReflectionsForPrompt(agent: Agent, tokenBudget: number = config.agents.reflectionTokenBudget): string[] {
+  const lines: string[] = [];
+  let tokens = 0;
+
+  for (const outcome of [...(agent.memory ?? [])].reverse()) {
+    if (!outcome.reflection) continue;
+    const line = `${outcome.reflection.summary} Lessons: ${outcome.reflection.lessons}`;
+    tokens += estimateTokens(line);
+    if (tokens > tokenBudget) break;
+    lines.push(line);
+  }
+
+  return lines;
+}
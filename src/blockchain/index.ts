@@ -1,8 +1,10 @@
 import { ethers, BaseContract, JsonRpcProvider, Wallet, ContractTransactionResponse } from 'ethers';
-import { config } from '../core/config';
+import { config, isSimulation } from '../core/config';
 import { getAgentSigner } from '../agents';
 import type { Agent, MarketStrategy } from '../core/types';
+import { createPool } from '../engine/pricing';
 import routerArtifact from '../../abi/router.json';
+import { getSimulatedChain } from './simulation';
 
 /**
  * Interfaces for Verdict Prediction Market Contracts
@@ -33,6 +35,13 @@ interface VerdictRouter extends BaseContract {
     getYESBalance(id: string, account: string): Promise<bigint>;
     getYESPrice(id: string): Promise<bigint>;
     getPoolReserves(id: string): Promise<{ vUSDCReserve: bigint; yesReserve: bigint }>;
+    getSwapQuote(id: string, tokenIn: string, amountIn: bigint): Promise<bigint>;
+    buyNO(id: string, amountIn: bigint, minOut: bigint, overrides?: any): Promise<ContractTransactionResponse>;
+    sellNO(id: string, noIn: bigint, minOut: bigint, overrides?: any): Promise<ContractTransactionResponse>;
+    getNoTokenAddress(id: string): Promise<string>;
+    getNOBalance(id: string, account: string): Promise<bigint>;
+    getBuyNOQuote(id: string, amountIn: bigint): Promise<bigint>;
+    getSellNOQuote(id: string, noIn: bigint): Promise<bigint>;
     currentRound(): Promise<bigint>;
     graduateProposal(id: string, finalPrice: bigint, overrides?: any): Promise<ContractTransactionResponse>;
     getGraduatedProposals(): Promise<string[]>;
@@ -92,6 +101,8 @@ export function getBackendSigner(): Wallet {
 }
 
 export function getRouter(): VerdictRouter {
+    // The simulated chain implements the router's views, writes go through the wrappers below
+    if (isSimulation) return getSimulatedChain() as unknown as VerdictRouter;
     if (!routerContract) throw new Error('Router contract not initialized');
     return routerContract;
 }
@@ -240,6 +251,14 @@ export async function handleRateLimitError(error: any): Promise<boolean> {
  * Initialize blockchain connection
  */
 export async function initBlockchain(): Promise<boolean> {
+    if (isSimulation) {
+        VUSDCADDRESS = getSimulatedChain().vUSDCAddress;
+        console.log('Blockchain initialized (simulation)');
+        console.log(`Seed: ${config.simulation.seed}`);
+        console.log(`vUSDC: ${VUSDCADDRESS}`);
+        return true;
+    }
+
     try {
         // Setup RPC URLs list (primary + fallbacks)
         const NETWORKS = {
@@ -308,6 +327,10 @@ export async function initBlockchain(): Promise<boolean> {
  * Register an agent on-chain
  */
 export async function registerAgentOnChain(agent: Agent): Promise<{ success: boolean; txHash?: string }> {
+    if (isSimulation) {
+        return { success: true, txHash: getSimulatedChain().registerAgentsBatch([agent.wallet.address]) };
+    }
+
     try {
         const router = getRouter();
         const signer = getBackendSigner();
@@ -358,6 +381,10 @@ async function sendWithFreshNonce(
  * Register all agents on-chain using batch function (atomic - all or nothing)
  */
 export async function registerAllAgentsBatch(agentAddresses: string[]): Promise<{ success: boolean; txHash?: string }> {
+    if (isSimulation) {
+        return { success: true, txHash: getSimulatedChain().registerAgentsBatch(agentAddresses) };
+    }
+
     try {
         const router = getRouter();
         const signer = getBackendSigner();
@@ -500,6 +527,10 @@ async function sendWithFreshNonceForAgent(
  * Reset all agent balances to 100 vUSDC at round start using smart contract function
  */
 export async function resetAgentBalancesTo100(agents: Agent[]): Promise<{ success: boolean; txHash?: string }> {
+    if (isSimulation) {
+        return { success: true, txHash: getSimulatedChain().resetAgentsBalanceTo100Batch(agents.map(agent => agent.wallet.address)) };
+    }
+
     // Prevent concurrent calls
     if (isResettingBalances) {
         console.log(`⚠️ Balance reset already in progress, skipping...`);
@@ -778,6 +809,18 @@ export async function createProposalOnChain(
     deadline: number,
     liquidity: number
 ): Promise<{ yesToken: string; poolId: string; txHash: string } | null> {
+    if (isSimulation) {
+        try {
+            return getSimulatedChain().createProposal({
+                id: proposalId, name, description, evaluationLogic: evalLogic, mathematicalLogic: mathLogic,
+                resolutionDeadline: deadline, initialLiquidity: liquidity,
+            });
+        } catch (error) {
+            console.error(`❌ Failed to create proposal:`, error);
+            return null;
+        }
+    }
+
     try {
         const router = getRouter();
         const signer = getBackendSigner();
@@ -814,14 +857,18 @@ export async function executeSwapOnChain(
     proposalId: string,
     tokenIn: string,
     amountIn: number,
-    minAmountOut: number
-): Promise<{ success: boolean; txHash?: string }> {
+    minAmountOut: number,
+    outcome: 'yes' | 'no' = 'yes'
+): Promise<{ success: boolean; txHash?: string; slippageReverted?: boolean }> {
     try {
         // Validate inputs
         if (!proposalId || !tokenIn || amountIn <= 0 || minAmountOut < 0) {
             console.error(`❌ Invalid swap parameters for ${agent.personality.name}`);
             return { success: false };
         }
+        if (isSimulation) {
+            return executeSimulatedSwap(agent.wallet.address, proposalId, tokenIn, amountIn, minAmountOut, outcome);
+        }
         const prov = getProvider();
         const router = getRouter();
         const agentSigner = getAgentSigner(agent, prov);
@@ -837,7 +884,19 @@ export async function executeSwapOnChain(
         } catch { }
 
         const amountWei = ethers.parseUnits(amountIn.toString(), 18);
-        const minOutWei = ethers.parseUnits(minAmountOut.toString(), 18);
+        const minOutWei = ethers.parseUnits(minAmountOut.toFixed(18), 18);
+
+        // NO trades use the router's mint-and-swap path: vUSDC in = buyNO, NO tokens in = sellNO
+        const isNOSell = outcome === 'no'
+            && actualTokenIn.toLowerCase() === (await getNoTokenAddress(proposalId)).toLowerCase();
+        const sendSwap = (r: VerdictRouter, overrides: any) => {
+            if (outcome === 'no') {
+                return isNOSell
+                    ? r.sellNO(proposalId, amountWei, minOutWei, overrides)
+                    : r.buyNO(proposalId, amountWei, minOutWei, overrides);
+            }
+            return r.swap(proposalId, actualTokenIn, amountWei, minOutWei, overrides);
+        };
 
         const token = new ethers.Contract(actualTokenIn, [
             'function allowance(address,address) view returns (uint256)',
@@ -949,7 +1008,7 @@ export async function executeSwapOnChain(
                     if (!agentRouter || !agentRouter.swap) {
                         throw new Error('Agent router not initialized');
                     }
-                    return await agentRouter.swap(proposalId, actualTokenIn, amountWei, minOutWei, { nonce, ...gasPriceOverride });
+                    return await sendSwap(agentRouter, { nonce, ...gasPriceOverride });
                 } catch (swapError: any) {
                     const swapErrorMsg = swapError?.message || swapError?.reason || swapError?.code || 'Unknown error';
                     
@@ -965,7 +1024,7 @@ export async function executeSwapOnChain(
                             if (!newAgentRouter || !newAgentRouter.swap) {
                                 throw new Error('Agent router not initialized');
                             }
-                            return await newAgentRouter.swap(proposalId, actualTokenIn, amountWei, minOutWei, { nonce, ...gasPriceOverride });
+                            return await sendSwap(newAgentRouter, { nonce, ...gasPriceOverride });
                         }
                         throw new Error('Rate limit - retry later');
                     }
@@ -982,6 +1041,10 @@ export async function executeSwapOnChain(
             return { success: true, txHash: swapTx.hash };
         } catch (error: any) {
             const errorMsg = error?.message || error?.reason || error?.code || 'Unknown error';
+            if (isSlippageRevert(error)) {
+                console.warn(`⚠️  Swap reverted for ${agent.personality.name}: slippage exceeded (minOut=${ethers.formatEther(minOutWei)})`);
+                return { success: false, slippageReverted: true };
+            }
             console.error(`❌ Swap failed for ${agent.personality.name}:`, errorMsg);
             if (error?.data) {
                 console.error(`   Error data:`, error.data);
@@ -999,7 +1062,259 @@ export async function executeSwapOnChain(
     }
 }
 
+/**
+ * Run a router swap (YES swap, buyNO or sellNO) on the simulated chain
+ */
+function executeSimulatedSwap(
+    sender: string,
+    proposalId: string,
+    tokenIn: string,
+    amountIn: number,
+    minAmountOut: number,
+    outcome: 'yes' | 'no'
+): { success: boolean; txHash?: string; slippageReverted?: boolean } {
+    const chain = getSimulatedChain();
+    try {
+        const isVUSDCIn = tokenIn.toLowerCase() === chain.vUSDCAddress.toLowerCase();
+        const result = outcome === 'no'
+            ? (isVUSDCIn ? chain.buyNO(sender, proposalId, amountIn, minAmountOut) : chain.sellNO(sender, proposalId, amountIn, minAmountOut))
+            : chain.swap(sender, proposalId, tokenIn, amountIn, minAmountOut);
+        return { success: true, txHash: result.txHash };
+    } catch (error: any) {
+        if (isSlippageRevert(error)) {
+            return { success: false, slippageReverted: true };
+        }
+        console.error(`❌ Simulated swap failed for ${sender}:`, error?.message);
+        return { success: false };
+    }
+}
+
+/**
+ * Whether a swap error is the AMM's minAmountOut check ("Slippage exceeded")
+ */
+function isSlippageRevert(error: any): boolean {
+    const messages = [error?.reason, error?.shortMessage, error?.message, error?.info?.error?.message];
+    return messages.some(m => typeof m === 'string' && m.includes('Slippage exceeded'));
+}
+
+/**
+ * Unsigned transaction for an external (human) wallet to sign
+ */
+export interface UnsignedUserTransaction {
+    description: string;
+    from: string;
+    to: string;
+    data: string;
+    value: string;
+    chainId: number;
+}
+
+const ERC20_APPROVE_INTERFACE = new ethers.Interface([
+    'function approve(address spender, uint256 amount) returns (bool)'
+]);
+
+/**
+ * Build the unsigned userFaucet transaction (mints 100 vUSDC to the caller)
+ */
+export function buildFaucetTransaction(fromAddress: string): UnsignedUserTransaction {
+    const routerInterface = new ethers.Interface(routerArtifact.abi);
+    return {
+        description: 'Claim 100 vUSDC from the router faucet',
+        from: fromAddress,
+        to: ROUTER_ADDRESS,
+        data: routerInterface.encodeFunctionData('userFaucet', []),
+        value: '0',
+        chainId: config.blockchain.chainId,
+    };
+}
+
+/**
+ * Build unsigned transactions for a user-signed swap through the router
+ * Prepends an ERC20 approval when the router allowance is insufficient
+ */
+export async function buildSwapTransactions(
+    fromAddress: string,
+    proposalId: string,
+    side: 'buy' | 'sell',
+    amountIn: number,
+    minAmountOut: number,
+    outcome: 'yes' | 'no' = 'yes'
+): Promise<UnsignedUserTransaction[]> {
+    const router = getRouter();
+    const outcomeLabel = outcome.toUpperCase();
+    const tokenIn = side === 'buy'
+        ? (VUSDCADDRESS || await router.vUSDCToken())
+        : outcome === 'no'
+            ? await getNoTokenAddress(proposalId)
+            : await getYesTokenAddress(proposalId);
+
+    if (!tokenIn || tokenIn === ethers.ZeroAddress) {
+        throw new Error(`Proposal ${proposalId} not found on-chain`);
+    }
+
+    const amountWei = ethers.parseUnits(amountIn.toFixed(18), 18);
+    const minOutWei = ethers.parseUnits(minAmountOut.toFixed(18), 18);
+    const transactions: UnsignedUserTransaction[] = [];
+
+    // The simulated chain doesn't track allowances
+    const allowance = isSimulation
+        ? ethers.MaxUint256
+        : await (new ethers.Contract(tokenIn, [
+            'function allowance(address,address) view returns (uint256)'
+        ], getProvider()) as unknown as ERC20).allowance(fromAddress, ROUTER_ADDRESS);
+
+    if (allowance < amountWei) {
+        transactions.push({
+            description: `Approve router to spend ${side === 'buy' ? 'vUSDC' : `${outcomeLabel} tokens`}`,
+            from: fromAddress,
+            to: tokenIn,
+            data: ERC20_APPROVE_INTERFACE.encodeFunctionData('approve', [ROUTER_ADDRESS, ethers.MaxUint256]),
+            value: '0',
+            chainId: config.blockchain.chainId,
+        });
+    }
+
+    if (outcome === 'no') {
+        transactions.push({
+            description: side === 'buy'
+                ? `Buy ${amountIn} NO with ${amountIn} vUSDC, refunding at least ${minAmountOut} vUSDC`
+                : `Sell ${amountIn} NO for at least ${minAmountOut} vUSDC`,
+            from: fromAddress,
+            to: ROUTER_ADDRESS,
+            data: router.interface.encodeFunctionData(side === 'buy' ? 'buyNO' : 'sellNO', [proposalId, amountWei, minOutWei]),
+            value: '0',
+            chainId: config.blockchain.chainId,
+        });
+        return transactions;
+    }
+
+    transactions.push({
+        description: side === 'buy'
+            ? `Swap ${amountIn} vUSDC for at least ${minAmountOut} YES`
+            : `Swap ${amountIn} YES for at least ${minAmountOut} vUSDC`,
+        from: fromAddress,
+        to: ROUTER_ADDRESS,
+        data: router.interface.encodeFunctionData('swap', [proposalId, tokenIn, amountWei, minOutWei]),
+        value: '0',
+        chainId: config.blockchain.chainId,
+    });
+
+    return transactions;
+}
+
+/**
+ * Decode a signed router swap (YES swap, buyNO or sellNO), or null if it isn't one
+ */
+export function decodeSignedSwap(signedTx: string): { proposalId: string; outcome: 'yes' | 'no'; amountIn: number; minAmountOut: number } | null {
+    try {
+        const tx = ethers.Transaction.from(signedTx);
+        if (!tx.to || tx.to.toLowerCase() !== ROUTER_ADDRESS.toLowerCase()) return null;
+
+        const parsed = new ethers.Interface(routerArtifact.abi).parseTransaction({ data: tx.data });
+        if (parsed?.name === 'swap') {
+            return {
+                proposalId: parsed.args[0],
+                outcome: 'yes',
+                amountIn: parseFloat(ethers.formatUnits(parsed.args[2], 18)),
+                minAmountOut: parseFloat(ethers.formatUnits(parsed.args[3], 18)),
+            };
+        }
+        if (parsed?.name === 'buyNO' || parsed?.name === 'sellNO') {
+            return {
+                proposalId: parsed.args[0],
+                outcome: 'no',
+                amountIn: parseFloat(ethers.formatUnits(parsed.args[1], 18)),
+                minAmountOut: parseFloat(ethers.formatUnits(parsed.args[2], 18)),
+            };
+        }
+        return null;
+    } catch { return null; }
+}
+
+/**
+ * Broadcast a transaction signed by an external wallet
+ * Only router calls and ERC20 approvals of the router are relayed
+ */
+export async function submitSignedTransaction(
+    signedTx: string,
+    expectedFrom: string
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+    let tx: ethers.Transaction;
+    try {
+        tx = ethers.Transaction.from(signedTx);
+    } catch {
+        return { success: false, error: 'Invalid signed transaction' };
+    }
+
+    if (!tx.from || tx.from.toLowerCase() !== expectedFrom.toLowerCase()) {
+        return { success: false, error: 'Transaction is not signed by the registered wallet' };
+    }
+    if (tx.chainId !== BigInt(config.blockchain.chainId)) {
+        return { success: false, error: `Wrong chain ID ${tx.chainId}, expected ${config.blockchain.chainId}` };
+    }
+
+    const isRouterCall = tx.to?.toLowerCase() === ROUTER_ADDRESS.toLowerCase();
+    let isRouterApproval = false;
+    try {
+        const parsed = ERC20_APPROVE_INTERFACE.parseTransaction({ data: tx.data });
+        isRouterApproval = parsed?.name === 'approve' && String(parsed.args[0]).toLowerCase() === ROUTER_ADDRESS.toLowerCase();
+    } catch { }
+
+    if (!isRouterCall && !isRouterApproval) {
+        return { success: false, error: 'Only router calls and router approvals can be submitted' };
+    }
+    if (isSimulation) {
+        return submitSimulatedTransaction(tx, isRouterApproval);
+    }
+
+    try {
+        const response = await getProvider().broadcastTransaction(signedTx);
+        const receipt = await response.wait();
+        if (!receipt || receipt.status !== 1) {
+            return { success: false, txHash: response.hash, error: 'Transaction reverted' };
+        }
+        return { success: true, txHash: response.hash };
+    } catch (error: any) {
+        const errorMsg = error?.reason || error?.shortMessage || error?.message || 'Unknown error';
+        console.error(`❌ Failed to submit signed transaction from ${expectedFrom}:`, errorMsg);
+        return { success: false, error: errorMsg };
+    }
+}
+
+/**
+ * Apply a user-signed router call to the simulated chain (approvals are no-ops)
+ */
+function submitSimulatedTransaction(tx: ethers.Transaction, isApproval: boolean): { success: boolean; txHash?: string; error?: string } {
+    const chain = getSimulatedChain();
+    if (isApproval) {
+        return { success: true, txHash: tx.hash ?? undefined };
+    }
+
+    const sender = tx.from!;
+    try {
+        const parsed = chain.interface.parseTransaction({ data: tx.data });
+        if (parsed?.name === 'userFaucet') {
+            return { success: true, txHash: chain.userFaucet(sender) };
+        }
+        if (parsed?.name === 'swap') {
+            const [proposalId, tokenIn, amountIn, minOut] = parsed.args;
+            return { success: true, txHash: chain.swap(sender, proposalId, tokenIn, parseFloat(ethers.formatUnits(amountIn, 18)), parseFloat(ethers.formatUnits(minOut, 18))).txHash };
+        }
+        if (parsed?.name === 'buyNO' || parsed?.name === 'sellNO') {
+            const [proposalId, amountIn, minOut] = parsed.args;
+            const args = [sender, proposalId, parseFloat(ethers.formatUnits(amountIn, 18)), parseFloat(ethers.formatUnits(minOut, 18))] as const;
+            const result = parsed.name === 'buyNO' ? chain.buyNO(...args) : chain.sellNO(...args);
+            return { success: true, txHash: result.txHash };
+        }
+        return { success: false, error: `${parsed?.name ?? 'Unknown call'} is not supported in simulation mode` };
+    } catch (error: any) {
+        return { success: false, error: error?.message || 'Transaction reverted' };
+    }
+}
+
 export async function getTokenBalance(tokenAddress: string, accountAddress: string): Promise<number> {
+    if (isSimulation) return getSimulatedChain().balanceOfToken(tokenAddress, accountAddress);
+
     try {
         const prov = getProvider();
         const token = new ethers.Contract(tokenAddress, [
@@ -1045,6 +1360,19 @@ export async function getAgentYESBalance(proposalId: string, agentAddress: strin
     } catch { return 0; }
 }
 
+export async function getNoTokenAddress(proposalId: string): Promise<string> {
+    try {
+        return await getRouter().getNoTokenAddress(proposalId);
+    } catch { return ''; }
+}
+
+export async function getAgentNOBalance(proposalId: string, agentAddress: string): Promise<number> {
+    try {
+        const balance = await getRouter().getNOBalance(proposalId, agentAddress);
+        return parseFloat(ethers.formatUnits(balance, 18));
+    } catch { return 0; }
+}
+
 export async function getYESPriceFromChain(proposalId: string): Promise<number> {
     try {
         const price = await getRouter().getYESPrice(proposalId);
@@ -1062,6 +1390,36 @@ export async function getPoolReserves(proposalId: string): Promise<{ vUSDC: numb
     } catch { return { vUSDC: 0, yes: 0 }; }
 }
 
+/**
+ * Expected swap output from the router's quote functions, or null if the call fails
+ * For NO buys this is the vUSDC refund from selling the minted YES half
+ */
+export async function getSwapQuoteOnChain(
+    proposalId: string,
+    side: 'buy' | 'sell',
+    amountIn: number,
+    outcome: 'yes' | 'no' = 'yes'
+): Promise<number | null> {
+    try {
+        const router = getRouter();
+        if (outcome === 'no') {
+            const amountWei = ethers.parseUnits(amountIn.toFixed(18), 18);
+            const amountOut = side === 'buy'
+                ? await router.getBuyNOQuote(proposalId, amountWei)
+                : await router.getSellNOQuote(proposalId, amountWei);
+            return parseFloat(ethers.formatUnits(amountOut, 18));
+        }
+        const tokenIn = side === 'buy'
+            ? (VUSDCADDRESS || await router.vUSDCToken())
+            : await getYesTokenAddress(proposalId);
+        const amountOut = await router.getSwapQuote(proposalId, tokenIn, ethers.parseUnits(amountIn.toFixed(18), 18));
+        return parseFloat(ethers.formatUnits(amountOut, 18));
+    } catch (error) {
+        console.error(`Failed to fetch on-chain swap quote for ${proposalId}:`, error);
+        return null;
+    }
+}
+
 /**
  * Calculate how many YES tokens you get for a given amount of vUSD using the contract's swap formula
  * This matches the actual on-chain swap calculation
@@ -1088,6 +1446,8 @@ export async function calculateYESForVUSDOnChain(
 }
 
 export async function initializeMarketOnChain(duration: number): Promise<string | null> {
+    if (isSimulation) return getSimulatedChain().initializeMarket(duration);
+
     try {
         const router = getRouter();
         const signer = getBackendSigner();
@@ -1103,6 +1463,24 @@ export async function initializeMarketWithProposalsBatch(
     duration: number,
     proposals: any[]
 ): Promise<{ success: boolean; txHashes: string[] }> {
+    if (isSimulation) {
+        try {
+            const txHash = getSimulatedChain().initializeMarketWithProposals(duration, proposals.map(p => ({
+                id: p.id,
+                name: p.name,
+                description: p.description,
+                evaluationLogic: p.evaluationLogic,
+                mathematicalLogic: p.mathematicalLogic,
+                resolutionDeadline: p.resolutionDeadline,
+                initialLiquidity: 2000,
+            })));
+            return { success: true, txHashes: [txHash] };
+        } catch (error: any) {
+            console.error(`❌ Simulated market initialization failed:`, error?.message);
+            return { success: false, txHashes: [] };
+        }
+    }
+
     const router = getRouter();
     const signer = getBackendSigner();
     const txHashes: string[] = [];
@@ -1183,6 +1561,10 @@ export async function getRoundInfoOnChain(): Promise<{
 }
 
 export async function graduateProposalOnChain(proposalId: string, finalPrice: number): Promise<string | null> {
+    if (isSimulation) {
+        try { return getSimulatedChain().graduateProposal(proposalId, finalPrice); } catch { return null; }
+    }
+
     try {
         const router = getRouter();
         const signer = getBackendSigner();
@@ -1223,6 +1605,7 @@ export async function fetchGraduatedProposalsOnChain(): Promise<MarketStrategy[]
                 timestamp: Number(p.timestamp),
                 resolved: p.resolved,
                 winner: p.isWinner ? 'yes' : 'no',
+                pool: createPool(0), // Graduated pools are not tracked
                 yesToken: {
                     tokenReserve: 0,
                     volume: 0,
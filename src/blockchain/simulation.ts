@@ -0,0 +1,353 @@
+import { ethers } from 'ethers';
+import type { PoolState } from '../core/types';
+import { config } from '../core/config';
+import { seedRandom } from '../core/random';
+import {
+    AMM_FEE_BPS,
+    calculateYESForVUSDSwap,
+    calculateVUSDForYESSwap,
+    calculateVUSDForExactYESSwap,
+} from '../engine/amm';
+import routerArtifact from '../../abi/router.json';
+
+/**
+ * In-process stand-in for the router and its tokens, used when SIMULATION=true
+ * View methods take and return wei bigints like the contract so getRouter() callers work unchanged;
+ * state-changing methods take the sender explicitly, settle instantly and return a deterministic tx hash
+ */
+
+const AGENT_TARGET_BALANCE = 100;
+const FAUCET_AMOUNT = 100;
+
+interface SimulatedProposal {
+    id: string;
+    name: string;
+    description: string;
+    evaluationLogic: string;
+    mathematicalLogic: string;
+    resolutionDeadline: number;
+    yesToken: string;
+    noToken: string;
+    pool: PoolState;
+    resolved: boolean;
+    isWinner: boolean;
+    yesTWAP: number;
+    timestamp: number;
+}
+
+export interface SimulatedProposalInput {
+    id: string;
+    name: string;
+    description: string;
+    evaluationLogic: string;
+    mathematicalLogic: string;
+    resolutionDeadline: number;
+    initialLiquidity: number;
+}
+
+const toWei = (amount: number): bigint => ethers.parseUnits(Math.max(0, amount).toFixed(18), 18);
+const fromWei = (amount: bigint): number => parseFloat(ethers.formatUnits(amount, 18));
+
+// Deterministic checksummed address for a simulated contract
+const simulatedAddress = (label: string): string => ethers.getAddress(ethers.id(`verdict-sim:${label}`).slice(0, 42));
+
+export class SimulatedChain {
+    readonly vUSDCAddress = simulatedAddress('vUSDC');
+    readonly interface = new ethers.Interface(routerArtifact.abi);
+
+    private balances = new Map<string, Map<string, number>>(); // token -> account -> balance (lowercased keys)
+    private proposals = new Map<string, SimulatedProposal>();
+    private graduated: string[] = [];
+    private round = { roundNumber: 0, roundStartTime: 0, roundEndTime: 0, roundDuration: 0, proposalIds: [] as string[], active: false };
+    private txCount = 0;
+
+    // ----------------------------------------------------------------
+    //                        Token balances
+    // ----------------------------------------------------------------
+
+    balanceOfToken(token: string, account: string): number {
+        return this.balances.get(token.toLowerCase())?.get(account.toLowerCase()) ?? 0;
+    }
+
+    private setBalance(token: string, account: string, amount: number): void {
+        const key = token.toLowerCase();
+        if (!this.balances.has(key)) this.balances.set(key, new Map());
+        this.balances.get(key)!.set(account.toLowerCase(), amount);
+    }
+
+    private credit(token: string, account: string, amount: number): void {
+        this.setBalance(token, account, this.balanceOfToken(token, account) + amount);
+    }
+
+    private debit(token: string, account: string, amount: number): void {
+        const balance = this.balanceOfToken(token, account);
+        // Tolerate float dust from number <-> wei conversions
+        if (balance + 1e-9 < amount) throw new Error('ERC20: transfer amount exceeds balance');
+        this.setBalance(token, account, Math.max(0, balance - amount));
+    }
+
+    private nextTxHash(): string {
+        this.txCount++;
+        return ethers.id(`verdict-sim:tx:${this.txCount}`);
+    }
+
+    private getProposal(id: string): SimulatedProposal {
+        const proposal = this.proposals.get(id);
+        if (!proposal) throw new Error('Pool not found');
+        return proposal;
+    }
+
+    // ----------------------------------------------------------------
+    //                      Backend-only writes
+    // ----------------------------------------------------------------
+
+    registerAgentsBatch(agents: string[]): string {
+        for (const agent of agents) {
+            this.setBalance(this.vUSDCAddress, agent, AGENT_TARGET_BALANCE);
+        }
+        return this.nextTxHash();
+    }
+
+    resetAgentsBalanceTo100Batch(agents: string[]): string {
+        return this.registerAgentsBatch(agents);
+    }
+
+    initializeMarket(durationSeconds: number): string {
+        // Like the registry, a new round clears the previous round's proposals
+        for (const id of this.round.proposalIds) {
+            if (!this.graduated.includes(id)) this.proposals.delete(id);
+        }
+        const now = Math.floor(Date.now() / 1000);
+        this.round = {
+            roundNumber: this.round.roundNumber + 1,
+            roundStartTime: now,
+            roundEndTime: now + durationSeconds,
+            roundDuration: durationSeconds,
+            proposalIds: [],
+            active: true,
+        };
+        return this.nextTxHash();
+    }
+
+    createProposal(input: SimulatedProposalInput): { yesToken: string; poolId: string; txHash: string } {
+        if (this.proposals.has(input.id)) throw new Error('Proposal exists');
+        const proposal: SimulatedProposal = {
+            ...input,
+            yesToken: simulatedAddress(`yes:${input.id}`),
+            noToken: simulatedAddress(`no:${input.id}`),
+            pool: { vUSDCReserve: input.initialLiquidity, yesReserve: input.initialLiquidity, feeBps: AMM_FEE_BPS },
+            resolved: false,
+            isWinner: false,
+            yesTWAP: 0.5,
+            timestamp: Math.floor(Date.now() / 1000),
+        };
+        this.proposals.set(input.id, proposal);
+        this.round.proposalIds.push(input.id);
+        return { yesToken: proposal.yesToken, poolId: ethers.id(input.id), txHash: this.nextTxHash() };
+    }
+
+    initializeMarketWithProposals(durationSeconds: number, proposals: SimulatedProposalInput[]): string {
+        this.initializeMarket(durationSeconds);
+        for (const proposal of proposals) {
+            this.createProposal(proposal);
+        }
+        return this.nextTxHash();
+    }
+
+    graduateProposal(id: string, finalPrice: number): string {
+        const proposal = this.getProposal(id);
+        proposal.resolved = true;
+        proposal.isWinner = true;
+        proposal.yesTWAP = finalPrice;
+        if (!this.graduated.includes(id)) this.graduated.push(id);
+        return this.nextTxHash();
+    }
+
+    // ----------------------------------------------------------------
+    //                          User writes
+    // ----------------------------------------------------------------
+
+    userFaucet(sender: string): string {
+        this.credit(this.vUSDCAddress, sender, FAUCET_AMOUNT);
+        return this.nextTxHash();
+    }
+
+    swap(sender: string, id: string, tokenIn: string, amountIn: number, minAmountOut: number): { amountOut: number; txHash: string } {
+        const proposal = this.getProposal(id);
+        const { pool } = proposal;
+        const isBuy = tokenIn.toLowerCase() === this.vUSDCAddress.toLowerCase();
+        if (!isBuy && tokenIn.toLowerCase() !== proposal.yesToken.toLowerCase()) throw new Error('Invalid token');
+
+        const amountOut = isBuy
+            ? calculateYESForVUSDSwap(amountIn, pool.vUSDCReserve, pool.yesReserve, pool.feeBps)
+            : calculateVUSDForYESSwap(amountIn, pool.vUSDCReserve, pool.yesReserve, pool.feeBps);
+        if (amountOut < minAmountOut) throw new Error('Slippage exceeded');
+        if (amountOut <= 0) throw new Error('Insufficient output');
+
+        this.debit(tokenIn, sender, amountIn);
+        if (isBuy) {
+            pool.vUSDCReserve += amountIn;
+            pool.yesReserve -= amountOut;
+            this.credit(proposal.yesToken, sender, amountOut);
+        } else {
+            pool.yesReserve += amountIn;
+            pool.vUSDCReserve -= amountOut;
+            this.credit(this.vUSDCAddress, sender, amountOut);
+        }
+        return { amountOut, txHash: this.nextTxHash() };
+    }
+
+    buyNO(sender: string, id: string, amountIn: number, minAmountOut: number): { amountOut: number; txHash: string } {
+        const proposal = this.getProposal(id);
+        const { pool } = proposal;
+        const vUSDCRefund = calculateVUSDForYESSwap(amountIn, pool.vUSDCReserve, pool.yesReserve, pool.feeBps);
+        if (vUSDCRefund < minAmountOut) throw new Error('Slippage exceeded');
+        if (vUSDCRefund <= 0) throw new Error('Insufficient output');
+
+        this.debit(this.vUSDCAddress, sender, amountIn);
+        this.credit(proposal.noToken, sender, amountIn);
+        pool.yesReserve += amountIn;
+        pool.vUSDCReserve -= vUSDCRefund;
+        this.credit(this.vUSDCAddress, sender, vUSDCRefund);
+        return { amountOut: vUSDCRefund, txHash: this.nextTxHash() };
+    }
+
+    sellNO(sender: string, id: string, noIn: number, minAmountOut: number): { amountOut: number; txHash: string } {
+        const proposal = this.getProposal(id);
+        const { pool } = proposal;
+        const cost = calculateVUSDForExactYESSwap(noIn, pool.vUSDCReserve, pool.yesReserve, pool.feeBps);
+        if (!Number.isFinite(cost)) throw new Error('Insufficient liquidity');
+        if (cost >= noIn) throw new Error('Insufficient output');
+        const amountOut = noIn - cost;
+        if (amountOut < minAmountOut) throw new Error('Slippage exceeded');
+
+        this.debit(proposal.noToken, sender, noIn);
+        pool.vUSDCReserve += cost;
+        pool.yesReserve -= noIn;
+        this.credit(this.vUSDCAddress, sender, amountOut);
+        return { amountOut, txHash: this.nextTxHash() };
+    }
+
+    // ----------------------------------------------------------------
+    //                 Router views (contract-shaped)
+    // ----------------------------------------------------------------
+
+    async vUSDCToken(): Promise<string> {
+        return this.vUSDCAddress;
+    }
+
+    async getVUSDCBalance(account: string): Promise<bigint> {
+        return toWei(this.balanceOfToken(this.vUSDCAddress, account));
+    }
+
+    async getYesTokenAddress(id: string): Promise<string> {
+        return this.proposals.get(id)?.yesToken ?? ethers.ZeroAddress;
+    }
+
+    async getNoTokenAddress(id: string): Promise<string> {
+        return this.proposals.get(id)?.noToken ?? ethers.ZeroAddress;
+    }
+
+    async getYESBalance(id: string, account: string): Promise<bigint> {
+        const proposal = this.proposals.get(id);
+        return proposal ? toWei(this.balanceOfToken(proposal.yesToken, account)) : 0n;
+    }
+
+    async getNOBalance(id: string, account: string): Promise<bigint> {
+        const proposal = this.proposals.get(id);
+        return proposal ? toWei(this.balanceOfToken(proposal.noToken, account)) : 0n;
+    }
+
+    async getYESPrice(id: string): Promise<bigint> {
+        const { pool } = this.getProposal(id);
+        if (pool.vUSDCReserve + pool.yesReserve <= 0) throw new Error('No liquidity');
+        return toWei(pool.vUSDCReserve / (pool.vUSDCReserve + pool.yesReserve));
+    }
+
+    async getPoolReserves(id: string): Promise<{ vUSDCReserve: bigint; yesReserve: bigint }> {
+        const { pool } = this.getProposal(id);
+        return { vUSDCReserve: toWei(pool.vUSDCReserve), yesReserve: toWei(pool.yesReserve) };
+    }
+
+    async getSwapQuote(id: string, tokenIn: string, amountIn: bigint): Promise<bigint> {
+        const { pool } = this.getProposal(id);
+        const amount = fromWei(amountIn);
+        return tokenIn.toLowerCase() === this.vUSDCAddress.toLowerCase()
+            ? toWei(calculateYESForVUSDSwap(amount, pool.vUSDCReserve, pool.yesReserve, pool.feeBps))
+            : toWei(calculateVUSDForYESSwap(amount, pool.vUSDCReserve, pool.yesReserve, pool.feeBps));
+    }
+
+    async getBuyNOQuote(id: string, amountIn: bigint): Promise<bigint> {
+        const { pool } = this.getProposal(id);
+        return toWei(calculateVUSDForYESSwap(fromWei(amountIn), pool.vUSDCReserve, pool.yesReserve, pool.feeBps));
+    }
+
+    async getSellNOQuote(id: string, noIn: bigint): Promise<bigint> {
+        const { pool } = this.getProposal(id);
+        const amount = fromWei(noIn);
+        const cost = calculateVUSDForExactYESSwap(amount, pool.vUSDCReserve, pool.yesReserve, pool.feeBps);
+        return Number.isFinite(cost) && cost < amount ? toWei(amount - cost) : 0n;
+    }
+
+    async currentRound(): Promise<bigint> {
+        return BigInt(this.round.roundNumber);
+    }
+
+    async getGraduatedProposals(): Promise<string[]> {
+        return [...this.graduated];
+    }
+
+    async getProposalStatus(id: string): Promise<any> {
+        const proposal = this.getProposal(id);
+        return {
+            id: proposal.id,
+            name: proposal.name,
+            description: proposal.description,
+            evaluationLogic: proposal.evaluationLogic,
+            mathematicalLogic: proposal.mathematicalLogic,
+            resolutionDeadline: BigInt(proposal.resolutionDeadline),
+            poolAddress: simulatedAddress(`pool:${proposal.id}`),
+            resolved: proposal.resolved,
+            isWinner: proposal.isWinner,
+            yesTWAP: toWei(proposal.yesTWAP),
+            timestamp: BigInt(proposal.timestamp),
+        };
+    }
+
+    async getRoundInfo(): Promise<{
+        roundNumber: bigint;
+        roundStartTime: bigint;
+        roundEndTime: bigint;
+        roundDuration: bigint;
+        proposalIds: string[];
+        active: boolean;
+    }> {
+        return {
+            roundNumber: BigInt(this.round.roundNumber),
+            roundStartTime: BigInt(this.round.roundStartTime),
+            roundEndTime: BigInt(this.round.roundEndTime),
+            roundDuration: BigInt(this.round.roundDuration),
+            proposalIds: [...this.round.proposalIds],
+            active: this.round.active,
+        };
+    }
+}
+
+let simulatedChain: SimulatedChain | null = null;
+
+/**
+ * Get the simulated chain, creating it on first use
+ */
+export function getSimulatedChain(): SimulatedChain {
+    if (!simulatedChain) simulatedChain = new SimulatedChain();
+    return simulatedChain;
+}
+
+/**
+ * Start a fresh simulated chain and reseed the RNG, so a run can be replayed exactly
+ */
+export function resetSimulation(seed: number = config.simulation.seed): SimulatedChain {
+    simulatedChain = new SimulatedChain();
+    seedRandom(seed);
+    return simulatedChain;
+}
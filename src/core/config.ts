@@ -58,10 +58,42 @@ const network = NETWORKS[selectedNetwork] || NETWORKS.hardhat;
 
 export const config = {
     env: process.env.APP_ENV || 'dev', // 'dev' or 'prod'
+    llm: {
+        provider: (process.env.LLM_PROVIDER || 'groq') as 'groq' | 'openai' | 'gemini' | 'mock', // Backend for every LLM call
+        recorder: {
+            mode: (process.env.LLM_RECORDER || 'off') as 'off' | 'record' | 'replay', // Record conversations to disk, or replay them offline
+            path: process.env.LLM_RECORDING_PATH || 'data/llm-recordings.jsonl',
+        },
+        decisions: {
+            mode: (process.env.LLM_DECISION_MODE || 'batch') as 'batch' | 'per-agent', // One prompt for all agents, or one private prompt per agent
+            concurrency: parseInt(process.env.LLM_AGENT_CONCURRENCY || '2'), // Parallel per-agent calls
+            timeoutMs: parseInt(process.env.LLM_AGENT_TIMEOUT_MS || '20000'), // Per-agent call timeout
+        },
+        budget: { // 0 = unlimited
+            roundTokens: parseInt(process.env.LLM_ROUND_TOKEN_BUDGET || '0'), // Prompt + completion tokens per trading round
+            roundRequests: parseInt(process.env.LLM_ROUND_REQUEST_BUDGET || '0'),
+            dailyTokens: parseInt(process.env.LLM_DAILY_TOKEN_BUDGET || '0'),
+            dailyRequests: parseInt(process.env.LLM_DAILY_REQUEST_BUDGET || '0'),
+            dailyCost: parseFloat(process.env.LLM_DAILY_COST_BUDGET || '0'), // USD
+        },
+        pricing: { // USD per 1K tokens, for cost reporting and the daily cost budget
+            promptPer1k: parseFloat(process.env.LLM_PROMPT_COST_PER_1K || '0'),
+            completionPer1k: parseFloat(process.env.LLM_COMPLETION_COST_PER_1K || '0'),
+        },
+    },
     groq: {
         apiKey: process.env.GROQ_API_KEY || '',
         model: process.env.GROQ_MODEL || 'llama-3.3-70b-versatile', // Groq models: llama-3.3-70b-versatile (production, supports function calling), llama-3.1-8b-instant (faster), qwen/qwen3-32b, etc.
     },
+    openai: {
+        apiKey: process.env.OPENAI_API_KEY || '',
+        model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1', // Any OpenAI-compatible endpoint (e.g. a local server)
+    },
+    gemini: {
+        apiKey: process.env.GEMINI_API_KEY || '',
+        model: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+    },
     blockchain: {
         // Selected network
         network: selectedNetwork,
@@ -87,8 +119,44 @@ export const config = {
     },
     market: {
         roundDuration: (process.env.APP_ENV || 'dev') === 'dev' ? 60000 : 250000, // 1 min for dev, 15 min for prod
+    },
+    agents: {
+        strategyMix: process.env.AGENT_STRATEGY_MIX || 'yes-no:1,twap:1,momentum:1,mean-reversion:1', // Default strategy weights when generating agents
+        reflectionTokenBudget: parseInt(process.env.AGENT_REFLECTION_TOKEN_BUDGET || '300'), // Max prompt tokens of past-round reflections per agent
+        evolution: {
+            enabled: process.env.AGENT_EVOLUTION === 'true', // Retire the worst agents and spawn mutated copies of the best between rounds
+            populationSize: parseInt(process.env.AGENT_POPULATION_SIZE || '4'), // Agents enrolled after each evolution step
+            maxPopulationSize: parseInt(process.env.AGENT_MAX_POPULATION_SIZE || '20'), // Upper bound for populationSize (config or /api/admin/evolve)
+            retireCount: parseInt(process.env.AGENT_RETIRE_COUNT || '1'), // Bottom agents retired per step
+            mutationRate: parseFloat(process.env.AGENT_MUTATION_RATE || '0.3'), // Chance that each trait/parameter of a child mutates
+            mutationStrength: parseFloat(process.env.AGENT_MUTATION_STRENGTH || '0.2'), // Max relative change of a mutated numeric value
+        },
+    },
+    storage: {
+        backend: (process.env.STORAGE_BACKEND || 'sqlite') as 'sqlite' | 'memory', // Persistence backend for rounds, trades and graduations
+        sqlitePath: process.env.SQLITE_PATH || 'data/verdict.sqlite',
+    },
+    resolution: {
+        checkInterval: parseInt(process.env.RESOLUTION_CHECK_INTERVAL || '300000'), // How often to check graduated proposals past their deadline (5 min)
+        maxLagMs: parseInt(process.env.RESOLUTION_MAX_LAG_MS || '900000'), // Observations later than this after the deadline are flagged late (15 min)
+    },
+    quote: {
+        slippageBps: parseInt(process.env.QUOTE_SLIPPAGE_BPS || '100'), // Default slippage tolerance for suggested minOut (1%)
+    },
+    simulation: {
+        enabled: process.env.SIMULATION === 'true', // Run offline against an in-process chain instead of RPC
+        seed: parseInt(process.env.SIMULATION_SEED || '42'), // Seed for the RNG driving agent selection, trade delays and mutations
     }
 };
 
 export const isDev = config.env === 'dev';
+export let isSimulation = config.simulation.enabled;
+export const isLLMReplay = config.llm.recorder.mode === 'replay'; // Recorded LLM turns are served even in dev/simulation runs
 
+/**
+ * Switch simulation mode after startup (tests: SIMULATION is only read when config is first imported)
+ */
+export function setSimulationMode(enabled: boolean): void {
+    config.simulation.enabled = enabled;
+    isSimulation = enabled;
+}
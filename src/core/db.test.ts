@@ -0,0 +1,27 @@
+import { expect, test } from 'bun:test';
+import { getGraduatedProposals, graduateProposal, syncGraduatedProposals } from './db';
+import { createStorage, setStorage } from './storage';
+import { createTestStrategy } from '../test/fixtures';
+import type { MarketStrategy, PoolState } from './types';
+
+function strategy(pool: PoolState, twap: number): MarketStrategy {
+    const graduated = createTestStrategy({ pool, resolved: true, winner: 'yes' });
+    return {
+        ...graduated,
+        yesToken: { ...graduated.yesToken, volume: 12, twap },
+        noToken: { ...graduated.noToken, volume: 3, twap: 1 - twap },
+    };
+}
+
+test('syncing a graduated proposal from chain keeps the stored pool', () => {
+    setStorage(createStorage('memory'));
+    graduateProposal(strategy({ vUSDCReserve: 2500, yesReserve: 1500, feeBps: 30 }, 0.6));
+
+    // Graduated pools are not tracked on-chain
+    syncGraduatedProposals([strategy({ vUSDCReserve: 0, yesReserve: 0, feeBps: 30 }, 0.62)]);
+
+    const [synced] = getGraduatedProposals();
+    expect(synced?.pool).toEqual({ vUSDCReserve: 2500, yesReserve: 1500, feeBps: 30 });
+    expect(synced?.yesToken).toMatchObject({ tokenReserve: 1500, volume: 12, twap: 0.62 });
+    expect(synced?.noToken).toMatchObject({ tokenReserve: 2500, volume: 3 });
+});
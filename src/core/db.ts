@@ -1,35 +1,59 @@
-import type { MarketStrategy } from './types';
-
-// In-memory "database" for graduated proposals
-export const graduatedProposals: MarketStrategy[] = [];
+import type { Agent, AgentRecord, HumanTrader, MarketState, MarketStrategy, RoundAgentResult, RoundRecord, TradeRecord, TradeStatus } from './types';
+import { getStorage } from './storage';
 
 /**
  * Add a winning strategy to the graduated proposals list
  */
-export function graduateProposal(strategy: MarketStrategy): void {
+export function graduateProposal(strategy: MarketStrategy, roundNumber: number | null = null): void {
     console.log(`Graduating proposal: ${strategy.name}`);
-    graduatedProposals.push({ ...strategy });
+    getStorage().saveGraduation({ ...strategy }, roundNumber);
+}
+
+/**
+ * Persist changes to an already graduated proposal (e.g. its oracle resolution)
+ */
+export function updateGraduatedProposal(strategy: MarketStrategy): void {
+    getStorage().saveGraduation(strategy, null);
 }
 
 /**
  * Sync graduated proposals (usually from blockchain on startup)
- * Preserves usedDataSources from existing in-memory proposals if available
+ * Preserves usedDataSources and (pending) resolutions from stored proposals if available
  */
 export function syncGraduatedProposals(strategies: MarketStrategy[]): void {
     console.log(`Syncing ${strategies.length} graduated proposals into database...`);
+    const storage = getStorage();
     strategies.forEach(s => {
-        const existing = graduatedProposals.find(p => p.id === s.id);
+        const existing = storage.getGraduation(s.id);
         if (existing) {
-            // Preserve usedDataSources from existing in-memory proposal if blockchain version is empty
-            if (existing.usedDataSources && existing.usedDataSources.length > 0 && 
+            // Preserve usedDataSources from stored proposal if blockchain version is empty
+            if (existing.usedDataSources && existing.usedDataSources.length > 0 &&
                 (!s.usedDataSources || s.usedDataSources.length === 0)) {
                 s.usedDataSources = existing.usedDataSources;
             }
+            // Blockchain version has no price history, keep the stored one
+            if (s.yesToken.history.length === 0) {
+                s.yesToken = { ...s.yesToken, history: existing.yesToken.history, twapHistory: existing.yesToken.twapHistory };
+            }
+            if (s.noToken.history.length === 0) {
+                s.noToken = { ...s.noToken, history: existing.noToken.history, twapHistory: existing.noToken.twapHistory };
+            }
+            // Graduated pools are not tracked on-chain (empty reserves), keep the stored pool and volumes
+            if (s.pool.vUSDCReserve === 0 && s.pool.yesReserve === 0) {
+                if (existing.pool) s.pool = existing.pool;
+                s.yesToken = { ...s.yesToken, tokenReserve: existing.yesToken.tokenReserve, volume: existing.yesToken.volume };
+                s.noToken = { ...s.noToken, tokenReserve: existing.noToken.tokenReserve, volume: existing.noToken.volume };
+            }
             // Update other fields from blockchain version
-            Object.assign(existing, s);
+            storage.saveGraduation({
+                ...existing,
+                ...s,
+                resolution: s.resolution ?? existing.resolution,
+                pendingResolution: s.pendingResolution ?? existing.pendingResolution,
+            }, null);
         } else {
             // New proposal, add it
-            graduatedProposals.push(s);
+            storage.saveGraduation(s, null);
         }
     });
 }
@@ -38,5 +62,137 @@ export function syncGraduatedProposals(strategies: MarketStrategy[]): void {
  * Get all graduated proposals
  */
 export function getGraduatedProposals(): MarketStrategy[] {
-    return graduatedProposals;
+    return getStorage().getGraduations();
+}
+
+/**
+ * Next round number to use, continuing after persisted rounds
+ */
+export function getNextRoundNumber(): number {
+    const rounds = getStorage().getRounds();
+    const last = rounds[rounds.length - 1];
+    return last ? last.roundNumber + 1 : 0;
+}
+
+/**
+ * Record the start of a trading round along with its strategies
+ */
+export function recordRoundStart(marketState: MarketState): void {
+    const storage = getStorage();
+    storage.saveRound({
+        roundNumber: marketState.roundNumber,
+        startTime: marketState.roundStartTime,
+        endTime: marketState.roundEndTime,
+        duration: marketState.roundDuration,
+        status: 'active',
+        winnerId: null,
+        graduationTxHash: null,
+        agentResults: [],
+    });
+    storage.saveStrategies(marketState.roundNumber, marketState.strategies);
+}
+
+/**
+ * Record the end of a trading round, snapshotting strategies with full price/TWAP history
+ */
+export function recordRoundEnd(
+    marketState: MarketState,
+    result: { winnerId: string | null; graduationTxHash: string | null; agentResults: RoundAgentResult[] }
+): void {
+    const storage = getStorage();
+    storage.saveRound({
+        roundNumber: marketState.roundNumber,
+        startTime: marketState.roundStartTime,
+        endTime: marketState.roundEndTime,
+        duration: marketState.roundDuration,
+        status: 'completed',
+        ...result,
+    });
+    storage.saveStrategies(marketState.roundNumber, marketState.strategies);
+}
+
+/**
+ * Persist a trade for a round (AI agent or human trader), including swaps that reverted
+ */
+export function recordTrade(
+    trader: { id: string; name: string },
+    roundNumber: number,
+    trade: Agent['trades'][number],
+    status: TradeStatus = 'filled'
+): void {
+    try {
+        getStorage().saveTrade({
+            ...trade,
+            agentId: trader.id,
+            agentName: trader.name,
+            roundNumber,
+            status,
+        });
+    } catch (error) {
+        // Never let a storage failure break trade execution
+        console.error(`Failed to persist trade for ${trader.name}:`, error);
+    }
+}
+
+/**
+ * Get all persisted rounds
+ */
+export function getRounds(): RoundRecord[] {
+    return getStorage().getRounds();
+}
+
+/**
+ * Get a persisted round
+ */
+export function getRound(roundNumber: number): RoundRecord | null {
+    return getStorage().getRound(roundNumber);
+}
+
+/**
+ * Get strategies (with history) persisted for a round
+ */
+export function getRoundStrategies(roundNumber: number): MarketStrategy[] {
+    return getStorage().getStrategiesForRound(roundNumber);
+}
+
+/**
+ * Get trades persisted for a round
+ */
+export function getRoundTrades(roundNumber: number): TradeRecord[] {
+    return getStorage().getTradesForRound(roundNumber);
+}
+
+/**
+ * Persist a long-lived agent identity (insert or update)
+ */
+export function saveAgentRecord(agent: AgentRecord): void {
+    getStorage().saveAgent(agent);
+}
+
+/**
+ * Get all persisted agents, active and retired, by derivation index
+ */
+export function getAgentRecords(): AgentRecord[] {
+    return getStorage().getAgents();
+}
+
+/**
+ * Persist a human trader with its holdings and trades (insert or update)
+ */
+export function saveTraderRecord(trader: HumanTrader): void {
+    getStorage().saveTrader(trader);
+}
+
+/**
+ * Get all persisted human traders, in registration order
+ */
+export function getTraderRecords(): HumanTrader[] {
+    return getStorage().getTraders();
+}
+
+/**
+ * Next unused wallet derivation index (indices of retired agents are never reused)
+ */
+export function getNextDerivationIndex(): number {
+    return getAgentRecords().reduce((next, agent) => Math.max(next, agent.derivationIndex + 1), 0);
 }
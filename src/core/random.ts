@@ -0,0 +1,38 @@
+import { config } from './config';
+
+// Mulberry32 state; null means unseeded (Math.random)
+let state: number | null = config.simulation.enabled ? config.simulation.seed >>> 0 : null;
+
+/**
+ * Seed the shared RNG so runs are reproducible (null restores Math.random)
+ */
+export function seedRandom(seed: number | null): void {
+    state = seed === null ? null : seed >>> 0;
+}
+
+/**
+ * Current RNG state, so a caller that reseeds temporarily can restore it with seedRandom
+ */
+export function getRandomState(): number | null {
+    return state;
+}
+
+/**
+ * Random float in [0, 1) from the seeded generator, or Math.random when unseeded
+ */
+export function random(): number {
+    if (state === null) return Math.random();
+
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/**
+ * Random integer in [0, maxExclusive)
+ */
+export function randomInt(maxExclusive: number): number {
+    return Math.floor(random() * maxExclusive);
+}
@@ -0,0 +1,73 @@
+import type { AgentRecord, HumanTrader, MarketStrategy, RoundRecord, TradeRecord } from '../types';
+import { config } from '../config';
+import { log } from '../logger';
+import { MemoryStorage } from './memory';
+import { SqliteStorage } from './sqlite';
+
+/**
+ * Persistence backend for rounds, strategies, trades, graduations, agents and human traders.
+ * All methods are synchronous so callers (db.ts, trading loop) stay simple.
+ */
+export interface StorageBackend {
+    // Rounds
+    saveRound(round: RoundRecord): void;
+    getRound(roundNumber: number): RoundRecord | null;
+    getRounds(): RoundRecord[];
+
+    // Strategies (stored with full history/twapHistory)
+    saveStrategies(roundNumber: number, strategies: MarketStrategy[]): void;
+    getStrategiesForRound(roundNumber: number): MarketStrategy[];
+
+    // Trades
+    saveTrade(trade: TradeRecord): void;
+    getTradesForRound(roundNumber: number): TradeRecord[];
+
+    // Graduations
+    saveGraduation(strategy: MarketStrategy, roundNumber: number | null): void;
+    getGraduation(id: string): MarketStrategy | null;
+    getGraduations(): MarketStrategy[];
+
+    // Agents (persistent identities across rounds)
+    saveAgent(agent: AgentRecord): void;
+    getAgents(): AgentRecord[];
+
+    // Human traders (registered external wallets)
+    saveTrader(trader: HumanTrader): void;
+    getTraders(): HumanTrader[];
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Create a storage backend by name
+ */
+export function createStorage(backend: typeof config.storage.backend): StorageBackend {
+    if (backend === 'memory') {
+        return new MemoryStorage();
+    }
+
+    try {
+        return new SqliteStorage(config.storage.sqlitePath);
+    } catch (error) {
+        log('Storage', `SQLite unavailable (${error instanceof Error ? error.message : error}), falling back to in-memory storage`, 'warn');
+        return new MemoryStorage();
+    }
+}
+
+/**
+ * Get the active storage backend (created lazily from config)
+ */
+export function getStorage(): StorageBackend {
+    if (!storage) {
+        storage = createStorage(config.storage.backend);
+        log('Storage', `Using ${storage instanceof SqliteStorage ? `SQLite storage at ${config.storage.sqlitePath}` : 'in-memory storage'}`);
+    }
+    return storage;
+}
+
+/**
+ * Replace the active storage backend (e.g. a custom implementation)
+ */
+export function setStorage(backend: StorageBackend): void {
+    storage = backend;
+}
@@ -0,0 +1,86 @@
+import type { AgentRecord, HumanTrader, MarketStrategy, RoundRecord, TradeRecord } from '../types';
+import type { StorageBackend } from './index';
+
+/**
+ * Non-persistent backend, data is lost on restart
+ */
+export class MemoryStorage implements StorageBackend {
+    private rounds = new Map<number, RoundRecord>();
+    private strategies = new Map<number, Map<string, MarketStrategy>>();
+    private trades: TradeRecord[] = [];
+    private graduations = new Map<string, { strategy: MarketStrategy; roundNumber: number | null }>();
+    private agents = new Map<string, AgentRecord>();
+    private traders = new Map<string, HumanTrader>();
+
+    saveRound(round: RoundRecord): void {
+        this.rounds.set(round.roundNumber, structuredClone(round));
+    }
+
+    getRound(roundNumber: number): RoundRecord | null {
+        const round = this.rounds.get(roundNumber);
+        return round ? structuredClone(round) : null;
+    }
+
+    getRounds(): RoundRecord[] {
+        return [...this.rounds.values()]
+            .sort((a, b) => a.roundNumber - b.roundNumber)
+            .map(r => structuredClone(r));
+    }
+
+    saveStrategies(roundNumber: number, strategies: MarketStrategy[]): void {
+        const roundStrategies = this.strategies.get(roundNumber) ?? new Map<string, MarketStrategy>();
+        for (const strategy of strategies) {
+            roundStrategies.set(strategy.id, structuredClone(strategy));
+        }
+        this.strategies.set(roundNumber, roundStrategies);
+    }
+
+    getStrategiesForRound(roundNumber: number): MarketStrategy[] {
+        return [...(this.strategies.get(roundNumber)?.values() ?? [])].map(s => structuredClone(s));
+    }
+
+    saveTrade(trade: TradeRecord): void {
+        this.trades.push({ ...trade });
+    }
+
+    getTradesForRound(roundNumber: number): TradeRecord[] {
+        return this.trades.filter(t => t.roundNumber === roundNumber).map(t => ({ ...t }));
+    }
+
+    saveGraduation(strategy: MarketStrategy, roundNumber: number | null): void {
+        const existing = this.graduations.get(strategy.id);
+        this.graduations.set(strategy.id, {
+            strategy: structuredClone(strategy),
+            roundNumber: roundNumber ?? existing?.roundNumber ?? null,
+        });
+    }
+
+    getGraduation(id: string): MarketStrategy | null {
+        const entry = this.graduations.get(id);
+        return entry ? structuredClone(entry.strategy) : null;
+    }
+
+    getGraduations(): MarketStrategy[] {
+        return [...this.graduations.values()].map(g => structuredClone(g.strategy));
+    }
+
+    saveAgent(agent: AgentRecord): void {
+        this.agents.set(agent.id, structuredClone(agent));
+    }
+
+    getAgents(): AgentRecord[] {
+        return [...this.agents.values()]
+            .sort((a, b) => a.derivationIndex - b.derivationIndex)
+            .map(a => structuredClone(a));
+    }
+
+    saveTrader(trader: HumanTrader): void {
+        this.traders.set(trader.id, structuredClone(trader));
+    }
+
+    getTraders(): HumanTrader[] {
+        return [...this.traders.values()]
+            .sort((a, b) => a.registeredAt - b.registeredAt)
+            .map(t => structuredClone(t));
+    }
+}
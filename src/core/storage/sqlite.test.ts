@@ -0,0 +1,72 @@
+import { afterEach, expect, test } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SqliteStorage } from './sqlite';
+import type { HumanTrader, TradeRecord } from '../types';
+
+const trade: TradeRecord = {
+    roundNumber: 1,
+    agentId: 'agent-1',
+    agentName: 'Sarah Chen',
+    strategyId: 'strategy-1',
+    type: 'buy',
+    tokenType: 'yes',
+    price: 0.5,
+    quantity: 10,
+    timestamp: 1000,
+    status: 'filled',
+};
+
+const dirs: string[] = [];
+afterEach(() => {
+    for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+test('trades round-trip with their status', () => {
+    const storage = new SqliteStorage(':memory:');
+    storage.saveTrade(trade);
+    storage.saveTrade({ ...trade, timestamp: 2000, reasoning: 'Reverted: price moved beyond 100 bps slippage limit', status: 'slippage-reverted' });
+
+    expect(storage.getTradesForRound(1).map(t => t.status)).toEqual(['filled', 'slippage-reverted']);
+});
+
+test('trades stored before the status column read back as filled', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'verdict-storage-'));
+    dirs.push(dir);
+    const path = join(dir, 'verdict.sqlite');
+
+    const legacy = new Database(path, { create: true });
+    legacy.exec(`CREATE TABLE trades (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, round_number INTEGER NOT NULL, agent_id TEXT NOT NULL, agent_name TEXT NOT NULL,
+        strategy_id TEXT NOT NULL, type TEXT NOT NULL, token_type TEXT NOT NULL, price REAL NOT NULL, quantity REAL NOT NULL,
+        timestamp INTEGER NOT NULL, reasoning TEXT, tx_hash TEXT
+    )`);
+    legacy.query(
+        `INSERT INTO trades (round_number, agent_id, agent_name, strategy_id, type, token_type, price, quantity, timestamp)
+         VALUES (1, 'agent-1', 'Sarah Chen', 'strategy-1', 'buy', 'yes', 0.5, 10, 1000)`
+    ).run();
+    legacy.close();
+
+    expect(new SqliteStorage(path).getTradesForRound(1)).toEqual([{ ...trade, reasoning: undefined, txHash: undefined }]);
+});
+
+test('human traders survive a restart', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'verdict-storage-'));
+    dirs.push(dir);
+    const path = join(dir, 'verdict.sqlite');
+    const trader: HumanTrader = {
+        id: 'human-0xabc',
+        name: 'Trader 0xabc',
+        wallet: { address: '0xAbC' },
+        vUSD: 90,
+        tokenHoldings: [{ strategyId: 'strategy-1', tokenType: 'yes', quantity: 10 }],
+        trades: [{ type: 'buy', strategyId: 'strategy-1', tokenType: 'yes', price: 1, quantity: 10, timestamp: 1000, txHash: '0x1' }],
+        registeredAt: 1000,
+    };
+
+    new SqliteStorage(path).saveTrader(trader);
+
+    expect(new SqliteStorage(path).getTraders()).toEqual([trader]);
+});
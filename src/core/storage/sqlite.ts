@@ -0,0 +1,284 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { AgentRecord, HumanTrader, MarketStrategy, RoundRecord, TradeRecord } from '../types';
+import type { StorageBackend } from './index';
+
+interface RoundRow {
+    round_number: number;
+    start_time: number;
+    end_time: number;
+    duration: number;
+    status: RoundRecord['status'];
+    winner_id: string | null;
+    graduation_tx_hash: string | null;
+    agent_results: string | null;
+}
+
+interface TradeRow {
+    round_number: number;
+    agent_id: string;
+    agent_name: string;
+    strategy_id: string;
+    type: TradeRecord['type'];
+    token_type: TradeRecord['tokenType'];
+    price: number;
+    quantity: number;
+    timestamp: number;
+    reasoning: string | null;
+    tx_hash: string | null;
+    status: TradeRecord['status'];
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS rounds (
+    round_number INTEGER PRIMARY KEY,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER NOT NULL,
+    duration INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    winner_id TEXT,
+    graduation_tx_hash TEXT,
+    agent_results TEXT
+);
+
+CREATE TABLE IF NOT EXISTS strategies (
+    id TEXT NOT NULL,
+    round_number INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (round_number, id)
+);
+
+CREATE TABLE IF NOT EXISTS trades (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    round_number INTEGER NOT NULL,
+    agent_id TEXT NOT NULL,
+    agent_name TEXT NOT NULL,
+    strategy_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    token_type TEXT NOT NULL,
+    price REAL NOT NULL,
+    quantity REAL NOT NULL,
+    timestamp INTEGER NOT NULL,
+    reasoning TEXT,
+    tx_hash TEXT,
+    status TEXT NOT NULL DEFAULT 'filled'
+);
+CREATE INDEX IF NOT EXISTS idx_trades_round ON trades (round_number);
+
+CREATE TABLE IF NOT EXISTS graduations (
+    id TEXT PRIMARY KEY,
+    round_number INTEGER,
+    graduated_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS agents (
+    id TEXT PRIMARY KEY,
+    derivation_index INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS traders (
+    id TEXT PRIMARY KEY,
+    registered_at INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+`;
+
+/**
+ * SQLite backend (bun:sqlite). Strategies, graduations, agents and traders are stored as JSON
+ * documents so history/twapHistory round-trip without a column per field.
+ */
+export class SqliteStorage implements StorageBackend {
+    private db: Database;
+
+    constructor(path: string) {
+        if (path !== ':memory:') {
+            mkdirSync(dirname(path), { recursive: true });
+        }
+        this.db = new Database(path, { create: true });
+        this.db.exec('PRAGMA journal_mode = WAL;');
+        for (const statement of SCHEMA.split(';').map(sql => sql.trim()).filter(Boolean)) {
+            this.db.exec(statement);
+        }
+        this.migrate();
+    }
+
+    /**
+     * Add columns introduced after a database file was first created
+     */
+    private migrate(): void {
+        const addColumn = (table: string, column: string, type: string) => {
+            const columns = this.db.query<{ name: string }, []>(`PRAGMA table_info(${table})`).all();
+            if (!columns.some(c => c.name === column)) {
+                this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+            }
+        };
+        addColumn('rounds', 'graduation_tx_hash', 'TEXT');
+        addColumn('rounds', 'agent_results', 'TEXT');
+        addColumn('trades', 'status', "TEXT NOT NULL DEFAULT 'filled'");
+    }
+
+    saveRound(round: RoundRecord): void {
+        this.db.query(
+            `INSERT INTO rounds (round_number, start_time, end_time, duration, status, winner_id, graduation_tx_hash, agent_results)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(round_number) DO UPDATE SET
+                start_time = excluded.start_time,
+                end_time = excluded.end_time,
+                duration = excluded.duration,
+                status = excluded.status,
+                winner_id = excluded.winner_id,
+                graduation_tx_hash = excluded.graduation_tx_hash,
+                agent_results = excluded.agent_results`
+        ).run(
+            round.roundNumber,
+            round.startTime,
+            round.endTime,
+            round.duration,
+            round.status,
+            round.winnerId,
+            round.graduationTxHash,
+            JSON.stringify(round.agentResults)
+        );
+    }
+
+    getRound(roundNumber: number): RoundRecord | null {
+        const row = this.db.query<RoundRow, [number]>('SELECT * FROM rounds WHERE round_number = ?').get(roundNumber);
+        return row ? toRoundRecord(row) : null;
+    }
+
+    getRounds(): RoundRecord[] {
+        return this.db.query<RoundRow, []>('SELECT * FROM rounds ORDER BY round_number ASC').all().map(toRoundRecord);
+    }
+
+    saveStrategies(roundNumber: number, strategies: MarketStrategy[]): void {
+        const upsert = this.db.query(
+            `INSERT INTO strategies (id, round_number, data, updated_at) VALUES (?, ?, ?, ?)
+             ON CONFLICT(round_number, id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+        );
+        const now = Date.now();
+        this.db.transaction(() => {
+            for (const strategy of strategies) {
+                upsert.run(strategy.id, roundNumber, JSON.stringify(strategy), now);
+            }
+        })();
+    }
+
+    getStrategiesForRound(roundNumber: number): MarketStrategy[] {
+        return this.db.query<{ data: string }, [number]>(
+            'SELECT data FROM strategies WHERE round_number = ? ORDER BY rowid ASC'
+        ).all(roundNumber).map(row => JSON.parse(row.data) as MarketStrategy);
+    }
+
+    saveTrade(trade: TradeRecord): void {
+        this.db.query(
+            `INSERT INTO trades (round_number, agent_id, agent_name, strategy_id, type, token_type, price, quantity, timestamp, reasoning, tx_hash, status)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+            trade.roundNumber,
+            trade.agentId,
+            trade.agentName,
+            trade.strategyId,
+            trade.type,
+            trade.tokenType,
+            trade.price,
+            trade.quantity,
+            trade.timestamp,
+            trade.reasoning ?? null,
+            trade.txHash ?? null,
+            trade.status
+        );
+    }
+
+    getTradesForRound(roundNumber: number): TradeRecord[] {
+        return this.db.query<TradeRow, [number]>(
+            'SELECT * FROM trades WHERE round_number = ? ORDER BY timestamp ASC, id ASC'
+        ).all(roundNumber).map(toTradeRecord);
+    }
+
+    saveGraduation(strategy: MarketStrategy, roundNumber: number | null): void {
+        this.db.query(
+            `INSERT INTO graduations (id, round_number, graduated_at, data) VALUES (?, ?, ?, ?)
+             ON CONFLICT(id) DO UPDATE SET
+                round_number = COALESCE(excluded.round_number, graduations.round_number),
+                data = excluded.data`
+        ).run(strategy.id, roundNumber, Date.now(), JSON.stringify(strategy));
+    }
+
+    getGraduation(id: string): MarketStrategy | null {
+        const row = this.db.query<{ data: string }, [string]>('SELECT data FROM graduations WHERE id = ?').get(id);
+        return row ? JSON.parse(row.data) as MarketStrategy : null;
+    }
+
+    getGraduations(): MarketStrategy[] {
+        return this.db.query<{ data: string }, []>(
+            'SELECT data FROM graduations ORDER BY graduated_at ASC, rowid ASC'
+        ).all().map(row => JSON.parse(row.data) as MarketStrategy);
+    }
+
+    saveAgent(agent: AgentRecord): void {
+        this.db.query(
+            `INSERT INTO agents (id, derivation_index, status, data, updated_at) VALUES (?, ?, ?, ?, ?)
+             ON CONFLICT(id) DO UPDATE SET
+                derivation_index = excluded.derivation_index,
+                status = excluded.status,
+                data = excluded.data,
+                updated_at = excluded.updated_at`
+        ).run(agent.id, agent.derivationIndex, agent.status, JSON.stringify(agent), Date.now());
+    }
+
+    getAgents(): AgentRecord[] {
+        return this.db.query<{ data: string }, []>(
+            'SELECT data FROM agents ORDER BY derivation_index ASC'
+        ).all().map(row => JSON.parse(row.data) as AgentRecord);
+    }
+
+    saveTrader(trader: HumanTrader): void {
+        this.db.query(
+            `INSERT INTO traders (id, registered_at, data, updated_at) VALUES (?, ?, ?, ?)
+             ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+        ).run(trader.id, trader.registeredAt, JSON.stringify(trader), Date.now());
+    }
+
+    getTraders(): HumanTrader[] {
+        return this.db.query<{ data: string }, []>(
+            'SELECT data FROM traders ORDER BY registered_at ASC, rowid ASC'
+        ).all().map(row => JSON.parse(row.data) as HumanTrader);
+    }
+}
+
+function toRoundRecord(row: RoundRow): RoundRecord {
+    return {
+        roundNumber: row.round_number,
+        startTime: row.start_time,
+        endTime: row.end_time,
+        duration: row.duration,
+        status: row.status,
+        winnerId: row.winner_id,
+        graduationTxHash: row.graduation_tx_hash,
+        agentResults: row.agent_results ? JSON.parse(row.agent_results) : [],
+    };
+}
+
+function toTradeRecord(row: TradeRow): TradeRecord {
+    return {
+        roundNumber: row.round_number,
+        agentId: row.agent_id,
+        agentName: row.agent_name,
+        strategyId: row.strategy_id,
+        type: row.type,
+        tokenType: row.token_type,
+        price: row.price,
+        quantity: row.quantity,
+        timestamp: row.timestamp,
+        reasoning: row.reasoning ?? undefined,
+        txHash: row.tx_hash ?? undefined,
+        status: row.status,
+    };
+}
@@ -1,5 +1,12 @@
-// Strategy in the market with Virtual Token Minting (1 vUSD → 1 YES + 1 NO)
-// YES and NO tokens trade against each other, maintaining YES + NO ≈ 1.0
+// Constant product vUSDC/YES pool, mirrors VerdictSimpleAMM (reserveA = vUSDC, reserveB = YES)
+// NO is not pooled: it is minted in YES+NO pairs by the router, so its price derives from this pool
+export interface PoolState {
+  vUSDCReserve: number;
+  yesReserve: number;
+  feeBps: number; // Swap fee in basis points (30 = 0.3%)
+}
+
+// Strategy in the market, priced from its vUSDC/YES pool (see engine/pricing.ts)
 export interface MarketStrategy {
   id: string;
   name: string;
@@ -14,19 +21,16 @@ export interface MarketStrategy {
   }>;
   resolutionDeadline: number; // Timestamp when the strategy should be verified
   dataSources?: any[]; // Legacy field, kept for backward compatibility if needed
-  // Shared liquidity pool: YES tokens * NO tokens = k (constant product)
-  // Price of YES = noTokenReserve / yesTokenReserve
-  // Price of NO = yesTokenReserve / noTokenReserve
-  // YES price + NO price ≈ 1.0 (maintained by AMM)
+  pool: PoolState; // Source of truth for reserves and prices
   yesToken: {
-    tokenReserve: number; // YES tokens in the pool
+    tokenReserve: number; // Legacy: derived from pool.yesReserve
     volume: number;
     history: Array<{ price: number; timestamp: number }>;
     twap: number; // Time-Weighted Average Price
     twapHistory: Array<{ twap: number; timestamp: number }>;
   };
   noToken: {
-    tokenReserve: number; // NO tokens in the pool
+    tokenReserve: number; // Legacy: derived from pool.vUSDCReserve (NO has no pool of its own)
     volume: number;
     history: Array<{ price: number; timestamp: number }>;
     twap: number; // Time-Weighted Average Price
@@ -35,6 +39,24 @@ export interface MarketStrategy {
   timestamp: number;
   resolved: boolean;
   winner: 'yes' | 'no' | null; // Determined by TWAP or Evaluation Logic
+  resolution?: ProposalResolution; // Oracle outcome, set once resolutionDeadline has passed
+  pendingResolution?: ProposalResolution; // Late observation held back until an admin confirms it
+}
+
+// Oracle-based resolution of a graduated proposal against its mathematicalLogic
+export interface ProposalResolution {
+  outcome: boolean; // Whether the proposal's logic held at the deadline
+  observedValues: Array<{
+    id: number;
+    ticker: string;
+    value: number;
+    timestamp: string; // Oracle timestamp of the observed value
+  }>;
+  resolvedAt: number;
+  // The feeds only serve current values, so they are observed as soon as possible after the deadline
+  observationLagMs?: number; // resolvedAt - resolutionDeadline
+  late?: boolean; // Observed more than config.resolution.maxLagMs after the deadline (e.g. the server was down)
+  confirmedAt?: number; // Late observations only: when an admin confirmed (or overrode) the outcome
 }
 
 // Market state with multiple strategies
@@ -65,8 +87,32 @@ export interface AgentPersonality {
   traits: string[];
 }
 
-// Trading strategy type
-export type StrategyType = 'yes-no' | 'twap' | 'momentum' | 'mean-reversion';
+// Trading strategy type: the built-ins plus any strategy added to the registry (engine/strategies.ts)
+export type BuiltInStrategyType = 'yes-no' | 'twap' | 'momentum' | 'mean-reversion';
+export type StrategyType = BuiltInStrategyType | (string & {});
+
+// Tunable parameter of an agent strategy
+export interface StrategyConfigParam {
+  type: 'number' | 'boolean' | 'string';
+  default: number | boolean | string;
+  description: string;
+  min?: number; // Numbers only
+  max?: number; // Numbers only
+}
+
+export type StrategyConfigSchema = Record<string, StrategyConfigParam>;
+export type StrategyConfig = Record<string, number | boolean | string>;
+
+// Agent trading strategy as registered in the strategy registry
+export interface StrategyDefinition {
+  name: StrategyType;
+  description: string;
+  configSchema: StrategyConfigSchema;
+  decide(agent: Agent, market: MarketState, marketStrategy: MarketStrategy, config: StrategyConfig): TradeDecision | Promise<TradeDecision>;
+}
+
+// Relative weights of strategies when assigning them to agents (e.g. { twap: 2, momentum: 1 })
+export type StrategyMix = Partial<Record<StrategyType, number>>;
 
 // Agent holdings for a specific strategy token
 export interface AgentTokenHoldings {
@@ -84,6 +130,7 @@ export interface AgentRoundMemory {
   price: number;
   reasoning: string;
   timestamp: number;
+  outcome?: 'slippage-reverted'; // Set when the queued swap was rejected by the AMM's minAmountOut check
 }
 
 // Agent interface
@@ -91,6 +138,7 @@ export interface Agent {
   id: string;
   personality: AgentPersonality;
   strategy: StrategyType; // Agent's trading strategy (not market strategy)
+  strategyConfig?: StrategyConfig; // Overrides of the strategy's configSchema defaults
   vUSD: number; // Virtual USD balance (starts at 100)
   tokenHoldings: AgentTokenHoldings[]; // Holdings across all strategy tokens
   wallet: {
@@ -108,8 +156,69 @@ export interface Agent {
     txHash?: string; // Blockchain transaction hash
   }>;
   roundMemory: AgentRoundMemory[]; // Memory of actions in current round
+  derivationIndex?: number; // BIP-44 address index of the wallet (persistent agents)
+  stats?: AgentStats; // Track record across rounds (persistent agents)
+  memory?: AgentRoundOutcome[]; // Cross-round memory, oldest first (persistent agents)
+  parentId?: string; // Agent this one was mutated from (population evolution)
+}
+
+// Cumulative track record of a persistent agent
+export interface AgentStats {
+  roundsPlayed: number;
+  tradeCount: number;
+  totalPnl: number; // Sum of mark-to-market round PnL
+  totalSettlementPnl: number; // Sum of round PnL settled at graduation
+  lastRoundNumber: number | null;
+}
+
+// What an agent carries over from a completed round
+export interface AgentRoundOutcome {
+  roundNumber: number;
+  strategy: StrategyType; // Agent strategy it traded with
+  graduatedStrategyId: string | null;
+  pnl: number;
+  settlementPnl: number;
+  tradeCount: number;
+  positions: Array<{ strategyId: string; strategyName: string; tokenType: 'yes' | 'no'; quantity: number }>; // Held at round end
+  reflection?: AgentReflection; // Written after the round ends
+}
+
+// Post-round reflection of an agent, fed back into its later decision prompts
+export interface AgentReflection {
+  summary: string; // What the agent bet on and whether it graduated
+  lessons: string;
+  source: 'llm' | 'rule'; // LLM-written, or derived from the outcome when the LLM is unavailable
+}
+
+// Persisted long-lived agent identity, enrolled into each round as an Agent
+export interface AgentRecord {
+  id: string;
+  derivationIndex: number;
+  wallet: Agent['wallet'];
+  personality: AgentPersonality;
+  strategy: StrategyType;
+  strategyConfig?: StrategyConfig;
+  status: 'active' | 'retired';
+  createdAt: number;
+  stats: AgentStats;
+  memory: AgentRoundOutcome[];
+  parentId?: string;
+  retiredAt?: number;
 }
 
+// Human trader trading with their own (externally signed) wallet alongside AI agents
+// Holdings and trades use the same shapes as Agent so the UI can render both
+export interface HumanTrader {
+  id: string; // human-<lowercased address>
+  name: string;
+  wallet: {
+    address: string;
+  };
+  vUSD: number; // Last known on-chain vUSDC balance
+  tokenHoldings: AgentTokenHoldings[];
+  trades: Agent['trades'];
+  registeredAt: number;
+}
 
 // Trade decision
 export interface TradeDecision {
@@ -120,5 +229,44 @@ export interface TradeDecision {
   quantity: number;
   price: number;
   reasoning: string;
+  maxSlippageBps?: number; // Max accepted slippage vs the local AMM quote, set from riskTolerance when queued
 }
 
+
+// Persisted trading round
+export interface RoundRecord {
+  roundNumber: number;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  status: 'active' | 'completed';
+  winnerId: string | null; // Strategy that graduated at the end of the round
+  graduationTxHash: string | null; // On-chain graduation transaction of the winner
+  agentResults: RoundAgentResult[]; // Final agent balances/PnL, filled when the round completes
+}
+
+// Agent standing at the end of a round
+export interface RoundAgentResult {
+  agentId: string;
+  agentName: string;
+  vUSD: number;
+  totalValue: number; // vUSD + holdings valued at final prices
+  pnl: number; // totalValue - starting balance (100)
+  tradeCount: number;
+  // PnL breakdown from engine/accounting.ts (missing on rounds recorded before it)
+  realizedPnl?: number; // Closed positions, average cost basis
+  unrealizedPnl?: number; // Open positions marked to final prices
+  settledValue?: number; // vUSD + holdings at settlement (graduated YES at 1, other YES at 0, NO the complement)
+  settlementPnl?: number; // settledValue - starting balance
+}
+
+// Persisted agent trade (agent trade entry + ownership/round context)
+export type TradeRecord = Agent['trades'][number] & {
+  agentId: string;
+  agentName: string;
+  roundNumber: number;
+  status: TradeStatus;
+};
+
+// Filled trades update balances; reverted swaps are archived with the attempted quantity and price only
+export type TradeStatus = 'filled' | 'slippage-reverted';
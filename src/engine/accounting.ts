@@ -0,0 +1,179 @@
+// Agent PnL accounting: realized (average cost), unrealized (mark-to-market) and settlement at graduation,
+// plus per-round and all-time leaderboards built from persisted round results
+import type { Agent, MarketState, MarketStrategy, RoundAgentResult, RoundRecord } from '../core/types';
+import { getOutcomeProbability } from './pricing';
+import { getLeadingStrategy } from './portfolio';
+
+export const STARTING_BALANCE = 100; // vUSDC balance agents start every round with
+
+export interface AgentPnL {
+  realized: number;
+  unrealized: number;
+  total: number; // totalValue - starting balance
+  totalValue: number; // vUSD + holdings at current prices
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  agentId: string;
+  agentName: string;
+  rounds: number;
+  pnl: number; // Mark-to-market at round end
+  realizedPnl: number;
+  settlementPnl: number; // Ranking key
+  tradeCount: number;
+}
+
+// Open position in one token, tracked at average cost
+interface Position {
+  quantity: number;
+  cost: number;
+}
+
+/**
+ * Replay an agent's trades into open positions and realized PnL
+ * Sells beyond the tracked position (holdings synced from chain without a trade) count at zero cost
+ */
+function replayTrades(trades: Agent['trades']): { positions: Map<string, Position>; realized: number } {
+  const positions = new Map<string, Position>();
+  let realized = 0;
+
+  for (const trade of trades) {
+    const key = `${trade.strategyId}:${trade.tokenType}`;
+    const position = positions.get(key) ?? { quantity: 0, cost: 0 };
+
+    if (trade.type === 'buy') {
+      position.quantity += trade.quantity;
+      position.cost += trade.price * trade.quantity;
+    } else {
+      const matched = Math.min(trade.quantity, position.quantity);
+      const averageCost = position.quantity > 0 ? position.cost / position.quantity : 0;
+      realized += trade.price * trade.quantity - averageCost * matched;
+      position.cost -= averageCost * matched;
+      position.quantity -= matched;
+    }
+    positions.set(key, position);
+  }
+
+  return { positions, realized };
+}
+
+/**
+ * Payout of a token once the round is settled: the graduated proposal's YES pays 1, every other YES 0,
+ * and NO pays the complement
+ */
+export function getSettlementPrice(strategy: MarketStrategy, tokenType: 'yes' | 'no', winnerId: string | null): number {
+  const graduated = strategy.id === winnerId;
+  return tokenType === 'yes' ? (graduated ? 1 : 0) : (graduated ? 0 : 1);
+}
+
+/**
+ * Realized and unrealized PnL of an agent, holdings priced by priceOf (current probability by default)
+ */
+export function getAgentPnL(
+  agent: Agent,
+  strategies: MarketStrategy[],
+  priceOf: (strategy: MarketStrategy, tokenType: 'yes' | 'no') => number = getOutcomeProbability
+): AgentPnL {
+  const { positions, realized } = replayTrades(agent.trades);
+  let holdingsValue = 0;
+  let unrealized = 0;
+
+  for (const holding of agent.tokenHoldings) {
+    const strategy = strategies.find(s => s.id === holding.strategyId);
+    if (!strategy || holding.quantity <= 0) continue;
+
+    const value = holding.quantity * priceOf(strategy, holding.tokenType);
+    const position = positions.get(`${holding.strategyId}:${holding.tokenType}`);
+    // Cost basis of what is still held (the tracked position may differ from synced holdings)
+    const basis = position && position.quantity > 0 ? position.cost * Math.min(1, holding.quantity / position.quantity) : 0;
+    holdingsValue += value;
+    unrealized += value - basis;
+  }
+
+  const totalValue = agent.vUSD + holdingsValue;
+  return { realized, unrealized, total: totalValue - STARTING_BALANCE, totalValue };
+}
+
+/**
+ * Final balances and PnL of each agent: mark-to-market at current prices and settled against the graduated proposal
+ */
+export function summarizeAgentResults(agents: Agent[], strategies: MarketStrategy[], winnerId: string | null): RoundAgentResult[] {
+  return agents.map(agent => {
+    const pnl = getAgentPnL(agent, strategies);
+    const settled = getAgentPnL(agent, strategies, (strategy, tokenType) => getSettlementPrice(strategy, tokenType, winnerId));
+
+    return {
+      agentId: agent.id,
+      agentName: agent.personality.name,
+      vUSD: agent.vUSD,
+      totalValue: pnl.totalValue,
+      pnl: pnl.total,
+      tradeCount: agent.trades.length,
+      realizedPnl: pnl.realized,
+      unrealizedPnl: pnl.unrealized,
+      settledValue: settled.totalValue,
+      settlementPnl: settled.total,
+    };
+  });
+}
+
+/**
+ * Rank results by settlement PnL (mark-to-market PnL for rounds recorded before settlement accounting)
+ */
+function rankResults(results: RoundAgentResult[], roundCount: (agentId: string) => number = () => 1): LeaderboardEntry[] {
+  return results
+    .map(result => ({
+      rank: 0,
+      agentId: result.agentId,
+      agentName: result.agentName,
+      rounds: roundCount(result.agentId),
+      pnl: result.pnl,
+      realizedPnl: result.realizedPnl ?? 0,
+      settlementPnl: result.settlementPnl ?? result.pnl,
+      tradeCount: result.tradeCount,
+    }))
+    .sort((a, b) => b.settlementPnl - a.settlementPnl)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+/**
+ * Ranking of one completed round
+ */
+export function getRoundLeaderboard(round: RoundRecord): LeaderboardEntry[] {
+  return rankResults(round.agentResults);
+}
+
+/**
+ * All-time ranking: each agent's results summed over every completed round (latest name kept)
+ */
+export function getAllTimeLeaderboard(rounds: RoundRecord[]): LeaderboardEntry[] {
+  const totals = new Map<string, RoundAgentResult>();
+  const roundCounts = new Map<string, number>();
+
+  for (const round of rounds.filter(r => r.status === 'completed')) {
+    for (const result of round.agentResults) {
+      const total = totals.get(result.agentId);
+      roundCounts.set(result.agentId, (roundCounts.get(result.agentId) ?? 0) + 1);
+      totals.set(result.agentId, {
+        agentId: result.agentId,
+        agentName: result.agentName,
+        vUSD: result.vUSD,
+        totalValue: result.totalValue,
+        pnl: (total?.pnl ?? 0) + result.pnl,
+        tradeCount: (total?.tradeCount ?? 0) + result.tradeCount,
+        realizedPnl: (total?.realizedPnl ?? 0) + (result.realizedPnl ?? 0),
+        settlementPnl: (total?.settlementPnl ?? 0) + (result.settlementPnl ?? result.pnl),
+      });
+    }
+  }
+
+  return rankResults([...totals.values()], agentId => roundCounts.get(agentId) ?? 0);
+}
+
+/**
+ * Ranking of the round in progress, settled against the proposal currently leading (highest YES TWAP)
+ */
+export function getLiveLeaderboard(agents: Agent[], market: MarketState): LeaderboardEntry[] {
+  return rankResults(summarizeAgentResults(agents, market.strategies, getLeadingStrategy(market)?.id ?? null));
+}
@@ -1,6 +1,10 @@
 // Virtual Token Minting AMM
 // Model: 1 vUSD → 1 YES + 1 NO (1:1:1 minting ratio)
 // YES and NO tokens trade against each other, maintaining YES + NO ≈ 1.0
+// The *Swap helpers mirror VerdictSimpleAMM's vUSDC/YES pool; see pricing.ts for the strategy-level API
+
+// VerdictSimpleAMM swap fee (0.3%)
+export const AMM_FEE_BPS = 30;
 
 /**
  * Calculate YES token price from reserves
@@ -161,17 +165,19 @@ export function calculateVUSDForNO(
  * @param vUSDIn Amount of vUSD to swap
  * @param vUSDReserve Current vUSDC reserve in the pool
  * @param yesReserve Current YES token reserve in the pool
+ * @param feeBps Pool swap fee in basis points
  * @returns Number of YES tokens received
  */
 export function calculateYESForVUSDSwap(
   vUSDIn: number,
   vUSDReserve: number,
-  yesReserve: number
+  yesReserve: number,
+  feeBps: number = AMM_FEE_BPS
 ): number {
   if (vUSDIn <= 0 || vUSDReserve <= 0 || yesReserve <= 0) return 0;
   
   // Contract constants
-  const FEE_BPS = 30;
+  const FEE_BPS = feeBps;
   const BPS_DENOMINATOR = 10000;
   
   // Work with BigInt for precision (values are in wei = 18 decimals)
@@ -203,13 +209,14 @@ export function calculateYESForVUSDSwap(
  * This is the actual price you pay when swapping vUSD for YES tokens
  * @param vUSDReserve Current vUSDC reserve in the pool
  * @param yesReserve Current YES token reserve in the pool
+ * @param feeBps Pool swap fee in basis points
  * @returns Price in vUSD per YES token
  */
-export function getYESPriceInVUSD(vUSDReserve: number, yesReserve: number): number {
+export function getYESPriceInVUSD(vUSDReserve: number, yesReserve: number, feeBps: number = AMM_FEE_BPS): number {
   if (yesReserve === 0 || vUSDReserve === 0) return 1.0; // Default to 1:1 if no liquidity
   
   // Calculate how many YES tokens you get for 1 vUSD
-  const yesTokensFor1VUSD = calculateYESForVUSDSwap(1.0, vUSDReserve, yesReserve);
+  const yesTokensFor1VUSD = calculateYESForVUSDSwap(1.0, vUSDReserve, yesReserve, feeBps);
   
   if (yesTokensFor1VUSD === 0) return 1.0;
   
@@ -223,17 +230,19 @@ export function getYESPriceInVUSD(vUSDReserve: number, yesReserve: number): numb
  * @param yesTokensIn Amount of YES tokens to sell
  * @param vUSDReserve Current vUSDC reserve in the pool
  * @param yesReserve Current YES token reserve in the pool
+ * @param feeBps Pool swap fee in basis points
  * @returns Amount of vUSD received
  */
 export function calculateVUSDForYESSwap(
   yesTokensIn: number,
   vUSDReserve: number,
-  yesReserve: number
+  yesReserve: number,
+  feeBps: number = AMM_FEE_BPS
 ): number {
   if (yesTokensIn <= 0 || vUSDReserve <= 0 || yesReserve <= 0) return 0;
   
   // Contract constants
-  const FEE_BPS = 30;
+  const FEE_BPS = feeBps;
   const BPS_DENOMINATOR = 10000;
   
   // Work with BigInt for precision
@@ -254,6 +263,53 @@ export function calculateVUSDForYESSwap(
   return Number(amountOutWei) / 1e18;
 }
 
+/**
+ * Calculate how many vUSD must be swapped in to get an exact amount of YES tokens out
+ * Mirrors VerdictSimpleAMM.getAmountIn (used by the router's sellNO)
+ * @param yesTokensOut Amount of YES tokens wanted
+ * @param vUSDReserve Current vUSDC reserve in the pool
+ * @param yesReserve Current YES token reserve in the pool
+ * @param feeBps Pool swap fee in basis points
+ * @returns Amount of vUSD required (Infinity if the pool can't provide it)
+ */
+export function calculateVUSDForExactYESSwap(
+  yesTokensOut: number,
+  vUSDReserve: number,
+  yesReserve: number,
+  feeBps: number = AMM_FEE_BPS
+): number {
+  if (yesTokensOut <= 0) return 0;
+  if (vUSDReserve <= 0 || yesTokensOut >= yesReserve) return Infinity;
+
+  const FEE_BPS = feeBps;
+  const BPS_DENOMINATOR = 10000;
+
+  const amountOutWei = BigInt(Math.floor(yesTokensOut * 1e18));
+  const reserveInWei = BigInt(Math.floor(vUSDReserve * 1e18));
+  const reserveOutWei = BigInt(Math.floor(yesReserve * 1e18));
+
+  // Contract formula: amountIn = reserveIn * amountOut * BPS_DENOMINATOR / ((reserveOut - amountOut) * (BPS_DENOMINATOR - FEE_BPS)) + 1
+  const numerator = reserveInWei * amountOutWei * BigInt(BPS_DENOMINATOR);
+  const denominator = (reserveOutWei - amountOutWei) * BigInt(BPS_DENOMINATOR - FEE_BPS);
+  if (denominator <= 0n) return Infinity;
+
+  return Number(numerator / denominator + 1n) / 1e18;
+}
+
+/**
+ * Calculate the effective vUSD price per NO token
+ * A NO token is a minted YES+NO pair (1 vUSD) minus the YES half sold into the pool
+ * @param vUSDReserve Current vUSDC reserve in the pool
+ * @param yesReserve Current YES token reserve in the pool
+ * @param feeBps Pool swap fee in basis points
+ * @returns Price in vUSD per NO token
+ */
+export function getNOPriceInVUSD(vUSDReserve: number, yesReserve: number, feeBps: number = AMM_FEE_BPS): number {
+  if (yesReserve === 0 || vUSDReserve === 0) return 1.0; // Nothing to sell the YES half into, full pair cost
+
+  return 1.0 - calculateVUSDForYESSwap(1.0, vUSDReserve, yesReserve, feeBps);
+}
+
 // Legacy function names for backward compatibility (will be updated in strategies)
 export function getAMMPrice(vUSDReserve: number, tokenReserve: number): number {
   // This is a legacy function - should use getYESPrice/getNOPrice instead
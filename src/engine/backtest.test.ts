@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'bun:test';
+import { runBacktest, type BacktestSeries } from './backtest';
+import { registerStrategy } from './strategies';
+import { getAgentTokenHoldings, DEFAULT_AGENT_PERSONALITIES } from '../agents';
+import { getRandomState, random, seedRandom } from '../core/random';
+import type { TradeDecision } from '../core/types';
+
+const personality = DEFAULT_AGENT_PERSONALITIES[0]!;
+let heldYES = 0;
+
+// Buys 20 YES on the first step and holds afterwards, so the PnL only depends on the price path
+registerStrategy({
+  name: 'test-buy-once',
+  description: 'Buy 20 YES once, then hold',
+  configSchema: {},
+  decide(agent, _market, marketStrategy): TradeDecision {
+    heldYES = getAgentTokenHoldings(agent, marketStrategy.id, 'yes');
+    return {
+      agentId: agent.id,
+      action: heldYES === 0 ? 'buy' : 'hold',
+      strategyId: marketStrategy.id,
+      tokenType: 'yes',
+      quantity: heldYES === 0 ? 20 : 0,
+      price: 0.5,
+      reasoning: '',
+    };
+  },
+});
+
+registerStrategy({
+  name: 'test-hold',
+  description: 'Never trades',
+  configSchema: {},
+  decide: (agent, _market, marketStrategy) => ({
+    agentId: agent.id,
+    action: 'hold',
+    strategyId: marketStrategy.id,
+    tokenType: 'yes',
+    quantity: 0,
+    price: 0.5,
+    reasoning: '',
+  }),
+});
+
+function series(prices: number[]): BacktestSeries[] {
+  return [{ strategyId: 'p1', name: 'Proposal 1', history: prices.map((price, i) => ({ price, timestamp: i * 1000 })) }];
+}
+
+describe('runBacktest', () => {
+  test('marks PnL to the last price and tracks the largest peak-to-trough fall', async () => {
+    const result = await runBacktest({
+      series: series([0.5, 0.8, 0.4, 0.6]),
+      agents: [{ strategy: 'test-buy-once', personality }],
+    });
+    const agent = result.agents[0]!;
+
+    expect(result.steps).toBe(4);
+    expect(agent.tradeCount).toBe(1);
+    expect(heldYES).toBeGreaterThan(0);
+    expect(agent.vUSD).toBeLessThan(100);
+    expect(result.proposals[0]?.finalPrice).toBeCloseTo(0.6, 10);
+    expect(agent.totalValue).toBeCloseTo(agent.vUSD + heldYES * 0.6, 10);
+    expect(agent.pnl).toBeCloseTo(agent.totalValue - 100, 10);
+    // YES is bought at ~1 vUSDC and marked at its probability, so the value never gets back above the starting
+    // balance: the peak stays at 100 and the trough is at 0.4
+    expect(agent.vUSD + heldYES * 0.8).toBeLessThan(100);
+    expect(agent.maxDrawdown).toBeCloseTo((100 - (agent.vUSD + heldYES * 0.4)) / 100, 10);
+  });
+
+  test('an agent that never trades has no PnL and no drawdown', async () => {
+    const result = await runBacktest({
+      series: series([0.5, 0.9, 0.1]),
+      agents: [{ strategy: 'test-hold', personality }],
+      startingBalance: 250,
+    });
+
+    expect(result.agents[0]).toMatchObject({ vUSD: 250, totalValue: 250, pnl: 0, tradeCount: 0, maxDrawdown: 0 });
+  });
+
+  test('a seeded run leaves the shared RNG where it was', async () => {
+    seedRandom(123);
+    const expected = [random(), random()];
+
+    seedRandom(123);
+    await runBacktest({ series: series([0.5, 0.6]), agents: [{ strategy: 'test-hold', personality }], seed: 7 });
+    expect([random(), random()]).toEqual(expected);
+
+    seedRandom(null);
+    await runBacktest({ series: series([0.5, 0.6]), agents: [{ strategy: 'test-hold', personality }], seed: 7 });
+    expect(getRandomState()).toBeNull();
+  });
+});
@@ -0,0 +1,311 @@
+// Offline backtests: replay YES price series through the in-memory AMM and let agent strategies trade against it
+import type { Agent, AgentPersonality, MarketState, MarketStrategy, StrategyConfig, StrategyType, TradeDecision } from '../core/types';
+import { getRandomState, random, seedRandom } from '../core/random';
+import {
+  createPool,
+  getPool,
+  getYESProbability,
+  getNOProbability,
+  getYESPriceInVUSDC,
+  getHoldingsValue,
+  setPoolReserves,
+  swapVUSDCForYES,
+  swapYESForVUSDC,
+  buyNO,
+  sellNO,
+} from './pricing';
+import { calculateTWAP } from './twap';
+import { executeStrategy, getStrategy, resolveStrategyConfig } from './strategies';
+import { DEFAULT_AGENT_PERSONALITIES, getAgentTokenHoldings, updateAgentTokenHoldings } from '../agents';
+import { getRoundStrategies } from '../core/db';
+
+const STARTING_BALANCE = 100;
+const DEFAULT_LIQUIDITY = 2000;
+const HISTORY_LIMIT = 100; // Same cap as the live market, strategies see the same window
+
+// Recorded or synthetic YES probability series of one proposal
+export interface BacktestSeries {
+  strategyId: string;
+  name: string;
+  history: Array<{ price: number; timestamp: number }>;
+}
+
+// Agent taking part in a backtest
+export interface BacktestAgentSpec {
+  strategy: StrategyType; // Any registered strategy
+  personality: AgentPersonality;
+  strategyConfig?: StrategyConfig;
+}
+
+export interface BacktestOptions {
+  series: BacktestSeries[];
+  agents: BacktestAgentSpec[];
+  liquidity?: number; // Initial depth of each pool (vUSDC and YES reserves)
+  startingBalance?: number;
+  seed?: number; // Seeds the shared RNG for the replay, restored afterwards
+}
+
+export interface BacktestAgentResult {
+  agentId: string;
+  agentName: string;
+  strategy: StrategyType;
+  vUSD: number;
+  totalValue: number; // vUSD + holdings valued at final prices
+  pnl: number;
+  tradeCount: number;
+  maxDrawdown: number; // Largest peak-to-trough fall of total value, as a fraction of the peak
+}
+
+export interface BacktestResult {
+  steps: number;
+  agents: BacktestAgentResult[];
+  proposals: Array<{ strategyId: string; name: string; finalPrice: number; twap: number }>;
+  graduatedStrategyId: string | null; // Highest YES TWAP, same rule as resolveAllStrategies
+}
+
+/**
+ * Random-walk YES probability series, drawn from the shared (seedable) RNG
+ */
+export function generateSyntheticSeries(
+  count: number,
+  steps: number,
+  options: { volatility?: number; intervalMs?: number; startTime?: number } = {}
+): BacktestSeries[] {
+  const { volatility = 0.02, intervalMs = 10000, startTime = 0 } = options;
+
+  return Array.from({ length: count }, (_, i) => {
+    let price = 0.5;
+    const history: BacktestSeries['history'] = [];
+    for (let step = 0; step < steps; step++) {
+      // Small drift per proposal so the series don't all end up in the same place
+      const drift = (i - (count - 1) / 2) * volatility * 0.05;
+      price = Math.min(0.98, Math.max(0.02, price + drift + (random() * 2 - 1) * volatility));
+      history.push({ price, timestamp: startTime + step * intervalMs });
+    }
+    return { strategyId: `synthetic-${i + 1}`, name: `Synthetic proposal ${i + 1}`, history };
+  });
+}
+
+/**
+ * YES price series recorded for a persisted round
+ */
+export function getRecordedSeries(roundNumber: number): BacktestSeries[] {
+  return getRoundStrategies(roundNumber)
+    .filter(s => s.yesToken.history.length > 0)
+    .map(s => ({ strategyId: s.id, name: s.name, history: s.yesToken.history }));
+}
+
+/**
+ * One agent per (strategy type, personality) pair
+ */
+export function buildAgentMix(strategies: StrategyType[], personalities: AgentPersonality[] = DEFAULT_AGENT_PERSONALITIES): BacktestAgentSpec[] {
+  return strategies.flatMap(strategy => personalities.map(personality => ({ strategy, personality })));
+}
+
+function createBacktestStrategy(series: BacktestSeries, liquidity: number): MarketStrategy {
+  const pool = createPool(liquidity);
+  return {
+    id: series.strategyId,
+    name: series.name,
+    description: series.name,
+    evaluationLogic: '',
+    mathematicalLogic: '',
+    usedDataSources: [],
+    resolutionDeadline: 0,
+    pool,
+    yesToken: { tokenReserve: pool.yesReserve, volume: 0, history: [], twap: 0.5, twapHistory: [] },
+    noToken: { tokenReserve: pool.vUSDCReserve, volume: 0, history: [], twap: 0.5, twapHistory: [] },
+    timestamp: 0,
+    resolved: false,
+    winner: null,
+  };
+}
+
+function createBacktestMarket(strategies: MarketStrategy[]): MarketState {
+  return {
+    strategies,
+    timestamp: 0,
+    roundNumber: 0,
+    roundStartTime: 0,
+    roundEndTime: 0,
+    roundDuration: 0,
+    roundsUntilResolution: 1,
+    lastRoundEndTime: null,
+    tradeQueue: [],
+    lastBatchLLMCallTime: null,
+    isExecutingTrades: true,
+    isExecutingTradeBatch: false,
+    isMakingBatchLLMCall: false,
+    isLLMRateLimited: false,
+  };
+}
+
+/**
+ * Move the pool to a recorded probability while keeping its depth (vUSDC + YES)
+ */
+function anchorPool(strategy: MarketStrategy, price: number): void {
+  const { vUSDCReserve, yesReserve } = getPool(strategy);
+  const depth = vUSDCReserve + yesReserve;
+  setPoolReserves(strategy, depth * price, depth * (1 - price));
+}
+
+/**
+ * Fill a decision against the pool, same math and balance checks as executeTrade (no chain, no persistence)
+ */
+function fillDecision(agent: Agent, strategy: MarketStrategy, decision: TradeDecision, timestamp: number): void {
+  if (decision.action === 'hold' || decision.quantity <= 0) return;
+
+  let quantity = 0;
+  let vUSDDelta = 0;
+
+  if (decision.action === 'buy' && decision.tokenType === 'yes') {
+    const vUSDIn = decision.quantity * getYESPriceInVUSDC(strategy);
+    if (vUSDIn <= 0 || agent.vUSD < vUSDIn) return;
+    quantity = swapVUSDCForYES(strategy, vUSDIn);
+    vUSDDelta = -vUSDIn;
+  } else if (decision.action === 'buy') {
+    if (agent.vUSD < decision.quantity) return;
+    const { noOut, vUSDCRefund } = buyNO(strategy, decision.quantity);
+    quantity = noOut;
+    vUSDDelta = vUSDCRefund - decision.quantity;
+  } else {
+    if (getAgentTokenHoldings(agent, strategy.id, decision.tokenType) < decision.quantity) return;
+    quantity = decision.quantity;
+    vUSDDelta = decision.tokenType === 'yes' ? swapYESForVUSDC(strategy, quantity) : sellNO(strategy, quantity);
+  }
+  if (quantity <= 0) return;
+
+  agent.vUSD += vUSDDelta;
+  updateAgentTokenHoldings(agent, strategy.id, decision.tokenType, decision.action === 'buy' ? quantity : -quantity);
+  agent.trades.push({
+    type: decision.action,
+    strategyId: strategy.id,
+    tokenType: decision.tokenType,
+    price: Math.abs(vUSDDelta) / quantity,
+    quantity,
+    timestamp,
+    reasoning: decision.reasoning,
+  });
+  (decision.tokenType === 'yes' ? strategy.yesToken : strategy.noToken).volume += quantity;
+}
+
+/**
+ * Record the post-trade price of a strategy into its (capped) histories and refresh TWAPs
+ */
+function recordPrices(strategy: MarketStrategy, timestamp: number): void {
+  for (const [token, price] of [[strategy.yesToken, getYESProbability(strategy)], [strategy.noToken, getNOProbability(strategy)]] as const) {
+    token.history.push({ price, timestamp });
+    if (token.history.length > HISTORY_LIMIT) token.history.shift();
+    token.twap = calculateTWAP(token.history);
+  }
+}
+
+/**
+ * Replay the series step by step: anchor each pool to the recorded price, let every agent decide and fill
+ * against the pool, then record the resulting prices. Series are aligned by index (shorter ones stop early)
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestResult> {
+  if (options.seed === undefined) return replaySeries(options);
+
+  // The shared RNG also drives live trade delays and evolution: put it back where it was once the replay is done
+  const savedState = getRandomState();
+  seedRandom(options.seed);
+  try {
+    return await replaySeries(options);
+  } finally {
+    seedRandom(savedState);
+  }
+}
+
+async function replaySeries(options: BacktestOptions): Promise<BacktestResult> {
+  const { series, liquidity = DEFAULT_LIQUIDITY, startingBalance = STARTING_BALANCE } = options;
+
+  const strategies = series.map(s => createBacktestStrategy(s, liquidity));
+  const market = createBacktestMarket(strategies);
+  for (const spec of options.agents) {
+    const definition = getStrategy(spec.strategy);
+    if (!definition) throw new Error(`Unknown strategy "${spec.strategy}"`);
+    resolveStrategyConfig(definition, spec.strategyConfig);
+  }
+  const agents: Agent[] = options.agents.map((spec, index) => ({
+    id: `backtest-${index + 1}`,
+    personality: spec.personality,
+    strategy: spec.strategy,
+    strategyConfig: spec.strategyConfig,
+    vUSD: startingBalance,
+    tokenHoldings: [],
+    wallet: { address: '', derivationPath: '' },
+    trades: [],
+    roundMemory: [],
+  }));
+
+  const peaks = agents.map(() => startingBalance);
+  const maxDrawdowns = agents.map(() => 0);
+  // Full post-trade YES series per proposal for the graduation TWAP (token.history is capped)
+  const fullHistories = strategies.map(() => [] as Array<{ price: number; timestamp: number }>);
+  const steps = Math.max(0, ...series.map(s => s.history.length));
+
+  for (let step = 0; step < steps; step++) {
+    const active: MarketStrategy[] = [];
+    let timestamp = 0;
+    series.forEach((s, i) => {
+      const point = s.history[step];
+      const strategy = strategies[i];
+      if (!point || !strategy) return;
+      anchorPool(strategy, point.price);
+      active.push(strategy);
+      timestamp = Math.max(timestamp, point.timestamp);
+    });
+    market.timestamp = timestamp;
+
+    // Proposals whose series has ended are treated as closed
+    strategies.forEach(s => { s.resolved = !active.includes(s); });
+
+    // Same portfolio decisions as the live loop: orders across all active proposals, constrained and sells first
+    for (const agent of agents) {
+      for (const order of await executeStrategy(agent, market)) {
+        const strategy = strategies.find(s => s.id === order.strategyId);
+        if (strategy) fillDecision(agent, strategy, order, timestamp);
+      }
+    }
+
+    for (const strategy of active) {
+      recordPrices(strategy, timestamp);
+      fullHistories[strategies.indexOf(strategy)]?.push({ price: getYESProbability(strategy), timestamp });
+    }
+
+    agents.forEach((agent, i) => {
+      const value = agent.vUSD + getHoldingsValue(agent.tokenHoldings, strategies);
+      peaks[i] = Math.max(peaks[i] ?? value, value);
+      const peak = peaks[i] ?? value;
+      if (peak > 0) maxDrawdowns[i] = Math.max(maxDrawdowns[i] ?? 0, (peak - value) / peak);
+    });
+  }
+
+  const proposals = strategies.map((strategy, i) => ({
+    strategyId: strategy.id,
+    name: strategy.name,
+    finalPrice: getYESProbability(strategy),
+    twap: calculateTWAP(fullHistories[i] ?? []),
+  }));
+  const winner = proposals.reduce<typeof proposals[number] | null>((best, p) => (!best || p.twap > best.twap ? p : best), null);
+
+  return {
+    steps,
+    agents: agents.map((agent, i) => {
+      const totalValue = agent.vUSD + getHoldingsValue(agent.tokenHoldings, strategies);
+      return {
+        agentId: agent.id,
+        agentName: agent.personality.name,
+        strategy: agent.strategy,
+        vUSD: agent.vUSD,
+        totalValue,
+        pnl: totalValue - startingBalance,
+        tradeCount: agent.trades.length,
+        maxDrawdown: maxDrawdowns[i] ?? 0,
+      };
+    }),
+    proposals,
+    graduatedStrategyId: winner?.strategyId ?? null,
+  };
+}
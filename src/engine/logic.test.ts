@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'bun:test';
+import { evaluateLogic, LogicParseError, parseLogic, validateProposalLogic, type AssetOperand, type LogicNode } from './logic';
+
+const values: Record<string, number> = { SPY: 700, QQQ: 500, VTI: 300 };
+const lookup = (operand: AssetOperand) =>
+  operand.type === 'ticker' ? values[operand.ticker]! : Object.values(values)[operand.index]!;
+const evaluate = (source: string) => evaluateLogic(parseLogic(source), lookup);
+
+describe('parseLogic', () => {
+  test('NOT binds tighter than AND, AND tighter than OR', () => {
+    const comparison = (ticker: string): LogicNode => ({
+      type: 'comparison',
+      operator: '>',
+      left: { type: 'ticker', ticker },
+      right: { type: 'number', value: 1 },
+    });
+    const expected: LogicNode = {
+      type: 'or',
+      left: { type: 'and', left: { type: 'not', operand: comparison('SPY') }, right: comparison('QQQ') },
+      right: comparison('VTI'),
+    };
+
+    expect(parseLogic('NOT SPY > 1 AND QQQ > 1 OR VTI > 1')).toEqual(expected);
+    expect(parseLogic('!SPY > 1 && QQQ > 1 || VTI > 1')).toEqual(expected);
+    expect(evaluate('SPY > 1000 AND QQQ > 1 OR VTI > 1')).toBe(true);
+    expect(evaluate('SPY > 1000 AND (QQQ > 1 OR VTI > 1)')).toBe(false);
+  });
+
+  test('= and == are equality, != inequality', () => {
+    expect(parseLogic('SPY = 700')).toEqual(parseLogic('SPY == 700'));
+    expect(evaluate('SPY = 700')).toBe(true);
+    expect(evaluate('SPY != 700')).toBe(false);
+  });
+
+  test('a % suffix is percent points, not a fraction', () => {
+    expect(parseLogic('SPY > 5%')).toEqual({
+      type: 'comparison',
+      operator: '>',
+      left: { type: 'ticker', ticker: 'SPY' },
+      right: { type: 'number', value: 5 },
+    });
+  });
+
+  test('placeholders bind to usedDataSources by position', () => {
+    expect(evaluate('asset_price > 699 AND asset2_price < 501 AND asset3_price == 300')).toBe(true);
+  });
+
+  test.each([
+    ['exponent numbers', 'SPY > 1e3'],
+    ['a trailing operator', 'SPY > 700 AND'],
+    ['a missing closing parenthesis', '(SPY > 700'],
+    ['an extra closing parenthesis', 'SPY > 700)'],
+    ['constant-only comparisons', '5 > 3'],
+    ['an empty expression', '  '],
+    ['expressions over 500 characters', `SPY > 700${' OR SPY > 700'.repeat(42)}`],
+  ])('rejects %s', (_, source) => {
+    expect(() => parseLogic(source)).toThrow(LogicParseError);
+  });
+});
+
+describe('evaluateLogic', () => {
+  test('a missing operand value is an error, not false', () => {
+    const ast = parseLogic('NOT SPY > 700 OR QQQ != 500');
+
+    expect(() => evaluateLogic(ast, () => NaN)).toThrow('No value for SPY');
+    expect(() => evaluateLogic(ast, () => undefined as unknown as number)).toThrow('No value for SPY');
+  });
+});
+
+describe('validateProposalLogic', () => {
+  const proposal = {
+    evaluationLogic: '(SPY > 700 AND QQQ > 550)',
+    mathematicalLogic: 'asset1_price > 700 AND asset2_price > 550',
+    usedDataSources: [
+      { id: 12245, currentValue: 690, targetValue: 700, operator: '>' },
+      { id: 12249, currentValue: 540, targetValue: 550, operator: '>' },
+    ],
+  };
+
+  test('accepts logic bound to its data sources', () => {
+    expect(validateProposalLogic(proposal)).toBeNull();
+  });
+
+  test('rejects tickers and placeholders outside usedDataSources', () => {
+    expect(validateProposalLogic({ ...proposal, evaluationLogic: 'VTI > 300' })).toContain("ticker 'VTI'");
+    expect(validateProposalLogic({ ...proposal, mathematicalLogic: 'asset3_price > 1' })).toContain('asset3_price');
+    expect(validateProposalLogic({ ...proposal, evaluationLogic: 'NOPE > 1' })).toContain("unknown ticker 'NOPE'");
+  });
+
+  test('rejects malformed logic', () => {
+    expect(validateProposalLogic({ ...proposal, mathematicalLogic: 'asset1_price >' })).toContain('Invalid mathematicalLogic');
+  });
+});
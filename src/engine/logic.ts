@@ -0,0 +1,336 @@
+import type { MarketStrategy } from '../core/types';
+import { getDataSourceById, getDataSourceByTicker } from '../llm/dataSources';
+
+/**
+ * Safe parser/evaluator for proposal logic strings.
+ *
+ * Grammar (AND binds tighter than OR, NOT binds tightest):
+ *   expr       := orExpr
+ *   orExpr     := andExpr (OR andExpr)*
+ *   andExpr    := unary (AND unary)*
+ *   unary      := NOT unary | '(' expr ')' | comparison
+ *   comparison := operand ('>' | '<' | '>=' | '<=' | '==' | '!=') operand
+ *   operand    := number | ticker | asset_price | assetN_price
+ *
+ * A number may carry a trailing '%' (percent points, e.g. `DE_CPI < 3%`).
+ *
+ * `asset_price` / `assetN_price` are bound to usedDataSources by position (1-based).
+ */
+
+export type ComparisonOperator = '>' | '<' | '>=' | '<=' | '==' | '!=';
+
+export type OperandNode =
+  | { type: 'number'; value: number }
+  | { type: 'ticker'; ticker: string }
+  | { type: 'asset'; index: number }; // 0-based index into usedDataSources
+
+// Operands that must be bound to a data source value
+export type AssetOperand = Exclude<OperandNode, { type: 'number' }>;
+
+export type LogicNode =
+  | { type: 'and' | 'or'; left: LogicNode; right: LogicNode }
+  | { type: 'not'; operand: LogicNode }
+  | { type: 'comparison'; operator: ComparisonOperator; left: OperandNode; right: OperandNode };
+
+export class LogicParseError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'LogicParseError';
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'ident'; value: string; pos: number }
+  | { kind: 'op'; value: ComparisonOperator; pos: number }
+  | { kind: 'and' | 'or' | 'not' | 'lparen' | 'rparen'; pos: number };
+
+const MAX_LOGIC_LENGTH = 500;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i]!;
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '(') {
+      tokens.push({ kind: 'lparen', pos: i++ });
+      continue;
+    }
+    if (ch === ')') {
+      tokens.push({ kind: 'rparen', pos: i++ });
+      continue;
+    }
+
+    const twoChars = source.slice(i, i + 2);
+    if (twoChars === '>=' || twoChars === '<=' || twoChars === '==' || twoChars === '!=') {
+      tokens.push({ kind: 'op', value: twoChars, pos: i });
+      i += 2;
+      continue;
+    }
+    if (twoChars === '&&' || twoChars === '||') {
+      tokens.push({ kind: twoChars === '&&' ? 'and' : 'or', pos: i });
+      i += 2;
+      continue;
+    }
+    if (ch === '>' || ch === '<') {
+      tokens.push({ kind: 'op', value: ch, pos: i++ });
+      continue;
+    }
+    if (ch === '=') {
+      // Accept a single '=' as equality, LLMs produce it often
+      tokens.push({ kind: 'op', value: '==', pos: i++ });
+      continue;
+    }
+    if (ch === '!') {
+      tokens.push({ kind: 'not', pos: i++ });
+      continue;
+    }
+
+    const numberMatch = source.slice(i).match(/^-?\d+(?:\.\d+)?%?/);
+    if (numberMatch && (ch !== '-' || tokens.length === 0 || tokens[tokens.length - 1]!.kind !== 'number')) {
+      tokens.push({ kind: 'number', value: parseFloat(numberMatch[0]), pos: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const identMatch = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (identMatch) {
+      const word = identMatch[0];
+      const upper = word.toUpperCase();
+      if (upper === 'AND' || upper === 'OR' || upper === 'NOT') {
+        tokens.push({ kind: upper.toLowerCase() as 'and' | 'or' | 'not', pos: i });
+      } else {
+        tokens.push({ kind: 'ident', value: word, pos: i });
+      }
+      i += word.length;
+      continue;
+    }
+
+    throw new LogicParseError(`Unexpected character '${ch}'`, i);
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private sourceLength: number) {}
+
+  parse(): LogicNode {
+    if (this.tokens.length === 0) {
+      throw new LogicParseError('Empty expression', 0);
+    }
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      throw new LogicParseError(`Unexpected token '${describeToken(next)}'`, next.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) throw new LogicParseError('Unexpected end of expression', this.sourceLength);
+    return token;
+  }
+
+  private parseOr(): LogicNode {
+    let left = this.parseAnd();
+    while (this.peek()?.kind === 'or') {
+      this.index++;
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): LogicNode {
+    let left = this.parseUnary();
+    while (this.peek()?.kind === 'and') {
+      this.index++;
+      left = { type: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): LogicNode {
+    const token = this.peek();
+    if (token?.kind === 'not') {
+      this.index++;
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    if (token?.kind === 'lparen') {
+      this.index++;
+      const inner = this.parseOr();
+      const close = this.next();
+      if (close.kind !== 'rparen') {
+        throw new LogicParseError(`Expected ')' but found '${describeToken(close)}'`, close.pos);
+      }
+      return inner;
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): LogicNode {
+    const left = this.parseOperand();
+    const op = this.next();
+    if (op.kind !== 'op') {
+      throw new LogicParseError(`Expected comparison operator but found '${describeToken(op)}'`, op.pos);
+    }
+    const right = this.parseOperand();
+    if (left.type === 'number' && right.type === 'number') {
+      throw new LogicParseError('Comparison must reference at least one asset', op.pos);
+    }
+    return { type: 'comparison', operator: op.value, left, right };
+  }
+
+  private parseOperand(): OperandNode {
+    const token = this.next();
+    if (token.kind === 'number') {
+      return { type: 'number', value: token.value };
+    }
+    if (token.kind === 'ident') {
+      const placeholder = token.value.match(/^asset(\d*)_price$/i);
+      if (placeholder) {
+        const position = placeholder[1] ? parseInt(placeholder[1]) : 1;
+        if (position < 1) throw new LogicParseError(`Invalid placeholder '${token.value}'`, token.pos);
+        return { type: 'asset', index: position - 1 };
+      }
+      if (token.value.toLowerCase() === 'price') {
+        return { type: 'asset', index: 0 };
+      }
+      return { type: 'ticker', ticker: token.value.toUpperCase() };
+    }
+    throw new LogicParseError(`Expected value but found '${describeToken(token)}'`, token.pos);
+  }
+}
+
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case 'number': return String(token.value);
+    case 'ident':
+    case 'op': return token.value;
+    case 'lparen': return '(';
+    case 'rparen': return ')';
+    default: return token.kind.toUpperCase();
+  }
+}
+
+/**
+ * Parse a logic string into an AST. Throws LogicParseError on malformed input.
+ */
+export function parseLogic(source: string): LogicNode {
+  if (source.length > MAX_LOGIC_LENGTH) {
+    throw new LogicParseError(`Expression exceeds ${MAX_LOGIC_LENGTH} characters`, MAX_LOGIC_LENGTH);
+  }
+  return new Parser(tokenize(source), source.length).parse();
+}
+
+/**
+ * Collect every ticker/asset operand referenced by an AST
+ */
+export function collectOperands(node: LogicNode): AssetOperand[] {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return [...collectOperands(node.left), ...collectOperands(node.right)];
+    case 'not':
+      return collectOperands(node.operand);
+    case 'comparison':
+      return [node.left, node.right].filter(
+        (o): o is AssetOperand => o.type !== 'number'
+      );
+  }
+}
+
+/**
+ * Evaluate an AST, resolving ticker/asset operands through the provided lookup.
+ * Throws if an operand resolves to no finite value, so a missing value can't flip a NOT or != to true.
+ */
+export function evaluateLogic(
+  node: LogicNode,
+  resolveOperand: (operand: AssetOperand) => number
+): boolean {
+  switch (node.type) {
+    case 'and':
+      return evaluateLogic(node.left, resolveOperand) && evaluateLogic(node.right, resolveOperand);
+    case 'or':
+      return evaluateLogic(node.left, resolveOperand) || evaluateLogic(node.right, resolveOperand);
+    case 'not':
+      return !evaluateLogic(node.operand, resolveOperand);
+    case 'comparison': {
+      const value = (o: OperandNode) => {
+        if (o.type === 'number') return o.value;
+        const resolved = resolveOperand(o);
+        if (!Number.isFinite(resolved)) {
+          throw new Error(`No value for ${o.type === 'ticker' ? o.ticker : `asset${o.index + 1}_price`}`);
+        }
+        return resolved;
+      };
+      const left = value(node.left);
+      const right = value(node.right);
+      switch (node.operator) {
+        case '>': return left > right;
+        case '<': return left < right;
+        case '>=': return left >= right;
+        case '<=': return left <= right;
+        case '==': return left === right;
+        case '!=': return left !== right;
+      }
+    }
+  }
+}
+
+/**
+ * Validate a proposal's evaluationLogic/mathematicalLogic against its usedDataSources.
+ * Returns an error message, or null if valid.
+ */
+export function validateProposalLogic(
+  proposal: Pick<MarketStrategy, 'evaluationLogic' | 'mathematicalLogic' | 'usedDataSources'>
+): string | null {
+  const usedIds = new Set(proposal.usedDataSources.map(ds => ds.id));
+
+  for (const id of usedIds) {
+    if (!getDataSourceById(id)) {
+      return `usedDataSources references unknown data source ID ${id}`;
+    }
+  }
+
+  for (const field of ['evaluationLogic', 'mathematicalLogic'] as const) {
+    let ast: LogicNode;
+    try {
+      ast = parseLogic(proposal[field]);
+    } catch (error) {
+      return `Invalid ${field}: ${error instanceof Error ? error.message : error}`;
+    }
+
+    for (const operand of collectOperands(ast)) {
+      if (operand.type === 'asset') {
+        if (operand.index >= proposal.usedDataSources.length) {
+          return `${field} references asset${operand.index + 1}_price but usedDataSources has ${proposal.usedDataSources.length} entries`;
+        }
+        continue;
+      }
+
+      const ds = getDataSourceByTicker(operand.ticker);
+      if (!ds) {
+        return `${field} references unknown ticker '${operand.ticker}'`;
+      }
+      if (!usedIds.has(ds.id)) {
+        return `${field} references ticker '${operand.ticker}' (ID ${ds.id}) which is not in usedDataSources`;
+      }
+    }
+  }
+
+  return null;
+}
@@ -1,8 +1,10 @@
 import { ethers } from 'ethers';
 import type { MarketState, MarketStrategy } from '../core/types';
 import { log } from '../core/logger';
-import { getYESPrice, getNOPrice } from './amm';
-import { config } from '../core/config';
+import { createPool, setPoolReserves } from './pricing';
+import { config, isLLMReplay, isSimulation } from '../core/config';
+import { randomInt } from '../core/random';
+import { getNextRoundNumber } from '../core/db';
 
 /**
  * Initialize market with LLM-generated strategies based on trusted data sources
@@ -19,7 +21,7 @@ export function initializeMarket(): MarketState {
   return {
     strategies: [],
     timestamp: now,
-    roundNumber: 0,
+    roundNumber: getNextRoundNumber(), // Continue numbering after persisted rounds
     roundStartTime: 0, // Not started yet
     roundEndTime: 0, // Not started yet
     roundDuration: config.market.roundDuration,
@@ -41,13 +43,16 @@ export async function generateAndSetStrategies(marketState: MarketState): Promis
   const initialTokenReserve = 2000;
   let strategies: MarketStrategy[] = [];
 
-  try {
-    const llmModule = await import('../llm');
-    if (llmModule.generateStrategiesFromDataSources) {
-      strategies = await llmModule.generateStrategiesFromDataSources(5);
+  // Simulation runs stay offline and reproducible, so they draw from the default pool unless replaying recordings
+  if (!isSimulation || isLLMReplay) {
+    try {
+      const llmModule = await import('../llm');
+      if (llmModule.generateStrategiesFromDataSources) {
+        strategies = await llmModule.generateStrategiesFromDataSources(5);
+      }
+    } catch (error) {
+      log('Market', `LLM generation failed, proceeding with fallbacks: ${error instanceof Error ? error.message : error}`, 'warn');
     }
-  } catch (error) {
-    log('Market', `LLM generation failed, proceeding with fallbacks: ${error instanceof Error ? error.message : error}`, 'warn');
   }
 
   if (strategies.length === 0) {
@@ -56,7 +61,7 @@ export async function generateAndSetStrategies(marketState: MarketState): Promis
     const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
     // Pool of 25 hardcoded strategies
-    const strategyPool: Array<Omit<MarketStrategy, 'id' | 'timestamp' | 'resolutionDeadline' | 'yesToken' | 'noToken'>> = [
+    const strategyPool: Array<Omit<MarketStrategy, 'id' | 'timestamp' | 'resolutionDeadline' | 'pool' | 'yesToken' | 'noToken'>> = [
       {
         name: 'Tech & Crypto Rally',
         description: 'This strategy predicts a rally in the tech and crypto markets, with the S&P 500 exceeding 700 and Bitcoin ETF exceeding 50. This prediction matters as it signals a potential shift in investor sentiment towards riskier assets.',
@@ -355,7 +360,7 @@ export async function generateAndSetStrategies(marketState: MarketState): Promis
     // Randomly select 5 strategies from the pool
     const selectedIndices: number[] = [];
     while (selectedIndices.length < 5) {
-      const randomIndex = Math.floor(Math.random() * strategyPool.length);
+      const randomIndex = randomInt(strategyPool.length);
       if (!selectedIndices.includes(randomIndex)) {
         selectedIndices.push(randomIndex);
       }
@@ -378,6 +383,7 @@ export async function generateAndSetStrategies(marketState: MarketState): Promis
         mathematicalLogic: template.mathematicalLogic,
         usedDataSources: template.usedDataSources,
         resolutionDeadline: now + (timeLimitDays * MS_PER_DAY),
+        pool: createPool(initialTokenReserve),
         yesToken: {
           tokenReserve: initialTokenReserve,
           volume: 0,
@@ -469,6 +475,7 @@ export async function syncActiveMarketFromChain(marketState: MarketState): Promi
           timestamp: now,
           resolved: p.resolved,
           winner: p.resolved ? (p.isWinner ? 'yes' : 'no') : null,
+          pool: createPool(0), // Will be synced by syncReservesFromChain
           yesToken: {
             tokenReserve: 0, // Will be synced by syncReservesFromChain
             volume: 0,
@@ -527,16 +534,9 @@ export async function syncReservesFromChain(marketState: MarketState): Promise<v
     const vUSDC = parseFloat(ethers.formatUnits(reserves.vUSDCReserve, 18));
     const yes = parseFloat(ethers.formatUnits(reserves.yesReserve, 18));
 
-    // On-chain: reserves.yes = YES tokens, reserves.vUSDC = vUSDC tokens
-    // Note: In the backend, we store:
-    // - yesToken.tokenReserve = YES tokens (from contract's reserveB)
-    // - noToken.tokenReserve = vUSDC tokens (from contract's reserveA)
-    // This matches the contract's pool structure where:
-    // - reserveA = vUSDC
-    // - reserveB = YES tokens
+    // Contract pool: reserveA = vUSDC, reserveB = YES tokens
     if (yes > 0 || vUSDC > 0) {
-      strategy.yesToken.tokenReserve = yes;  // YES tokens (contract's reserveB)
-      strategy.noToken.tokenReserve = vUSDC;  // vUSDC (contract's reserveA, stored as "noToken" for compatibility)
+      setPoolReserves(strategy, vUSDC, yes);
 
       // Update price history from chain directly for better accuracy
       const { getYESPriceFromChain } = await import('../blockchain');
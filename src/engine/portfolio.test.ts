@@ -0,0 +1,27 @@
+import { expect, test } from 'bun:test';
+import { constrainOrders } from './portfolio';
+import { createTestAgent, createTestStrategy } from '../test/fixtures';
+import type { TradeDecision } from '../core/types';
+
+const strategy = createTestStrategy();
+
+function order(action: TradeDecision['action'], quantity: number, reasoning: string): TradeDecision {
+  return { agentId: 'agent-1', action, strategyId: strategy.id, tokenType: 'yes', quantity, price: 0.5, reasoning };
+}
+
+test('orders on the same token and side are merged before the holdings cap', () => {
+  const agent = createTestAgent();
+  agent.tokenHoldings = [{ strategyId: strategy.id, tokenType: 'yes', quantity: 10 }];
+
+  const orders = constrainOrders(agent, [order('sell', 8, 'Signal.'), order('sell', 8, 'Rebalance.')], [strategy]);
+
+  expect(orders).toEqual([order('sell', 10, 'Signal. Rebalance.')]);
+});
+
+test('buys on the same token become one order sized by their total', () => {
+  const agent = createTestAgent();
+
+  const orders = constrainOrders(agent, [order('buy', 30, 'Signal.'), order('buy', 30, 'Rebalance.')], [strategy]);
+
+  expect(orders).toEqual([order('buy', 60, 'Signal. Rebalance.')]);
+});
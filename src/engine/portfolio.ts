@@ -0,0 +1,133 @@
+// Portfolio-level order handling: agents emit several orders per tick across proposals,
+// which are constrained to what the agent can afford before being queued as one batch
+import type { Agent, MarketState, MarketStrategy, TradeDecision } from '../core/types';
+import { getAgentTokenHoldings, getMaxSlippageBps } from '../agents';
+import { getYESProbability, getYESPriceInVUSDC, estimateVUSDCForYES, estimateYESForVUSDC } from './pricing';
+import { quoteSwap } from './quote';
+
+const REBALANCE_TWAP_MARGIN = 0.02; // YES TWAP gap to the leader before a position counts as a loser
+
+/**
+ * Proposal currently expected to graduate: highest YES TWAP among unresolved proposals
+ */
+export function getLeadingStrategy(market: MarketState): MarketStrategy | null {
+  return market.strategies
+    .filter(s => !s.resolved)
+    .reduce<MarketStrategy | null>((best, s) => (!best || s.yesToken.twap > best.yesToken.twap ? s : best), null);
+}
+
+/**
+ * Orders moving YES held in trailing proposals into the leader (only one proposal graduates)
+ * Sells a share of each losing position (by aggressiveness) and buys leader YES with the proceeds
+ */
+export function planRebalance(agent: Agent, market: MarketState): TradeDecision[] {
+  const leader = getLeadingStrategy(market);
+  if (!leader) return [];
+
+  const { personality } = agent;
+  const orders: TradeDecision[] = [];
+  let proceeds = 0;
+
+  for (const strategy of market.strategies) {
+    if (strategy.resolved || strategy.id === leader.id) continue;
+    if (strategy.yesToken.twap > leader.yesToken.twap - REBALANCE_TWAP_MARGIN) continue;
+
+    const holdings = getAgentTokenHoldings(agent, strategy.id, 'yes');
+    const quantity = Math.floor(holdings * personality.aggressiveness);
+    if (quantity <= 0) continue;
+
+    const yesPrice = getYESProbability(strategy);
+    proceeds += estimateVUSDCForYES(strategy, quantity);
+    orders.push({
+      agentId: agent.id,
+      action: 'sell',
+      strategyId: strategy.id,
+      tokenType: 'yes',
+      quantity,
+      price: yesPrice,
+      reasoning: `I'm rotating out of ${strategy.name}: its YES TWAP of ${strategy.yesToken.twap.toFixed(4)} trails ${leader.name} at ${leader.yesToken.twap.toFixed(4)}, and only one proposal graduates, so I'm moving this capital into the leader. ${personality.memo}`,
+    });
+  }
+
+  const leaderQuantity = Math.floor(estimateYESForVUSDC(leader, proceeds));
+  if (leaderQuantity > 0) {
+    orders.push({
+      agentId: agent.id,
+      action: 'buy',
+      strategyId: leader.id,
+      tokenType: 'yes',
+      quantity: leaderQuantity,
+      price: getYESProbability(leader),
+      reasoning: `I'm reallocating the proceeds from trailing proposals into ${leader.name}, which leads with a YES TWAP of ${leader.yesToken.twap.toFixed(4)}. ${personality.memo}`,
+    });
+  }
+
+  return orders;
+}
+
+/**
+ * Combine orders on the same token and side (e.g. a strategy buy and a rebalance buy of the leader) into one
+ * order, so the holdings cap and budget scaling apply to the full size rather than to each order separately
+ */
+function mergeOrders(orders: TradeDecision[]): TradeDecision[] {
+  const merged = new Map<string, TradeDecision>();
+  for (const order of orders) {
+    const key = `${order.strategyId}:${order.tokenType}:${order.action}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...order });
+      continue;
+    }
+    existing.quantity += order.quantity;
+    if (order.reasoning && !existing.reasoning.includes(order.reasoning)) {
+      existing.reasoning = existing.reasoning ? `${existing.reasoning} ${order.reasoning}` : order.reasoning;
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Portfolio constraint step for one agent's orders in a tick
+ * - drops holds, unknown/resolved proposals and buys of a token the batch also sells
+ * - merges orders on the same proposal, token and side into one
+ * - caps sells at holdings (cumulatively per token)
+ * - scales buys down so their total cost stays within vUSD plus the sells' minimum proceeds (after slippage)
+ * Returned orders are sells first, then buys, so they execute in that order through the trade queue
+ */
+export function constrainOrders(agent: Agent, orders: TradeDecision[], strategies: MarketStrategy[]): TradeDecision[] {
+  const active = new Map(strategies.filter(s => !s.resolved).map(s => [s.id, s]));
+  const candidates = mergeOrders(orders.filter(o => o.action !== 'hold' && o.quantity > 0 && active.has(o.strategyId)));
+  const tokenKey = (o: TradeDecision) => `${o.strategyId}:${o.tokenType}`;
+  const soldTokens = new Set(candidates.filter(o => o.action === 'sell').map(tokenKey));
+
+  const sells: TradeDecision[] = [];
+  const remaining = new Map<string, number>();
+  let proceeds = 0;
+  for (const order of candidates.filter(o => o.action === 'sell')) {
+    const strategy = active.get(order.strategyId)!;
+    const key = tokenKey(order);
+    const available = remaining.get(key) ?? getAgentTokenHoldings(agent, order.strategyId, order.tokenType);
+    const quantity = Math.floor(Math.min(order.quantity, available));
+    if (quantity <= 0) continue;
+
+    remaining.set(key, available - quantity);
+    proceeds += quoteSwap(strategy, 'sell', quantity, getMaxSlippageBps(agent), order.tokenType).minOut;
+    sells.push({ ...order, quantity });
+  }
+
+  // Cost of a buy at current prices: YES at the fee-inclusive swap price, NO locks 1 vUSD per token up front
+  const buyCost = (order: TradeDecision) => order.tokenType === 'yes'
+    ? order.quantity * getYESPriceInVUSDC(active.get(order.strategyId)!)
+    : order.quantity;
+
+  const buys = candidates.filter(o => o.action === 'buy' && !soldTokens.has(tokenKey(o)));
+  const budget = Math.max(0, agent.vUSD + proceeds);
+  const totalCost = buys.reduce((sum, o) => sum + buyCost(o), 0);
+  const scale = totalCost > budget ? budget / totalCost : 1;
+
+  const scaledBuys = buys
+    .map(order => ({ ...order, quantity: Math.floor(order.quantity * scale) }))
+    .filter(order => order.quantity > 0);
+
+  return [...sells, ...scaledBuys];
+}
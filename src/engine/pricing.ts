@@ -0,0 +1,160 @@
+// Strategy-level pricing over the vUSDC/YES pool (mirrors VerdictSimpleAMM + router buyNO/sellNO)
+// Every reserve read/write and every probability or vUSDC price should go through here
+import type { AgentTokenHoldings, MarketStrategy, PoolState } from '../core/types';
+import {
+  AMM_FEE_BPS,
+  calculateYESForVUSDSwap,
+  calculateVUSDForYESSwap,
+  calculateVUSDForExactYESSwap,
+  getYESPriceInVUSD,
+  getNOPriceInVUSD,
+} from './amm';
+
+/**
+ * Create a pool seeded with equal vUSDC and YES reserves (YES probability 0.5)
+ */
+export function createPool(liquidity: number, feeBps: number = AMM_FEE_BPS): PoolState {
+  return { vUSDCReserve: liquidity, yesReserve: liquidity, feeBps };
+}
+
+/**
+ * Get a strategy's pool, rebuilding it from the legacy reserve fields for strategies stored before pools existed
+ */
+export function getPool(strategy: MarketStrategy): PoolState {
+  if (!strategy.pool) {
+    strategy.pool = {
+      vUSDCReserve: strategy.noToken.tokenReserve,
+      yesReserve: strategy.yesToken.tokenReserve,
+      feeBps: AMM_FEE_BPS,
+    };
+  }
+  return strategy.pool;
+}
+
+/**
+ * Set a strategy's pool reserves and keep the legacy tokenReserve fields in sync
+ */
+export function setPoolReserves(strategy: MarketStrategy, vUSDCReserve: number, yesReserve: number): void {
+  const pool = getPool(strategy);
+  pool.vUSDCReserve = vUSDCReserve;
+  pool.yesReserve = yesReserve;
+  strategy.yesToken.tokenReserve = yesReserve;
+  strategy.noToken.tokenReserve = vUSDCReserve;
+}
+
+/**
+ * Implied YES probability: vUSDC / (vUSDC + YES), same as the contract's getYESPrice
+ */
+export function getYESProbability(strategy: MarketStrategy): number {
+  const { vUSDCReserve, yesReserve } = getPool(strategy);
+  if (vUSDCReserve + yesReserve <= 0) return 0.5;
+  return vUSDCReserve / (vUSDCReserve + yesReserve);
+}
+
+/**
+ * Implied NO probability (complement of YES)
+ */
+export function getNOProbability(strategy: MarketStrategy): number {
+  return 1 - getYESProbability(strategy);
+}
+
+/**
+ * Implied probability of either outcome
+ */
+export function getOutcomeProbability(strategy: MarketStrategy, tokenType: 'yes' | 'no'): number {
+  return tokenType === 'yes' ? getYESProbability(strategy) : getNOProbability(strategy);
+}
+
+/**
+ * vUSDC paid per YES token for a 1 vUSDC buy (includes fee)
+ */
+export function getYESPriceInVUSDC(strategy: MarketStrategy): number {
+  const { vUSDCReserve, yesReserve, feeBps } = getPool(strategy);
+  return getYESPriceInVUSD(vUSDCReserve, yesReserve, feeBps);
+}
+
+/**
+ * vUSDC paid per NO token via the router's mint-and-sell path (includes fee)
+ */
+export function getNOPriceInVUSDC(strategy: MarketStrategy): number {
+  const { vUSDCReserve, yesReserve, feeBps } = getPool(strategy);
+  return getNOPriceInVUSD(vUSDCReserve, yesReserve, feeBps);
+}
+
+/**
+ * YES tokens received for vUSDC, without touching the pool
+ */
+export function estimateYESForVUSDC(strategy: MarketStrategy, vUSDCIn: number): number {
+  const { vUSDCReserve, yesReserve, feeBps } = getPool(strategy);
+  return calculateYESForVUSDSwap(vUSDCIn, vUSDCReserve, yesReserve, feeBps);
+}
+
+/**
+ * vUSDC received for YES tokens, without touching the pool
+ */
+export function estimateVUSDCForYES(strategy: MarketStrategy, yesIn: number): number {
+  const { vUSDCReserve, yesReserve, feeBps } = getPool(strategy);
+  return calculateVUSDForYESSwap(yesIn, vUSDCReserve, yesReserve, feeBps);
+}
+
+/**
+ * vUSDC needed to buy an exact amount of YES, without touching the pool (Infinity if the pool can't provide it)
+ */
+export function estimateVUSDCForExactYES(strategy: MarketStrategy, yesOut: number): number {
+  const { vUSDCReserve, yesReserve, feeBps } = getPool(strategy);
+  return calculateVUSDForExactYESSwap(yesOut, vUSDCReserve, yesReserve, feeBps);
+}
+
+/**
+ * Buy YES with vUSDC, updating the pool. Returns YES tokens out
+ */
+export function swapVUSDCForYES(strategy: MarketStrategy, vUSDCIn: number): number {
+  const yesOut = estimateYESForVUSDC(strategy, vUSDCIn);
+  if (yesOut <= 0) return 0;
+  const pool = getPool(strategy);
+  setPoolReserves(strategy, pool.vUSDCReserve + vUSDCIn, pool.yesReserve - yesOut);
+  return yesOut;
+}
+
+/**
+ * Sell YES for vUSDC, updating the pool. Returns vUSDC out
+ */
+export function swapYESForVUSDC(strategy: MarketStrategy, yesIn: number): number {
+  const vUSDCOut = estimateVUSDCForYES(strategy, yesIn);
+  if (vUSDCOut <= 0) return 0;
+  const pool = getPool(strategy);
+  setPoolReserves(strategy, pool.vUSDCReserve - vUSDCOut, pool.yesReserve + yesIn);
+  return vUSDCOut;
+}
+
+/**
+ * Router buyNO: vUSDCIn mints vUSDCIn YES+NO pairs and the YES half is sold into the pool
+ * Returns NO tokens out and the vUSDC refunded from the YES sale
+ */
+export function buyNO(strategy: MarketStrategy, vUSDCIn: number): { noOut: number; vUSDCRefund: number } {
+  if (vUSDCIn <= 0) return { noOut: 0, vUSDCRefund: 0 };
+  return { noOut: vUSDCIn, vUSDCRefund: swapYESForVUSDC(strategy, vUSDCIn) };
+}
+
+/**
+ * Router sellNO: matching YES is bought back from the pool and the pairs are burned
+ * Returns vUSDC paid out (0 and no pool change if the buy-back costs more than the pairs release)
+ */
+export function sellNO(strategy: MarketStrategy, noIn: number): number {
+  const cost = estimateVUSDCForExactYES(strategy, noIn);
+  if (noIn <= 0 || !Number.isFinite(cost) || cost >= noIn) return 0;
+  const pool = getPool(strategy);
+  setPoolReserves(strategy, pool.vUSDCReserve + cost, pool.yesReserve - noIn);
+  return noIn - cost;
+}
+
+/**
+ * Value token holdings at implied probability (YES + NO of one strategy sum to their quantity)
+ */
+export function getHoldingsValue(holdings: AgentTokenHoldings[], strategies: MarketStrategy[]): number {
+  return holdings.reduce((sum, holding) => {
+    const strategy = strategies.find(s => s.id === holding.strategyId);
+    if (!strategy) return sum;
+    return sum + holding.quantity * getOutcomeProbability(strategy, holding.tokenType);
+  }, 0);
+}
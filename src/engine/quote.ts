@@ -0,0 +1,102 @@
+import type { MarketStrategy } from '../core/types';
+import { config } from '../core/config';
+import {
+  getPool,
+  getYESPriceInVUSDC,
+  getNOPriceInVUSDC,
+  estimateYESForVUSDC,
+  estimateVUSDCForYES,
+  estimateVUSDCForExactYES,
+} from './pricing';
+
+const BPS_DENOMINATOR = 10000;
+
+export type SwapSide = 'buy' | 'sell';
+export type SwapOutcome = 'yes' | 'no';
+
+export interface SwapQuote {
+  proposalId: string;
+  side: SwapSide; // buy = vUSDC -> outcome token, sell = outcome token -> vUSDC
+  outcome: SwapOutcome;
+  tokenIn: 'vUSDC' | 'YES' | 'NO';
+  tokenOut: 'vUSDC' | 'YES' | 'NO';
+  amountIn: number;
+  expectedOut: number;
+  vUSDCRefund?: number; // NO buys only: vUSDC returned from selling the minted YES half
+  effectivePrice: number; // vUSDC per outcome token actually paid/received
+  spotPrice: number; // vUSDC per outcome token before the swap (getYESPriceInVUSDC / getNOPriceInVUSDC)
+  priceImpact: number; // Fraction by which effectivePrice is worse than spotPrice
+  fee: number; // Fee paid, in vUSDC (or YES for YES sells)
+  slippageBps: number;
+  minOut: number; // Router minAmountOut: expected output (the refund for NO buys) reduced by slippageBps
+}
+
+/**
+ * Quote a swap against a strategy's local pool mirror (same formula and fee as VerdictSimpleAMM)
+ * NO quotes follow the router's buyNO/sellNO mint-and-swap path
+ */
+export function quoteSwap(
+  strategy: MarketStrategy,
+  side: SwapSide,
+  amountIn: number,
+  slippageBps: number = config.quote.slippageBps,
+  outcome: SwapOutcome = 'yes'
+): SwapQuote {
+  const SWAP_FEE_BPS = getPool(strategy).feeBps;
+  const withSlippage = (amount: number) => (amount * (BPS_DENOMINATOR - slippageBps)) / BPS_DENOMINATOR;
+
+  let expectedOut: number;
+  let effectivePrice = 0;
+  let fee: number;
+  let routerOut: number;
+  let vUSDCRefund: number | undefined;
+  const spotPrice = outcome === 'yes' ? getYESPriceInVUSDC(strategy) : getNOPriceInVUSDC(strategy);
+
+  if (outcome === 'yes' && side === 'buy') {
+    expectedOut = estimateYESForVUSDC(strategy, amountIn);
+    effectivePrice = expectedOut > 0 ? amountIn / expectedOut : 0;
+    fee = (amountIn * SWAP_FEE_BPS) / BPS_DENOMINATOR;
+    routerOut = expectedOut;
+  } else if (outcome === 'yes') {
+    expectedOut = estimateVUSDCForYES(strategy, amountIn);
+    effectivePrice = amountIn > 0 ? expectedOut / amountIn : 0;
+    fee = (amountIn * SWAP_FEE_BPS) / BPS_DENOMINATOR;
+    routerOut = expectedOut;
+  } else if (side === 'buy') {
+    // amountIn vUSDC mints amountIn YES+NO pairs, the YES half is sold back into the pool
+    vUSDCRefund = estimateVUSDCForYES(strategy, amountIn);
+    expectedOut = amountIn;
+    effectivePrice = amountIn > 0 ? (amountIn - vUSDCRefund) / amountIn : 0;
+    fee = (vUSDCRefund * SWAP_FEE_BPS) / (BPS_DENOMINATOR - SWAP_FEE_BPS);
+    routerOut = vUSDCRefund;
+  } else {
+    // Matching YES is bought back from the pool, the rest of the pairs' collateral is paid out
+    const cost = estimateVUSDCForExactYES(strategy, amountIn);
+    expectedOut = Math.max(0, amountIn - cost);
+    effectivePrice = amountIn > 0 ? expectedOut / amountIn : 0;
+    fee = Number.isFinite(cost) ? (cost * SWAP_FEE_BPS) / BPS_DENOMINATOR : 0;
+    routerOut = expectedOut;
+  }
+
+  const priceImpact = spotPrice > 0
+    ? (side === 'buy' ? effectivePrice / spotPrice - 1 : 1 - effectivePrice / spotPrice)
+    : 0;
+  const tokenLabel = outcome === 'yes' ? 'YES' : 'NO';
+
+  return {
+    proposalId: strategy.id,
+    side,
+    outcome,
+    tokenIn: side === 'buy' ? 'vUSDC' : tokenLabel,
+    tokenOut: side === 'buy' ? tokenLabel : 'vUSDC',
+    amountIn,
+    expectedOut,
+    ...(vUSDCRefund !== undefined ? { vUSDCRefund } : {}),
+    effectivePrice,
+    spotPrice,
+    priceImpact: effectivePrice > 0 ? Math.max(0, priceImpact) : 0,
+    fee,
+    slippageBps,
+    minOut: withSlippage(routerOut),
+  };
+}
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, expect, spyOn, test } from 'bun:test';
+import { confirmResolution, resolveDueProposals, resolveProposal } from './resolution';
+import { config } from '../core/config';
+import { getGraduatedProposals, graduateProposal } from '../core/db';
+import { createStorage, setStorage } from '../core/storage';
+import { createTestStrategy } from '../test/fixtures';
+
+// Live DIA values by ticker; tickers left out fail to fetch and fall back to the cached snapshot
+let live: Record<string, number> = {};
+const requested: string[] = [];
+let fetchSpy: ReturnType<typeof spyOn<typeof globalThis, 'fetch'>>;
+
+beforeEach(() => {
+  setStorage(createStorage('memory'));
+  live = { SPY: 710, QQQ: 540 };
+  requested.length = 0;
+  fetchSpy = spyOn(globalThis, 'fetch').mockImplementation((async (input: string | URL | Request) => {
+    const ticker = String(input).split('/').pop()!;
+    requested.push(ticker);
+    if (live[ticker] === undefined) throw new Error('offline');
+    return Response.json({ Ticker: ticker, Name: ticker, Price: live[ticker], Timestamp: '2026-10-19T00:00:00Z' });
+  }) as unknown as typeof fetch);
+});
+
+afterEach(() => {
+  fetchSpy.mockRestore();
+});
+
+function proposal(resolutionDeadline: number) {
+  return createTestStrategy({
+    evaluationLogic: '(SPY > 700 AND QQQ > 550)',
+    mathematicalLogic: 'asset1_price > 700 AND asset2_price > 550',
+    usedDataSources: [
+      { id: 12245, currentValue: 690, targetValue: 700, operator: '>' },
+      { id: 12249, currentValue: 540, targetValue: 550, operator: '>' },
+    ],
+    resolutionDeadline,
+  });
+}
+
+test('placeholders bind to usedDataSources by position', async () => {
+  const strategy = { ...proposal(Date.now()), mathematicalLogic: 'asset2_price < 550' };
+
+  const resolution = await resolveProposal(strategy);
+
+  expect(requested).toEqual(['QQQ']);
+  expect(resolution?.outcome).toBe(true);
+  expect(resolution?.observedValues).toEqual([{ id: 12249, ticker: 'QQQ', value: 540, timestamp: '2026-10-19T00:00:00Z' }]);
+});
+
+test('tickers in evaluationLogic are used when placeholders can not be bound', async () => {
+  const resolution = await resolveProposal({ ...proposal(Date.now()), usedDataSources: [] });
+
+  expect(requested.sort()).toEqual(['QQQ', 'SPY']);
+  expect(resolution?.outcome).toBe(false);
+});
+
+test('cached snapshots never resolve a proposal', async () => {
+  delete live.QQQ;
+
+  expect(await resolveProposal(proposal(Date.now()))).toBeNull();
+});
+
+test('observations within the max lag are final', async () => {
+  graduateProposal(proposal(Date.now() - 1000));
+
+  expect(await resolveDueProposals()).toBe(1);
+  const [resolved] = getGraduatedProposals();
+  expect(resolved?.resolution).toMatchObject({ outcome: false, late: false });
+  expect(resolved?.pendingResolution).toBeUndefined();
+});
+
+test('late observations wait for admin confirmation', async () => {
+  graduateProposal(proposal(Date.now() - config.resolution.maxLagMs - 60_000));
+
+  expect(await resolveDueProposals()).toBe(0);
+  const [pending] = getGraduatedProposals();
+  expect(pending?.resolution).toBeUndefined();
+  expect(pending?.pendingResolution).toMatchObject({ outcome: false, late: true });
+
+  // Not observed again while pending
+  expect(await resolveDueProposals()).toBe(0);
+  expect(requested).toHaveLength(2);
+
+  const confirmed = await confirmResolution(pending!.id, true);
+  expect(confirmed).toMatchObject({ outcome: true, late: true });
+  expect(confirmed?.confirmedAt).toBeNumber();
+  expect(getGraduatedProposals()[0]?.pendingResolution).toBeUndefined();
+  expect(await confirmResolution(pending!.id)).toBeNull();
+});
@@ -0,0 +1,197 @@
+import type { MarketStrategy, ProposalResolution } from '../core/types';
+import { log } from '../core/logger';
+import { config } from '../core/config';
+import { getDataSourceById, getDataSourceByTicker, type DataSource } from '../llm/dataSources';
+import { parseLogic, collectOperands, evaluateLogic, type LogicNode, type AssetOperand } from './logic';
+
+let resolutionInterval: ReturnType<typeof setInterval> | null = null;
+let deadlineTimer: ReturnType<typeof setTimeout> | null = null;
+let isResolving = false;
+
+/**
+ * Map a parsed operand (ticker or assetN_price) to its data source
+ */
+function bindOperand(operand: AssetOperand, strategy: MarketStrategy): DataSource | undefined {
+  if (operand.type === 'asset') {
+    const used = strategy.usedDataSources[operand.index];
+    return used ? getDataSourceById(used.id) : undefined;
+  }
+  return getDataSourceByTicker(operand.ticker);
+}
+
+/**
+ * Parse a proposal's logic with every operand bound to a data source.
+ * mathematicalLogic is preferred; evaluationLogic is used when placeholders can't be bound
+ * (e.g. proposals hydrated from chain without usedDataSources).
+ */
+function bindProposalLogic(strategy: MarketStrategy): { ast: LogicNode; sourceFor: (operand: AssetOperand) => DataSource } | null {
+  for (const logic of [strategy.mathematicalLogic, strategy.evaluationLogic]) {
+    let ast: LogicNode;
+    try {
+      ast = parseLogic(logic || '');
+    } catch {
+      continue;
+    }
+
+    if (collectOperands(ast).every(operand => bindOperand(operand, strategy))) {
+      return { ast, sourceFor: operand => bindOperand(operand, strategy)! };
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve a single graduated proposal against live DIA and API Ninjas values.
+ * Neither source serves historical values, so the values observed now stand in for the deadline;
+ * the lag is recorded and observations beyond config.resolution.maxLagMs are flagged late
+ * (resolveDueProposals holds those back for admin confirmation).
+ * Returns null if the logic can't be parsed or any live value is unavailable (retried later).
+ */
+export async function resolveProposal(strategy: MarketStrategy): Promise<ProposalResolution | null> {
+  const bound = bindProposalLogic(strategy);
+  if (!bound) {
+    log('Resolution', `Unable to parse logic for ${strategy.id}: "${strategy.mathematicalLogic}"`, 'warn');
+    return null;
+  }
+
+  const tickers = [...new Set(collectOperands(bound.ast).map(operand => bound.sourceFor(operand).ticker))];
+  const { fetchDataSourceBatch } = await import('../llm/tools');
+  const results = await fetchDataSourceBatch(tickers);
+
+  const observedValues: ProposalResolution['observedValues'] = [];
+  for (const [i, ticker] of tickers.entries()) {
+    const ds = getDataSourceByTicker(ticker)!;
+    const result = results[i];
+    // Cached prices are static snapshots, never resolve against them
+    if (!result || result.source !== 'live' || typeof result.price !== 'number') {
+      log('Resolution', `Live value for ${ticker} unavailable, deferring resolution of ${strategy.id}`, 'warn');
+      return null;
+    }
+    observedValues.push({ id: ds.id, ticker, value: result.price, timestamp: result.lastUpdated });
+  }
+
+  const outcome = evaluateLogic(bound.ast, operand => {
+    const ticker = bound.sourceFor(operand).ticker;
+    return observedValues.find(v => v.ticker === ticker)!.value;
+  });
+
+  const resolvedAt = Date.now();
+  const observationLagMs = Math.max(0, resolvedAt - strategy.resolutionDeadline);
+  const late = observationLagMs > config.resolution.maxLagMs;
+  if (late) {
+    log('Resolution', `${strategy.id} observed ${Math.round(observationLagMs / 60000)} min after its deadline, flagged late`, 'warn');
+  }
+
+  return { outcome, observedValues, resolvedAt, observationLagMs, late };
+}
+
+/**
+ * Resolve every graduated proposal whose resolutionDeadline has passed.
+ * Late observations are stored as pendingResolution instead and no longer re-observed (later values would only
+ * be further from the deadline); they count as resolved once confirmResolution accepts them
+ */
+export async function resolveDueProposals(now: number = Date.now()): Promise<number> {
+  if (isResolving) return 0;
+  isResolving = true;
+
+  let resolvedCount = 0;
+  try {
+    const { getGraduatedProposals, updateGraduatedProposal } = await import('../core/db');
+    const due = getGraduatedProposals().filter(p => !p.resolution && !p.pendingResolution && p.resolutionDeadline <= now);
+
+    for (const proposal of due) {
+      const resolution = await resolveProposal(proposal);
+      if (!resolution) continue;
+
+      if (resolution.late) {
+        proposal.pendingResolution = resolution;
+        updateGraduatedProposal(proposal);
+        log('Resolution', `${proposal.name} would resolve ${resolution.outcome ? 'TRUE' : 'FALSE'} from a late observation, awaiting admin confirmation`, 'warn');
+        continue;
+      }
+
+      proposal.resolution = resolution;
+      updateGraduatedProposal(proposal);
+      resolvedCount++;
+
+      const observed = resolution.observedValues.map(v => `${v.ticker}=${v.value}`).join(', ');
+      log('Resolution', `${proposal.name} resolved ${resolution.outcome ? 'TRUE' : 'FALSE'} (${observed})`);
+    }
+  } catch (error) {
+    log('Resolution', `Resolution check failed: ${error instanceof Error ? error.message : error}`, 'error');
+  } finally {
+    isResolving = false;
+  }
+
+  return resolvedCount;
+}
+
+/**
+ * Accept a late observation held back by resolveDueProposals, optionally overriding its outcome
+ * (e.g. with the value at the deadline from another source). Returns null if the proposal has none pending
+ */
+export async function confirmResolution(proposalId: string, outcome?: boolean): Promise<ProposalResolution | null> {
+  const { getGraduatedProposals, updateGraduatedProposal } = await import('../core/db');
+  const proposal = getGraduatedProposals().find(p => p.id === proposalId);
+  const pending = proposal?.pendingResolution;
+  if (!proposal || !pending) return null;
+
+  proposal.resolution = { ...pending, outcome: outcome ?? pending.outcome, confirmedAt: Date.now() };
+  delete proposal.pendingResolution;
+  updateGraduatedProposal(proposal);
+  log('Resolution', `${proposal.name} resolved ${proposal.resolution.outcome ? 'TRUE' : 'FALSE'} (late observation confirmed by admin)`);
+  return proposal.resolution;
+}
+
+/**
+ * Wake up at the next deadline that falls before the next periodic check, so values are observed right after it
+ */
+async function scheduleNextDeadline(): Promise<void> {
+  if (deadlineTimer) clearTimeout(deadlineTimer);
+  deadlineTimer = null;
+  if (!resolutionInterval) return;
+
+  try {
+    const { getGraduatedProposals } = await import('../core/db');
+    const now = Date.now();
+    const next = Math.min(...getGraduatedProposals()
+      .filter(p => !p.resolution && p.resolutionDeadline > now)
+      .map(p => p.resolutionDeadline));
+    if (next - now < config.resolution.checkInterval) {
+      deadlineTimer = setTimeout(() => runResolutionPass(), next - now);
+    }
+  } catch (error) {
+    log('Resolution', `Failed to schedule the next deadline: ${error instanceof Error ? error.message : error}`, 'warn');
+  }
+}
+
+async function runResolutionPass(): Promise<void> {
+  await resolveDueProposals();
+  await scheduleNextDeadline();
+}
+
+/**
+ * Periodically resolve graduated proposals past their deadline (starting with a pass for overdue ones)
+ */
+export function startResolutionLoop(): void {
+  if (resolutionInterval) return;
+  resolutionInterval = setInterval(() => {
+    runResolutionPass();
+  }, config.resolution.checkInterval);
+  log('Resolution', `Resolution loop started (every ${config.resolution.checkInterval / 1000}s)`);
+  runResolutionPass();
+}
+
+/**
+ * Stop the resolution loop
+ */
+export function stopResolutionLoop(): void {
+  if (resolutionInterval) {
+    clearInterval(resolutionInterval);
+    resolutionInterval = null;
+  }
+  if (deadlineTimer) {
+    clearTimeout(deadlineTimer);
+    deadlineTimer = null;
+  }
+}
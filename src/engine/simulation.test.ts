@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, expect, spyOn, test } from 'bun:test';
+import { resetSimulation } from '../blockchain/simulation';
+import { initBlockchain } from '../blockchain';
+import { setSimulationMode } from '../core/config';
+import { setStorage, createStorage } from '../core/storage';
+import { initializeMarket, generateAndSetStrategies } from './market';
+import { generateAndSetAgents } from '../agents';
+import { processTradingRound, waitForBetweenRounds } from './trading';
+import { getRound, getRoundTrades } from '../core/db';
+import type { Agent } from '../core/types';
+
+const TICK_MS = 5000;
+const MAX_TICKS = 100;
+
+// Drive the clock by hand so timestamps, proposal ids and trade delays are the same on every run
+let clock = 0;
+let dateNow: ReturnType<typeof spyOn<typeof Date, 'now'>>;
+let timeout: ReturnType<typeof spyOn<typeof globalThis, 'setTimeout'>>;
+
+beforeAll(async () => {
+  dateNow = spyOn(Date, 'now').mockImplementation(() => clock);
+  timeout = spyOn(globalThis, 'setTimeout').mockImplementation(((handler: () => void) => {
+    handler();
+    return 0;
+  }) as unknown as typeof setTimeout);
+  setSimulationMode(true);
+  expect(await initBlockchain()).toBe(true);
+});
+
+afterAll(() => {
+  setSimulationMode(false);
+  dateNow.mockRestore();
+  timeout.mockRestore();
+});
+
+/**
+ * Play one seeded round to completion on a fresh simulated chain and return its archived trades and agent results
+ */
+async function runSeededRound(seed: number) {
+  clock = Date.UTC(2026, 0, 1);
+  resetSimulation(seed);
+  setStorage(createStorage('memory'));
+
+  const marketState = initializeMarket();
+  const agents: Agent[] = [];
+  await generateAndSetStrategies(marketState);
+  await generateAndSetAgents(agents, { 'yes-no': 3, twap: 1, momentum: 1, 'mean-reversion': 1 }, 6);
+
+  const roundNumber = marketState.roundNumber;
+  marketState.roundStartTime = clock;
+  marketState.roundEndTime = clock + marketState.roundDuration;
+  marketState.isExecutingTrades = true;
+
+  for (let tick = 0; tick < MAX_TICKS && marketState.roundStartTime !== 0; tick++) {
+    clock += TICK_MS;
+    await processTradingRound(marketState, agents, { id: null });
+    // Queued trades run detached from the tick; let the batch drain before moving the clock
+    while (marketState.isExecutingTradeBatch) {
+      await Promise.resolve();
+    }
+  }
+  await waitForBetweenRounds();
+
+  expect(marketState.roundStartTime).toBe(0);
+  return {
+    trades: getRoundTrades(roundNumber),
+    agentResults: getRound(roundNumber)?.agentResults,
+  };
+}
+
+test('seeded simulation rounds replay identical trades and PnL', async () => {
+  const first = await runSeededRound(42);
+  const second = await runSeededRound(42);
+
+  expect(first.trades.length).toBeGreaterThan(0);
+  expect(first.agentResults?.length).toBe(6);
+  expect(second.trades).toEqual(first.trades);
+  expect(second.agentResults).toEqual(first.agentResults);
+});
@@ -0,0 +1,57 @@
+import { beforeEach, expect, test } from 'bun:test';
+import { sizeOrder, type SizingRequest } from './sizing';
+import { initializeMarket } from './market';
+import { getNOPriceInVUSDC, getYESPriceInVUSDC, setPoolReserves } from './pricing';
+import { createStorage, setStorage } from '../core/storage';
+import { createTestAgent, createTestStrategy } from '../test/fixtures';
+
+beforeEach(() => {
+  setStorage(createStorage('memory'));
+});
+
+function request(side: SizingRequest['side'], tokenType: SizingRequest['tokenType'], probability: number): SizingRequest {
+  const marketStrategy = createTestStrategy();
+  return {
+    agent: createTestAgent(),
+    market: { ...initializeMarket(), strategies: [marketStrategy] },
+    marketStrategy,
+    side,
+    tokenType,
+    probability,
+  };
+}
+
+test('buys are never sized when a token costs 1 vUSDC or more', () => {
+  const buy = request('buy', 'yes', 0.9);
+
+  // A balanced pool prices YES at 0.5 implied probability but charges over 1 vUSDC per token
+  expect(getYESPriceInVUSDC(buy.marketStrategy)).toBeGreaterThanOrEqual(1);
+  expect(sizeOrder(buy)).toBe(0);
+});
+
+test('the edge is measured against the fill cost, not the implied probability', () => {
+  const buy = request('buy', 'yes', 0.4);
+  setPoolReserves(buy.marketStrategy, 1000, 3000);
+  const cost = getYESPriceInVUSDC(buy.marketStrategy);
+
+  // Implied probability is 0.25, but each YES costs about a third of a vUSDC
+  expect(cost).toBeGreaterThan(0.33);
+  expect(sizeOrder(buy)).toBeGreaterThan(0);
+  expect(sizeOrder({ ...buy, probability: cost })).toBe(0);
+});
+
+test('NO buys are priced at the mint-and-sell cost', () => {
+  const buy = request('buy', 'no', 0.5);
+  const cost = getNOPriceInVUSDC(buy.marketStrategy);
+
+  expect(sizeOrder(buy)).toBeGreaterThan(0);
+  expect(sizeOrder({ ...buy, probability: cost })).toBe(0);
+});
+
+test('sells exit the whole position once the edge is gone', () => {
+  const sell = request('sell', 'yes', 0.2);
+  setPoolReserves(sell.marketStrategy, 1000, 3000);
+  sell.agent.tokenHoldings = [{ strategyId: sell.marketStrategy.id, tokenType: 'yes', quantity: 40 }];
+
+  expect(sizeOrder(sell)).toBe(40);
+});
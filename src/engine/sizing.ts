@@ -0,0 +1,91 @@
+// Position sizing shared by all agent strategies and the LLM validator:
+// fractional Kelly on the agent's edge, capped by a per-risk-tolerance exposure budget and scaled down late in the round
+import type { Agent, AgentPersonality, MarketState, MarketStrategy } from '../core/types';
+import { getAgentTokenHoldings } from '../agents';
+import { getYESPriceInVUSDC, getNOPriceInVUSDC, getHoldingsValue, estimateYESForVUSDC } from './pricing';
+import { quoteSwap } from './quote';
+
+// Share of the full Kelly fraction an agent bets, before aggressiveness
+const KELLY_MULTIPLIER: Record<AgentPersonality['riskTolerance'], number> = {
+  low: 0.25,
+  medium: 0.5,
+  high: 1,
+};
+
+// Max share of equity (vUSD + holdings) held in outcome tokens
+const MAX_EXPOSURE: Record<AgentPersonality['riskTolerance'], number> = {
+  low: 0.4,
+  medium: 0.6,
+  high: 0.85,
+};
+
+const MIN_TIME_FACTOR = 0.25; // Floor of the late-round size reduction
+
+// Edge assumed when a caller has no model probability of its own (strategy kickstarts, LLM orders without one)
+export const DEFAULT_MODEL_EDGE = 0.05;
+
+export interface SizingRequest {
+  agent: Agent;
+  market: MarketState;
+  marketStrategy: MarketStrategy;
+  side: 'buy' | 'sell';
+  tokenType: 'yes' | 'no';
+  probability: number; // Model probability that the token pays out (YES: the proposal graduates)
+  scale?: number; // Strategy multiplier on the resulting size (0-1)
+}
+
+/**
+ * Share of the round left, floored so late orders are reduced rather than blocked (1 outside a running round)
+ */
+function getTimeFactor(market: MarketState): number {
+  if (market.roundEndTime <= 0 || market.roundDuration <= 0) return 1;
+  const remaining = market.roundEndTime - Date.now();
+  return Math.min(1, Math.max(MIN_TIME_FACTOR, remaining / market.roundDuration));
+}
+
+/**
+ * vUSDC per token a fill actually costs (buys: fee-inclusive, NO via mint-and-sell) or returns (sells: one token's quote)
+ */
+function getFillPrice(marketStrategy: MarketStrategy, side: 'buy' | 'sell', tokenType: 'yes' | 'no'): number {
+  if (side === 'sell') return quoteSwap(marketStrategy, 'sell', 1, 0, tokenType).effectivePrice;
+  return tokenType === 'yes' ? getYESPriceInVUSDC(marketStrategy) : getNOPriceInVUSDC(marketStrategy);
+}
+
+/**
+ * Order size in whole tokens (0 = don't trade)
+ * Buys move the position toward its Kelly target, bounded by the exposure budget and vUSD;
+ * sells trim whatever exceeds the target (all of it once the edge is gone), bounded by holdings.
+ * Priced at the per-token fill cost: a token settles at 1 at most, so buys costing 1 or more are never sized
+ */
+export function sizeOrder(request: SizingRequest): number {
+  const { agent, market, marketStrategy, side, tokenType, scale = 1 } = request;
+  const { riskTolerance, aggressiveness } = agent.personality;
+  const price = getFillPrice(marketStrategy, side, tokenType);
+  const probability = Math.min(1, Math.max(0, request.probability));
+  const holdings = getAgentTokenHoldings(agent, marketStrategy.id, tokenType);
+  if (price <= 0) return 0;
+  if (price >= 1) return side === 'sell' ? Math.floor(holdings * Math.min(1, scale)) : 0;
+
+  const exposure = getHoldingsValue(agent.tokenHoldings, market.strategies);
+  const equity = agent.vUSD + exposure;
+
+  // Kelly fraction for a binary token filled at price p that pays 1 with probability q: (q - p) / (1 - p)
+  const kelly = Math.max(0, (probability - price) / (1 - price));
+  const targetValue = kelly * KELLY_MULTIPLIER[riskTolerance] * aggressiveness * equity * getTimeFactor(market);
+  const currentValue = holdings * price;
+
+  if (side === 'sell') {
+    const excessTokens = (currentValue - targetValue) / price;
+    return Math.floor(Math.min(holdings, Math.max(0, excessTokens * scale)));
+  }
+
+  const exposureBudget = MAX_EXPOSURE[riskTolerance] * equity - exposure;
+  const vUSDToSpend = Math.min(targetValue - currentValue, exposureBudget, agent.vUSD) * scale;
+  if (vUSDToSpend <= 0) return 0;
+
+  if (tokenType === 'yes') {
+    return Math.floor(estimateYESForVUSDC(marketStrategy, vUSDToSpend));
+  }
+  // buyNO locks 1 vUSD per NO token before the YES half is refunded
+  return Math.floor(Math.min(vUSDToSpend / price, agent.vUSD));
+}
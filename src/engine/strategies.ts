@@ -1,8 +1,44 @@
-import type { Agent, MarketState, MarketStrategy, TradeDecision } from '../core/types';
-import { getYESPrice, getNOPrice, calculateYESForVUSD, calculateNOForVUSD } from './amm';
-import { getAgentTokenHoldings, selectStrategyForAgent } from '../agents';
+import type {
+  Agent,
+  MarketState,
+  MarketStrategy,
+  StrategyConfig,
+  StrategyConfigSchema,
+  StrategyDefinition,
+  StrategyMix,
+  StrategyType,
+  TradeDecision,
+} from '../core/types';
+import { config as appConfig } from '../core/config';
+import { getYESProbability } from './pricing';
+import { sizeOrder, DEFAULT_MODEL_EDGE } from './sizing';
+import { log } from '../core/logger';
+import { getAgentTokenHoldings } from '../agents';
+import { constrainOrders, planRebalance } from './portfolio';
 import { callLLMForYesNoStrategy } from '../llm';
 
+const TWAP_CONFIG_SCHEMA: StrategyConfigSchema = {
+  deviationThreshold: { type: 'number', default: 0.01, min: 0, max: 1, description: 'Relative distance from TWAP that triggers a trade' },
+  tradeFraction: { type: 'number', default: 0.5, min: 0, max: 1, description: 'Multiplier on the Kelly-sized order per signal' },
+};
+
+const MOMENTUM_CONFIG_SCHEMA: StrategyConfigSchema = {
+  lookback: { type: 'number', default: 5, min: 2, max: 100, description: 'Number of recent price points the momentum is measured over' },
+  threshold: { type: 'number', default: 0.02, min: 0, max: 1, description: 'Relative price change that counts as momentum' },
+};
+
+const MEAN_REVERSION_CONFIG_SCHEMA: StrategyConfigSchema = {
+  zScoreThreshold: { type: 'number', default: 1.5, min: 0, max: 10, description: 'Z-score beyond which the price is considered over/undervalued' },
+  tradeFraction: { type: 'number', default: 0.7, min: 0, max: 1, description: 'Multiplier on the Kelly-sized order per signal' },
+};
+
+/**
+ * Defaults of a strategy config schema
+ */
+export function getDefaultStrategyConfig(schema: StrategyConfigSchema): StrategyConfig {
+  return Object.fromEntries(Object.entries(schema).map(([key, param]) => [key, param.default]));
+}
+
 /**
  * Fallback yes-no strategy
  * Note: agent.vUSD is synced from blockchain before this function is called (in processTradingRound)
@@ -13,13 +49,13 @@ export function executeYesNoStrategyFallback(
   marketStrategy: MarketStrategy
 ): TradeDecision {
   const { personality } = agent;
-  // Get YES price
-  const yesPrice = getYESPrice(marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve);
+  // Implied YES probability from the pool
+  const yesPrice = getYESProbability(marketStrategy);
 
-  // We strictly trade YES tokens.
-  const tokenType = 'yes';
+  // Signals come from the YES price; NO tokens are used to short overvalued proposals
   const tokenHistory = marketStrategy.yesToken.history;
   const holdings = getAgentTokenHoldings(agent, marketStrategy.id, 'yes');
+  const noHoldings = getAgentTokenHoldings(agent, marketStrategy.id, 'no');
   
   // agent.vUSD contains the current blockchain balance (synced in processTradingRound)
 
@@ -33,35 +69,64 @@ export function executeYesNoStrategyFallback(
   const priceThreshold = tokenHistory.length < 5 ? 1.01 : 0.99;
   const shouldBuy = (holdings === 0 && yesPrice < 0.55) || yesPrice < avgPrice * priceThreshold;
   const shouldSell = yesPrice > avgPrice * 1.01 && holdings > 0;
+  // Cover: NO position once YES falls back below average
+  const shouldCover = noHoldings > 0 && yesPrice < avgPrice * 0.99;
+  // The average is the model probability; entries without a clear edge (kickstart, thin history) assume the default edge
+  const buyProbability = holdings === 0 || tokenHistory.length < 5 ? Math.max(avgPrice, yesPrice + DEFAULT_MODEL_EDGE) : avgPrice;
+  const size = (side: 'buy' | 'sell', tokenType: 'yes' | 'no', probability: number) =>
+    sizeOrder({ agent, market, marketStrategy, side, tokenType, probability });
+
+  const coverQuantity = shouldCover ? size('sell', 'no', 1 - avgPrice) : 0;
+  if (coverQuantity > 0) {
+    return {
+      agentId: agent.id,
+      action: 'sell',
+      strategyId: marketStrategy.id,
+      tokenType: 'no',
+      quantity: coverQuantity,
+      price: 1 - yesPrice,
+      reasoning: `I'm covering my short on ${marketStrategy.name} by selling NO tokens. The YES price of ${yesPrice.toFixed(4)} has fallen below the average of ${avgPrice.toFixed(4)}, so the overvaluation I was betting against has corrected and it's time to lock in the gain. ${personality.memo}`,
+    };
+  }
 
-  if (shouldBuy && agent.vUSD > 0) {
-    const vUSDToSpend = agent.vUSD * personality.aggressiveness;
-    // Calculate YES tokens we can buy
-    const quantity = Math.floor(calculateYESForVUSD(
-      vUSDToSpend,
-      marketStrategy.yesToken.tokenReserve,
-      marketStrategy.noToken.tokenReserve
-    ));
-
+  const buyQuantity = shouldBuy ? size('buy', 'yes', buyProbability) : 0;
+  if (buyQuantity > 0) {
     return {
       agentId: agent.id,
       action: 'buy',
       strategyId: marketStrategy.id,
       tokenType: 'yes',
-      quantity,
+      quantity: buyQuantity,
       price: yesPrice,
       reasoning: `I'm buying YES tokens for ${marketStrategy.name} because the current price of ${yesPrice.toFixed(4)} is below the average price of ${avgPrice.toFixed(4)}, indicating an undervalued opportunity. Based on my analysis, this represents a favorable entry point that aligns with my trading approach. ${personality.memo}`,
     };
   }
 
-  if (shouldSell && holdings > 0) {
-    const quantity = Math.floor(holdings * personality.aggressiveness);
+  // Short: overvalued with no YES to exit, or a kickstart that YES costs too much to take (costing 1 vUSDC or more)
+  const shouldShort = holdings === 0 && noHoldings === 0 && (tokenHistory.length >= 5 ? yesPrice > avgPrice * 1.01 : shouldBuy);
+  if (shouldShort) {
+    const quantity = size('buy', 'no', 1 - avgPrice);
+    if (quantity > 0) {
+      return {
+        agentId: agent.id,
+        action: 'buy',
+        strategyId: marketStrategy.id,
+        tokenType: 'no',
+        quantity,
+        price: 1 - yesPrice,
+        reasoning: `I'm shorting ${marketStrategy.name} by buying NO tokens. The YES price of ${yesPrice.toFixed(4)} is stretched above its average of ${avgPrice.toFixed(4)}, and I expect it to revert, which makes NO exposure attractive at ${(1 - yesPrice).toFixed(4)}. ${personality.memo}`,
+      };
+    }
+  }
+
+  const sellQuantity = shouldSell ? size('sell', 'yes', avgPrice) : 0;
+  if (sellQuantity > 0) {
     return {
       agentId: agent.id,
       action: 'sell',
       strategyId: marketStrategy.id,
       tokenType: 'yes',
-      quantity,
+      quantity: sellQuantity,
       price: yesPrice,
       reasoning: `I'm taking profits on ${marketStrategy.name} YES tokens at ${yesPrice.toFixed(4)}, which is above the average price of ${avgPrice.toFixed(4)}. This price action suggests the position has reached an overvalued level relative to historical patterns, making it an appropriate time to realize gains. ${personality.memo}`,
     };
@@ -98,10 +163,12 @@ export async function executeYesNoStrategy(
 export function executeTWAPStrategy(
   agent: Agent,
   market: MarketState,
-  marketStrategy: MarketStrategy
+  marketStrategy: MarketStrategy,
+  config: StrategyConfig = getDefaultStrategyConfig(TWAP_CONFIG_SCHEMA)
 ): TradeDecision {
+  const tradeFraction = config.tradeFraction as number;
   const { personality } = agent;
-  const yesPrice = getYESPrice(marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve);
+  const yesPrice = getYESProbability(marketStrategy);
   const yesTWAP = marketStrategy.yesToken.twap;
 
   // Calculate deviation for YES token
@@ -111,16 +178,12 @@ export function executeTWAPStrategy(
   // Buy if Price < TWAP (Negative deviation means Price < TWAP? No. 
   // (Price - TWAP)/TWAP. If Price < TWAP, numerator is negative. So deviation < 0 is Buy signal (Undervalued)).
 
-  const deviationThreshold = marketStrategy.yesToken.history.length < 5 ? 0.001 : 0.01;
+  const deviationThreshold = marketStrategy.yesToken.history.length < 5 ? 0.001 : config.deviationThreshold as number;
 
   // Bullish Loop (Buy YES)
-  if (deviation < -deviationThreshold && agent.vUSD > 0) {
-    const vUSDToSpend = agent.vUSD * personality.aggressiveness * 0.5;
-    const quantity = Math.floor(calculateYESForVUSD(
-      vUSDToSpend,
-      marketStrategy.yesToken.tokenReserve,
-      marketStrategy.noToken.tokenReserve
-    ));
+  // TWAP is the model probability
+  if (deviation < -deviationThreshold) {
+    const quantity = sizeOrder({ agent, market, marketStrategy, side: 'buy', tokenType: 'yes', probability: yesTWAP, scale: tradeFraction });
     if (quantity > 0) {
       return {
         agentId: agent.id,
@@ -136,7 +199,7 @@ export function executeTWAPStrategy(
 
   // Bearish Loop (Sell YES)
   if (deviation > deviationThreshold && holdings > 0) {
-    const quantity = Math.floor(holdings * personality.aggressiveness * 0.5);
+    const quantity = sizeOrder({ agent, market, marketStrategy, side: 'sell', tokenType: 'yes', probability: yesTWAP, scale: tradeFraction });
     if (quantity > 0) {
       return {
         agentId: agent.id,
@@ -151,9 +214,8 @@ export function executeTWAPStrategy(
   }
 
   // Initial kickstart
-  if (marketStrategy.yesToken.history.length < 3 && agent.vUSD > 0 && Math.abs(deviation) < 0.001) {
-    const vUSDToSpend = agent.vUSD * personality.aggressiveness * 0.2;
-    const quantity = Math.floor(calculateYESForVUSD(vUSDToSpend, marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve));
+  if (marketStrategy.yesToken.history.length < 3 && Math.abs(deviation) < 0.001) {
+    const quantity = sizeOrder({ agent, market, marketStrategy, side: 'buy', tokenType: 'yes', probability: yesPrice + DEFAULT_MODEL_EDGE, scale: 0.4 });
     if (quantity > 0) {
       return {
         agentId: agent.id,
@@ -184,29 +246,28 @@ export function executeTWAPStrategy(
 export function executeMomentumStrategy(
   agent: Agent,
   market: MarketState,
-  marketStrategy: MarketStrategy
+  marketStrategy: MarketStrategy,
+  config: StrategyConfig = getDefaultStrategyConfig(MOMENTUM_CONFIG_SCHEMA)
 ): TradeDecision {
   const { personality } = agent;
-  const yesPrice = getYESPrice(marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve);
-  const yesHistory = marketStrategy.yesToken.history.slice(-5);
+  const yesPrice = getYESProbability(marketStrategy);
+  const yesHistory = marketStrategy.yesToken.history.slice(-(config.lookback as number));
+  const threshold = config.threshold as number;
 
   // Initial / Kickstart logic
   if (yesHistory.length < 2) {
-    if (agent.vUSD > 0) {
-      // Just buy YES to start momentum
-      const vUSDToSpend = agent.vUSD * personality.aggressiveness * 0.3;
-      const quantity = Math.floor(calculateYESForVUSD(vUSDToSpend, marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve));
-      if (quantity > 0) {
-        return {
-          agentId: agent.id,
-          action: 'buy',
-          strategyId: marketStrategy.id,
-          tokenType: 'yes',
-          quantity,
-          price: yesPrice,
-          reasoning: `I'm making an initial momentum trade on YES tokens to establish a position. With limited price history available, I'm entering the market to begin tracking momentum patterns and build my trading position. ${personality.memo}`,
-        };
-      }
+    // Just buy YES to start momentum
+    const quantity = sizeOrder({ agent, market, marketStrategy, side: 'buy', tokenType: 'yes', probability: yesPrice + DEFAULT_MODEL_EDGE, scale: 0.3 });
+    if (quantity > 0) {
+      return {
+        agentId: agent.id,
+        action: 'buy',
+        strategyId: marketStrategy.id,
+        tokenType: 'yes',
+        quantity,
+        price: yesPrice,
+        reasoning: `I'm making an initial momentum trade on YES tokens to establish a position. With limited price history available, I'm entering the market to begin tracking momentum patterns and build my trading position. ${personality.memo}`,
+      };
     }
     return {
       agentId: agent.id,
@@ -228,31 +289,36 @@ export function executeMomentumStrategy(
 
   const momentum = (yesLast.price - yesFirst.price) / yesFirst.price;
   const holdings = getAgentTokenHoldings(agent, marketStrategy.id, 'yes');
+  // Model probability: the trend extrapolated one more window
+  const trendProbability = yesPrice * (1 + momentum);
 
   // Strong upward momentum -> buy YES
-  if (momentum > 0.02 && agent.vUSD > 0) {
-    const vUSDToSpend = agent.vUSD * personality.aggressiveness;
-    const quantity = Math.floor(calculateYESForVUSD(vUSDToSpend, marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve));
+  const buyQuantity = momentum > threshold
+    ? sizeOrder({ agent, market, marketStrategy, side: 'buy', tokenType: 'yes', probability: trendProbability })
+    : 0;
+  if (buyQuantity > 0) {
     return {
       agentId: agent.id,
       action: 'buy',
       strategyId: marketStrategy.id,
       tokenType: 'yes',
-      quantity,
+      quantity: buyQuantity,
       price: yesPrice,
       reasoning: `I'm buying YES tokens because I've detected strong upward momentum of ${(momentum * 100).toFixed(2)}% in the price action. This positive momentum indicates a favorable trend that aligns with my trading strategy of following market movements. I'm capitalizing on this trend to position myself for potential gains. ${personality.memo}`,
     };
   }
 
   // Strong downward momentum -> sell YES
-  if (momentum < -0.02 && holdings > 0) {
-    const quantity = Math.floor(holdings * personality.aggressiveness);
+  const sellQuantity = momentum < -threshold && holdings > 0
+    ? sizeOrder({ agent, market, marketStrategy, side: 'sell', tokenType: 'yes', probability: trendProbability })
+    : 0;
+  if (sellQuantity > 0) {
     return {
       agentId: agent.id,
       action: 'sell',
       strategyId: marketStrategy.id,
       tokenType: 'yes',
-      quantity,
+      quantity: sellQuantity,
       price: yesPrice,
       reasoning: `I'm selling YES tokens because I've detected downward momentum of ${(momentum * 100).toFixed(2)}% in the price action. This negative momentum suggests a weakening trend, so I'm reducing my exposure to protect my capital and potentially re-enter at more favorable levels. ${personality.memo}`,
     };
@@ -275,27 +341,27 @@ export function executeMomentumStrategy(
 export function executeMeanReversionStrategy(
   agent: Agent,
   market: MarketState,
-  marketStrategy: MarketStrategy
+  marketStrategy: MarketStrategy,
+  config: StrategyConfig = getDefaultStrategyConfig(MEAN_REVERSION_CONFIG_SCHEMA)
 ): TradeDecision {
   const { personality } = agent;
-  const yesPrice = getYESPrice(marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve);
+  const zScoreThreshold = config.zScoreThreshold as number;
+  const tradeFraction = config.tradeFraction as number;
+  const yesPrice = getYESProbability(marketStrategy);
   const yesPrices = marketStrategy.yesToken.history.map(h => h.price);
 
   if (yesPrices.length < 3) {
-    if (agent.vUSD > 0) {
-      const vUSDToSpend = agent.vUSD * personality.aggressiveness * 0.3;
-      const quantity = Math.floor(calculateYESForVUSD(vUSDToSpend, marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve));
-      if (quantity > 0) {
-        return {
-          agentId: agent.id,
-          action: 'buy',
-          strategyId: marketStrategy.id,
-          tokenType: 'yes',
-          quantity,
-          price: yesPrice,
-          reasoning: `I'm making an initial mean reversion trade on YES tokens to establish a position. With limited historical data, I'm entering the market to begin tracking price patterns relative to the mean and build my trading position. ${personality.memo}`,
-        };
-      }
+    const quantity = sizeOrder({ agent, market, marketStrategy, side: 'buy', tokenType: 'yes', probability: yesPrice + DEFAULT_MODEL_EDGE, scale: 0.3 });
+    if (quantity > 0) {
+      return {
+        agentId: agent.id,
+        action: 'buy',
+        strategyId: marketStrategy.id,
+        tokenType: 'yes',
+        quantity,
+        price: yesPrice,
+        reasoning: `I'm making an initial mean reversion trade on YES tokens to establish a position. With limited historical data, I'm entering the market to begin tracking price patterns relative to the mean and build my trading position. ${personality.memo}`,
+      };
     }
   }
 
@@ -304,33 +370,35 @@ export function executeMeanReversionStrategy(
   const stdDev = Math.sqrt(variance);
   const zScore = stdDev > 0 ? (yesPrice - mean) / stdDev : 0;
   const holdings = getAgentTokenHoldings(agent, marketStrategy.id, 'yes');
+  // The mean is the model probability the price reverts to
+  const size = (side: 'buy' | 'sell') =>
+    sizeOrder({ agent, market, marketStrategy, side, tokenType: 'yes', probability: mean, scale: tradeFraction });
 
   // Buy if Price < Mean (Oversold)
-  const zScoreThresholdBuy = yesPrices.length < 10 ? -0.5 : -1.5;
-  if (zScore < zScoreThresholdBuy && agent.vUSD > 0) {
-    const vUSDToSpend = agent.vUSD * personality.aggressiveness * 0.7;
-    const quantity = Math.floor(calculateYESForVUSD(vUSDToSpend, marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve));
+  const zScoreThresholdBuy = yesPrices.length < 10 ? -0.5 : -zScoreThreshold;
+  const buyQuantity = zScore < zScoreThresholdBuy ? size('buy') : 0;
+  if (buyQuantity > 0) {
     return {
       agentId: agent.id,
       action: 'buy',
       strategyId: marketStrategy.id,
       tokenType: 'yes',
-      quantity,
+      quantity: buyQuantity,
       price: yesPrice,
       reasoning: `I'm buying YES tokens because the current price of ${yesPrice.toFixed(4)} is below the mean price of ${mean.toFixed(4)}, with a z-score of ${zScore.toFixed(2)} indicating the asset is undervalued. This represents a mean reversion opportunity where I expect the price to return toward its historical average, making this an attractive entry point. ${personality.memo}`,
     };
   }
 
   // Sell if Price > Mean (Overbought)
-  const zScoreThresholdSell = yesPrices.length < 10 ? 0.5 : 1.5;
-  if (zScore > zScoreThresholdSell && holdings > 0) {
-    const quantity = Math.floor(holdings * personality.aggressiveness * 0.7);
+  const zScoreThresholdSell = yesPrices.length < 10 ? 0.5 : zScoreThreshold;
+  const sellQuantity = zScore > zScoreThresholdSell && holdings > 0 ? size('sell') : 0;
+  if (sellQuantity > 0) {
     return {
       agentId: agent.id,
       action: 'sell',
       strategyId: marketStrategy.id,
       tokenType: 'yes',
-      quantity,
+      quantity: sellQuantity,
       price: yesPrice,
       reasoning: `I'm selling YES tokens because the current price of ${yesPrice.toFixed(4)} is above the mean price of ${mean.toFixed(4)}, with a z-score of ${zScore.toFixed(2)} indicating the asset is overvalued. Based on mean reversion principles, I expect the price to decline toward its historical average, so I'm taking profits at this elevated level. ${personality.memo}`,
     };
@@ -348,42 +416,171 @@ export function executeMeanReversionStrategy(
 }
 
 /**
- * Execute agent strategy - routes to appropriate strategy function
+ * Run an agent's strategy on every active proposal and turn the results, plus rebalancing out of
+ * trailing proposals into the leader, into one constrained set of orders for this tick
  */
-export async function executeStrategy(agent: Agent, market: MarketState): Promise<TradeDecision> {
-  // Select a market strategy for this agent to trade on
-  const marketStrategy = selectStrategyForAgent(agent, market);
-  if (!marketStrategy) {
-    return {
-      agentId: agent.id,
-      action: 'hold',
-      strategyId: '',
-      tokenType: 'yes',
-      quantity: 0,
-      price: 0,
-      reasoning: 'No market strategies available',
-    };
+export async function executeStrategy(agent: Agent, market: MarketState): Promise<TradeDecision[]> {
+  const definition = getStrategy(agent.strategy);
+  if (!definition) {
+    log('Strategy', `Unknown strategy ${agent.strategy} for ${agent.personality.name}`, 'warn');
+    return [];
   }
 
-  switch (agent.strategy) {
-    case 'yes-no':
-      return await executeYesNoStrategy(agent, market, marketStrategy);
-    case 'twap':
-      return executeTWAPStrategy(agent, market, marketStrategy);
-    case 'momentum':
-      return executeMomentumStrategy(agent, market, marketStrategy);
-    case 'mean-reversion':
-      return executeMeanReversionStrategy(agent, market, marketStrategy);
-    default:
-      return {
-        agentId: agent.id,
-        action: 'hold',
-        strategyId: marketStrategy.id,
-        tokenType: 'yes',
-        quantity: 0,
-        price: getYESPrice(marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve),
-        reasoning: 'Unknown strategy',
-      };
+  const config = resolveStrategyConfig(definition, agent.strategyConfig);
+  const orders: TradeDecision[] = [];
+  for (const marketStrategy of market.strategies.filter(s => !s.resolved)) {
+    orders.push(await definition.decide(agent, market, marketStrategy, config));
+  }
+
+  return constrainOrders(agent, [...orders, ...planRebalance(agent, market)], market.strategies);
+}
+
+
+// Registered agent strategies by name
+const strategyRegistry = new Map<StrategyType, StrategyDefinition>();
+
+/**
+ * Register an agent strategy so agents can be assigned to it by name
+ */
+export function registerStrategy(definition: StrategyDefinition): void {
+  if (strategyRegistry.has(definition.name)) {
+    throw new Error(`Strategy "${definition.name}" is already registered`);
+  }
+  // Schema defaults must satisfy the schema itself
+  resolveStrategyConfig(definition, {});
+  strategyRegistry.set(definition.name, definition);
+}
+
+/**
+ * Get a registered strategy by name
+ */
+export function getStrategy(name: StrategyType): StrategyDefinition | undefined {
+  return strategyRegistry.get(name);
+}
+
+/**
+ * All registered strategies, in registration order
+ */
+export function listStrategies(): StrategyDefinition[] {
+  return Array.from(strategyRegistry.values());
+}
+
+/**
+ * Merge config overrides onto a strategy's schema defaults, rejecting unknown keys, wrong types and out-of-range numbers
+ */
+export function resolveStrategyConfig(definition: StrategyDefinition, overrides: StrategyConfig = {}): StrategyConfig {
+  for (const key of Object.keys(overrides)) {
+    if (!definition.configSchema[key]) {
+      throw new Error(`Unknown config "${key}" for strategy "${definition.name}"`);
+    }
+  }
+
+  const resolved: StrategyConfig = {};
+  for (const [key, param] of Object.entries(definition.configSchema)) {
+    const value = overrides[key] ?? param.default;
+    if (typeof value !== param.type) {
+      throw new Error(`Config "${key}" for strategy "${definition.name}" must be a ${param.type}`);
+    }
+    if (typeof value === 'number' && ((param.min !== undefined && value < param.min) || (param.max !== undefined && value > param.max))) {
+      throw new Error(`Config "${key}" for strategy "${definition.name}" must be between ${param.min ?? '-∞'} and ${param.max ?? '∞'}`);
+    }
+    resolved[key] = value;
+  }
+  return resolved;
+}
+
+/**
+ * Parse a "name:weight,name:weight" strategy mix (a bare name has weight 1)
+ */
+export function parseStrategyMix(spec: string): StrategyMix {
+  const mix: StrategyMix = {};
+  for (const entry of spec.split(',').map(e => e.trim()).filter(Boolean)) {
+    const [name = '', weight] = entry.split(':').map(part => part.trim());
+    mix[name] = weight === undefined ? 1 : parseFloat(weight);
   }
+  return mix;
+}
+
+/**
+ * Strategy for each of `count` agents, split by the mix weights (largest remainder, registration order on ties)
+ */
+export function assignStrategyMix(count: number, mix: StrategyMix = parseStrategyMix(appConfig.agents.strategyMix)): StrategyType[] {
+  const entries = Object.entries(mix).filter(([, weight]) => weight !== undefined && weight > 0) as Array<[StrategyType, number]>;
+  for (const [name, weight] of Object.entries(mix)) {
+    if (!strategyRegistry.has(name)) {
+      throw new Error(`Unknown strategy "${name}" in strategy mix (registered: ${Array.from(strategyRegistry.keys()).join(', ')})`);
+    }
+    if (weight === undefined || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Invalid weight for strategy "${name}" in strategy mix`);
+    }
+  }
+  if (entries.length === 0) {
+    throw new Error('Strategy mix needs at least one strategy with a positive weight');
+  }
+
+  const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  const allocations = entries.map(([name, weight]) => {
+    const exact = (count * weight) / totalWeight;
+    return { name, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let unassigned = count - allocations.reduce((sum, a) => sum + a.count, 0);
+  for (const allocation of [...allocations].sort((a, b) => b.remainder - a.remainder)) {
+    if (unassigned-- <= 0) break;
+    allocation.count++;
+  }
+
+  // Interleave so consecutive agents (and their personalities) get different strategies
+  const assigned: StrategyType[] = [];
+  while (assigned.length < count) {
+    for (const allocation of allocations) {
+      if (allocation.count > 0) {
+        assigned.push(allocation.name);
+        allocation.count--;
+      }
+    }
+  }
+  return assigned;
+}
+
+/**
+ * Reassign agents' strategies according to a mix (strategy config overrides are dropped)
+ */
+export function applyStrategyMix(agents: Agent[], mix?: StrategyMix): void {
+  const assigned = assignStrategyMix(agents.length, mix);
+  agents.forEach((agent, index) => {
+    const strategy = assigned[index];
+    if (strategy && strategy !== agent.strategy) {
+      agent.strategy = strategy;
+      delete agent.strategyConfig;
+    }
+  });
 }
 
+// Built-in strategies
+registerStrategy({
+  name: 'yes-no',
+  description: 'Trades YES below its average price and sells above it, shorting via NO when overvalued (LLM batch decisions in live rounds)',
+  configSchema: {},
+  decide: (agent, market, marketStrategy) => executeYesNoStrategyFallback(agent, market, marketStrategy),
+});
+
+registerStrategy({
+  name: 'twap',
+  description: 'Buys YES below its TWAP and sells above it',
+  configSchema: TWAP_CONFIG_SCHEMA,
+  decide: executeTWAPStrategy,
+});
+
+registerStrategy({
+  name: 'momentum',
+  description: 'Follows the recent YES price trend',
+  configSchema: MOMENTUM_CONFIG_SCHEMA,
+  decide: executeMomentumStrategy,
+});
+
+registerStrategy({
+  name: 'mean-reversion',
+  description: 'Buys YES when its z-score is low and sells when it is high',
+  configSchema: MEAN_REVERSION_CONFIG_SCHEMA,
+  decide: executeMeanReversionStrategy,
+});
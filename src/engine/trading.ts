@@ -1,28 +1,77 @@
 import type { Agent, MarketState, TradeDecision } from '../core/types';
 import { log } from '../core/logger';
+import { config, isLLMReplay, isSimulation } from '../core/config';
+import { random } from '../core/random';
 import {
-  getYESPrice,
-  getNOPrice,
-  calculateYESForVUSD,
-  calculateNOForVUSD,
-  calculateVUSDForYES,
-  calculateVUSDForNO,
-  calculateYESForNO,
-  calculateNOForYES,
-  mintDecisionTokens,
-  calculateYESForVUSDSwap,
-  calculateVUSDForYESSwap,
-  getYESPriceInVUSD
-} from './amm';
-import { getAgentTokenHoldings, updateAgentTokenHoldings } from '../agents';
+  getYESProbability,
+  getNOProbability,
+  getOutcomeProbability,
+  getYESPriceInVUSDC,
+  swapVUSDCForYES,
+  swapYESForVUSDC,
+  buyNO,
+  sellNO,
+} from './pricing';
+import { getAgentTokenHoldings, updateAgentTokenHoldings, getMaxSlippageBps, completeAgentRound } from '../agents';
+import { quoteSwap } from './quote';
 import { updateTWAP, resolveAllStrategies } from './twap';
 import { updateMarketPrice, resetStrategiesForNewRound } from './market';
 import { executeStrategy } from './strategies';
-import { graduateProposal } from '../core/db';
+import { summarizeAgentResults } from './accounting';
+import { reflectOnRound } from '../agents/reflection';
+import { evolvePopulation } from '../agents/evolution';
+import { graduateProposal, recordRoundEnd, recordTrade } from '../core/db';
+import { getBatchGap, endUsageRound } from '../llm/budget';
 
-const BATCH_LLM_GAP_MS = 25000; // 15 seconds between batch LLM calls
+const BATCH_LLM_GAP_MS = 25000; // Minimum gap between batch LLM calls (widened to stay within the token budget)
 const TRADE_EXECUTION_WINDOW_MS = 25000; // 15 seconds to execute all queued trades
 
+let betweenRounds: Promise<void> = Promise.resolve(); // Post-round reflections and evolution of the last round
+
+/**
+ * Resolves once the previous round's reflections and evolution step have finished
+ * (they replace the agents array, so a new round must not start before)
+ */
+export function waitForBetweenRounds(): Promise<void> {
+  return betweenRounds;
+}
+
+/**
+ * Queue a trade for batch execution, capping its slippage by the agent's risk tolerance
+ */
+function queueTrade(marketState: MarketState, decision: TradeDecision, agent: Agent): void {
+  marketState.tradeQueue.push({ decision: { ...decision, maxSlippageBps: getMaxSlippageBps(agent) }, agent });
+}
+
+/**
+ * Record an agent's orders for this tick in its round memory and queue them back to back as one batch
+ * (orders come out of constrainOrders sells first, so sale proceeds fund the buys)
+ */
+function queueOrders(marketState: MarketState, agent: Agent, orders: TradeDecision[], currentTime: number, holdReasoning: string): void {
+  const entries = orders.length > 0
+    ? orders
+    : [{ action: 'hold' as const, strategyId: '', tokenType: 'yes' as const, quantity: 0, price: 0, reasoning: holdReasoning }];
+
+  for (const order of entries) {
+    agent.roundMemory.push({
+      action: order.action,
+      strategyId: order.strategyId,
+      tokenType: order.tokenType,
+      quantity: order.quantity,
+      price: order.price,
+      reasoning: order.reasoning || holdReasoning,
+      timestamp: currentTime,
+    });
+    if (agent.roundMemory.length > 100) agent.roundMemory.shift();
+  }
+
+  for (const order of orders) {
+    if (order.action !== 'hold') {
+      queueTrade(marketState, order, agent);
+    }
+  }
+}
+
 /**
  * Execute queued trades over 15 seconds with random gaps
  */
@@ -63,7 +112,7 @@ async function executeQueuedTrades(
     let remainingTime = totalWindow;
     for (let i = 0; i < totalTrades - 1; i++) {
       const maxDelay = Math.min(4000, remainingTime / (totalTrades - i));
-      const delay = Math.random() * maxDelay + 1000;
+      const delay = random() * maxDelay + 1000;
       delays.push(delay);
       remainingTime -= delay;
     }
@@ -98,94 +147,136 @@ async function executeQueuedTrades(
           const blockchain = await import('../blockchain');
           const vUSDCAddress = blockchain.VUSDCADDRESS;
 
-          if (decision.tokenType === 'no') {
-            log('Trading', `[${agent.personality.name}] On-chain NO token trading pending implementation, simulating locally`, 'debug');
-            onChainSuccess = true;
-          } else {
-            let tokenIn = vUSDCAddress;
-            let amountIn = decision.quantity;
-
-            if (decision.action === 'buy') {
-              tokenIn = vUSDCAddress || '0xa16E02E87b7454126E5E10d957A927A7F5B5d2be';
-              // For buy: amountIn is vUSD to spend
-              // decision.quantity is the number of YES tokens desired
-              // We need to calculate how much vUSD is needed to get that many YES tokens
-              const strategy = marketState.strategies.find(s => s.id === decision.strategyId);
-              if (strategy && decision.quantity > 0) {
-                // Use the actual swap calculation to determine vUSD needed
-                const { getYESPriceInVUSD } = await import('./amm');
-                const actualPricePerYES = getYESPriceInVUSD(strategy.noToken.tokenReserve, strategy.yesToken.tokenReserve);
-                // If decision.price is provided and seems reasonable (between 0.1 and 10), use it
-                // Otherwise use the actual swap price
-                const priceToUse = (decision.price && decision.price >= 0.1 && decision.price <= 10) 
-                  ? decision.price 
-                  : actualPricePerYES;
-                const estimatedVUSD = decision.quantity * priceToUse;
-                amountIn = Math.max(1, Math.floor(estimatedVUSD)); // Minimum 1 vUSD
-              } else {
-                // Fallback: use decision values or minimum
-                amountIn = Math.max(1, Math.floor(decision.quantity * (decision.price || 0.5)));
-              }
+          let tokenIn = vUSDCAddress;
+          let amountIn = decision.quantity;
+
+          if (decision.action === 'buy' && decision.tokenType === 'no') {
+            // buyNO locks 1 vUSD per NO token and refunds the sale of the minted YES half
+            amountIn = Math.max(1, Math.floor(decision.quantity));
+          } else if (decision.action === 'buy') {
+            // For buy: amountIn is vUSD to spend
+            // decision.quantity is the number of YES tokens desired
+            // We need to calculate how much vUSD is needed to get that many YES tokens
+            const strategy = marketState.strategies.find(s => s.id === decision.strategyId);
+            if (strategy && decision.quantity > 0) {
+              // Use the actual swap calculation to determine vUSD needed
+              const actualPricePerYES = getYESPriceInVUSDC(strategy);
+              // If decision.price is provided and seems reasonable (between 0.1 and 10), use it
+              // Otherwise use the actual swap price
+              const priceToUse = (decision.price && decision.price >= 0.1 && decision.price <= 10) 
+                ? decision.price 
+                : actualPricePerYES;
+              const estimatedVUSD = decision.quantity * priceToUse;
+              amountIn = Math.max(1, Math.floor(estimatedVUSD)); // Minimum 1 vUSD
             } else {
-              tokenIn = await blockchain.getYesTokenAddress(decision.strategyId);
-              amountIn = Math.max(1, Math.floor(decision.quantity)); // Minimum 1 token
+              // Fallback: use decision values or minimum
+              amountIn = Math.max(1, Math.floor(decision.quantity * (decision.price || 0.5)));
             }
+          } else {
+            tokenIn = decision.tokenType === 'no'
+              ? await blockchain.getNoTokenAddress(decision.strategyId)
+              : await blockchain.getYesTokenAddress(decision.strategyId);
+            amountIn = Math.max(1, Math.floor(decision.quantity)); // Minimum 1 token
+          }
 
-            log('Trading', `[${agent.personality.name}] Initiating on-chain ${decision.action.toUpperCase()} for ${decision.tokenType.toUpperCase()}: quantity=${decision.quantity}, price=${decision.price?.toFixed(4) || 'N/A'}, amountIn=${amountIn}`);
+          log('Trading', `[${agent.personality.name}] Initiating on-chain ${decision.action.toUpperCase()} for ${decision.tokenType.toUpperCase()}: quantity=${decision.quantity}, price=${decision.price?.toFixed(4) || 'N/A'}, amountIn=${amountIn}`);
 
-            if (!tokenIn) {
-              throw new Error(`Could not determine token address for ${decision.tokenType}`);
-            }
+          if (!tokenIn) {
+            throw new Error(`Could not determine token address for ${decision.tokenType}`);
+          }
 
-            // Validate amountIn before attempting swap
-            if (amountIn <= 0 || decision.quantity <= 0) {
-              log('Trading', `[${agent.personality.name}] Invalid swap parameters: amountIn=${amountIn}, quantity=${decision.quantity}, skipping swap`, 'warn');
-              onChainSuccess = false;
-            } else {
-              const swapResult = await executeSwapOnChain(
-                agent,
-                decision.strategyId,
-                tokenIn,
-                amountIn,
-                0
-              );
-
-              if (swapResult.success && swapResult.txHash) {
-                onChainSuccess = true;
-                currentTxHash = swapResult.txHash;
-                const { config } = await import('../core/config');
-                log('Trading', `[${agent.personality.name}] Transaction confirmed: ${config.blockchain.blockExplorerUrl}/tx/${currentTxHash}`);
-                
-                // Sync agent balance from chain before executing trade
-                try {
-                  const { getAgentVUSDCBalance } = await import('../blockchain');
-                  const updatedBalance = await getAgentVUSDCBalance(agent.wallet.address);
-                  agent.vUSD = updatedBalance;
-                  log('Trading', `[${agent.personality.name}] Synced balance from chain: ${updatedBalance.toFixed(2)} vUSD`, 'debug');
-                } catch (err) {
-                  log('Trading', `[${agent.personality.name}] Failed to sync balance: ${err}`, 'warn');
+          // Validate amountIn before attempting swap
+          if (amountIn <= 0 || decision.quantity <= 0) {
+            log('Trading', `[${agent.personality.name}] Invalid swap parameters: amountIn=${amountIn}, quantity=${decision.quantity}, skipping swap`, 'warn');
+            onChainSuccess = false;
+          } else {
+            // Protect against slippage (including other trades in this batch) using the local AMM mirror
+            const strategy = marketState.strategies.find(s => s.id === decision.strategyId);
+            const minAmountOut = strategy
+              ? quoteSwap(strategy, decision.action, amountIn, decision.maxSlippageBps ?? getMaxSlippageBps(agent), decision.tokenType).minOut
+              : 0;
+
+            const swapResult = await executeSwapOnChain(
+              agent,
+              decision.strategyId,
+              tokenIn,
+              amountIn,
+              minAmountOut,
+              decision.tokenType
+            );
+
+            if (swapResult.success && swapResult.txHash) {
+              onChainSuccess = true;
+              currentTxHash = swapResult.txHash;
+              const { config } = await import('../core/config');
+              log('Trading', `[${agent.personality.name}] Transaction confirmed: ${config.blockchain.blockExplorerUrl}/tx/${currentTxHash}`);
+              
+              // Sync agent balance from chain before executing trade
+              try {
+                const { getAgentVUSDCBalance } = await import('../blockchain');
+                const updatedBalance = await getAgentVUSDCBalance(agent.wallet.address);
+                agent.vUSD = updatedBalance;
+                log('Trading', `[${agent.personality.name}] Synced balance from chain: ${updatedBalance.toFixed(2)} vUSD`, 'debug');
+              } catch (err) {
+                log('Trading', `[${agent.personality.name}] Failed to sync balance: ${err}`, 'warn');
+              }
+              
+              // Only add trade to agent.trades AFTER transaction is confirmed on-chain
+              log('Trading', `[${agent.personality.name}] Calling executeTrade with txHash: ${currentTxHash}`, 'debug');
+              // Mirror exactly what was sent on-chain (amountIn is rounded), then take the outcome balance from chain
+              executeTrade(decision, agents, marketState, currentTxHash, amountIn);
+              try {
+                const getOutcomeBalance = decision.tokenType === 'no' ? blockchain.getAgentNOBalance : blockchain.getAgentYESBalance;
+                const chainHoldings = await getOutcomeBalance(decision.strategyId, agent.wallet.address);
+                const localHoldings = getAgentTokenHoldings(agent, decision.strategyId, decision.tokenType);
+                if (Math.abs(chainHoldings - localHoldings) > 1e-9) {
+                  updateAgentTokenHoldings(agent, decision.strategyId, decision.tokenType, chainHoldings - localHoldings);
+                  log('Trading', `[${agent.personality.name}] Synced ${decision.tokenType.toUpperCase()} holdings from chain: ${chainHoldings.toFixed(4)}`, 'debug');
                 }
-                
-                // Only add trade to agent.trades AFTER transaction is confirmed on-chain
-                log('Trading', `[${agent.personality.name}] Calling executeTrade with txHash: ${currentTxHash}`, 'debug');
-                executeTrade(decision, agents, marketState, currentTxHash);
-                
-                // Verify trade was added
-                const agentAfterTrade = agents.find(a => a.id === decision.agentId);
-                if (agentAfterTrade) {
-                  const lastTrade = agentAfterTrade.trades[agentAfterTrade.trades.length - 1];
-                  if (lastTrade && lastTrade.txHash === currentTxHash) {
-                    log('Trading', `[${agent.personality.name}] ✅ Trade successfully added to agent.trades (total trades: ${agentAfterTrade.trades.length})`, 'debug');
-                  } else {
-                    log('Trading', `[${agent.personality.name}] ⚠️ Trade NOT found in agent.trades after executeTrade call!`, 'warn');
-                  }
+              } catch (err) {
+                log('Trading', `[${agent.personality.name}] Failed to sync ${decision.tokenType.toUpperCase()} holdings: ${err}`, 'warn');
+              }
+              
+              // Verify trade was added
+              const agentAfterTrade = agents.find(a => a.id === decision.agentId);
+              if (agentAfterTrade) {
+                const lastTrade = agentAfterTrade.trades[agentAfterTrade.trades.length - 1];
+                if (lastTrade && lastTrade.txHash === currentTxHash) {
+                  log('Trading', `[${agent.personality.name}] ✅ Trade successfully added to agent.trades (total trades: ${agentAfterTrade.trades.length})`, 'debug');
+                } else {
+                  log('Trading', `[${agent.personality.name}] ⚠️ Trade NOT found in agent.trades after executeTrade call!`, 'warn');
                 }
-                
-                executedCount++;
-                log('Trading', `[${executedCount}/${totalTrades}] Execution complete for ${agent.personality.name} on "${strategyName}"`);
-              } else {
-                log('Trading', `[${agent.personality.name}] Transaction failed on-chain`, 'error');
               }
+              
+              executedCount++;
+              log('Trading', `[${executedCount}/${totalTrades}] Execution complete for ${agent.personality.name} on "${strategyName}"`);
+            } else if (swapResult.slippageReverted) {
+              log('Trading', `[${agent.personality.name}] ${decision.action.toUpperCase()} on "${strategyName}" reverted: slippage exceeded ${decision.maxSlippageBps ?? getMaxSlippageBps(agent)} bps (minOut=${minAmountOut.toFixed(4)})`, 'warn');
+              const reasoning = `Reverted: price moved beyond ${decision.maxSlippageBps ?? getMaxSlippageBps(agent)} bps slippage limit`;
+              const timestamp = Date.now();
+              agent.roundMemory.push({
+                action: decision.action,
+                strategyId: decision.strategyId,
+                tokenType: decision.tokenType,
+                quantity: decision.quantity,
+                price: decision.price,
+                reasoning,
+                timestamp,
+                outcome: 'slippage-reverted',
+              });
+              if (agent.roundMemory.length > 100) agent.roundMemory.shift();
+              // Archived with the round (not added to agent.trades, nothing was filled)
+              recordTrade({ id: agent.id, name: agent.personality.name }, marketState.roundNumber, {
+                type: decision.action,
+                strategyId: decision.strategyId,
+                tokenType: decision.tokenType,
+                price: decision.price,
+                quantity: decision.quantity,
+                timestamp,
+                reasoning,
+              }, 'slippage-reverted');
+            } else {
+              log('Trading', `[${agent.personality.name}] Transaction failed on-chain`, 'error');
             }
           }
         } catch (err) {
@@ -223,12 +314,14 @@ async function executeQueuedTrades(
 /**
  * Execute trade using Constant Product AMM
  * @param txHash Optional transaction hash - if provided, trade is only added after on-chain confirmation
+ * @param amountIn Amount actually sent on-chain (vUSDC for buys, tokens for sells), replayed on the pool mirror
  */
 export function executeTrade(
   decision: TradeDecision,
   agents: Agent[],
   marketState: MarketState,
-  txHash?: string
+  txHash?: string,
+  amountIn?: number
 ): void {
   const agent = agents.find(a => a.id === decision.agentId);
   if (!agent) {
@@ -245,48 +338,27 @@ export function executeTrade(
   const yesToken = marketStrategy.yesToken;
   const noToken = marketStrategy.noToken;
 
+  // Simulation and on-chain fills both run the router's math against the pool mirror;
+  // with txHash the chain already moved the funds (agent.vUSD is synced from chain)
   if (decision.action === 'buy' && decision.quantity > 0) {
     if (decision.tokenType === 'yes') {
-      // Calculate vUSD needed - for on-chain swaps, use actual swap price
-      let estimatedVUSD: number;
-      if (txHash) {
-        // On-chain swap: use actual swap calculation to estimate price
-        const actualPricePerYES = getYESPriceInVUSD(noToken.tokenReserve, yesToken.tokenReserve);
-        estimatedVUSD = decision.quantity * actualPricePerYES;
-      } else {
-        estimatedVUSD = decision.quantity * getYESPrice(yesToken.tokenReserve, noToken.tokenReserve);
-      }
+      // decision.quantity is YES wanted, priced at the pool's fee-inclusive swap price (unless the chain fill says otherwise)
+      const vUSDIn = amountIn ?? decision.quantity * getYESPriceInVUSDC(marketStrategy);
 
       // If txHash is provided, on-chain transaction already succeeded - skip balance check
-      const shouldExecute = txHash ? true : (agent.vUSD >= estimatedVUSD && estimatedVUSD > 0);
-      
+      const shouldExecute = txHash ? true : (agent.vUSD >= vUSDIn && vUSDIn > 0);
+
       if (shouldExecute) {
-        log('Trading', `[executeTrade] Executing BUY YES: agent.vUSD=${agent.vUSD.toFixed(2)}, estimatedVUSD=${estimatedVUSD.toFixed(2)}, quantity=${decision.quantity}`, 'debug');
-        
-        let totalYESReceived: number;
-        if (txHash) {
-          // On-chain swap: calculate actual tokens received using swap formula
-          totalYESReceived = calculateYESForVUSDSwap(estimatedVUSD, noToken.tokenReserve, yesToken.tokenReserve);
-          // Update reserves based on actual swap
-          noToken.tokenReserve += estimatedVUSD;
-          yesToken.tokenReserve -= totalYESReceived;
-        } else {
-          // In-memory swap: use existing logic
-          const minted = mintDecisionTokens(estimatedVUSD, yesToken.tokenReserve, noToken.tokenReserve);
-          yesToken.tokenReserve += minted.yesTokensOut;
-          noToken.tokenReserve += minted.noTokensOut;
-          const noToSwap = minted.noTokensOut;
-          const additionalYES = calculateYESForNO(noToSwap, yesToken.tokenReserve, noToken.tokenReserve);
-          yesToken.tokenReserve -= additionalYES;
-          noToken.tokenReserve += noToSwap;
-          totalYESReceived = minted.yesTokensOut + additionalYES;
-          agent.vUSD -= estimatedVUSD;
+        log('Trading', `[executeTrade] Executing BUY YES: agent.vUSD=${agent.vUSD.toFixed(2)}, vUSDIn=${vUSDIn.toFixed(2)}, quantity=${decision.quantity}`, 'debug');
+
+        const totalYESReceived = swapVUSDCForYES(marketStrategy, vUSDIn);
+        if (!txHash) {
+          agent.vUSD -= vUSDIn;
         }
-        
         updateAgentTokenHoldings(agent, decision.strategyId, 'yes', totalYESReceived);
 
         // Calculate actual vUSD price per YES token (vUSD spent / tokens received)
-        const actualPricePerToken = totalYESReceived > 0 ? estimatedVUSD / totalYESReceived : 0;
+        const actualPricePerToken = totalYESReceived > 0 ? vUSDIn / totalYESReceived : 0;
 
         const tradeEntry = {
           type: 'buy' as const,
@@ -300,44 +372,33 @@ export function executeTrade(
         };
         
         agent.trades.push(tradeEntry);
+        recordTrade({ id: agent.id, name: agent.personality.name }, marketState.roundNumber, tradeEntry);
         log('Trading', `[executeTrade] Added trade for ${agent.personality.name}: ${tradeEntry.type} ${tradeEntry.quantity} ${tradeEntry.tokenType} @ $${tradeEntry.price.toFixed(4)} vUSD/token (txHash: ${txHash || 'none'})`, 'debug');
 
         yesToken.volume += totalYESReceived;
-        const currentPrice = getYESPrice(yesToken.tokenReserve, noToken.tokenReserve);
-        yesToken.history.push({ price: currentPrice, timestamp: Date.now() });
+        yesToken.history.push({ price: getYESProbability(marketStrategy), timestamp: Date.now() });
         if (yesToken.history.length > 100) yesToken.history.shift();
         updateTWAP(yesToken);
       } else {
-        log('Trading', `[executeTrade] BUY YES condition failed: agent.vUSD=${agent.vUSD.toFixed(2)}, estimatedVUSD=${estimatedVUSD.toFixed(2)}, quantity=${decision.quantity}`, 'warn');
+        log('Trading', `[executeTrade] BUY YES condition failed: agent.vUSD=${agent.vUSD.toFixed(2)}, vUSDIn=${vUSDIn.toFixed(2)}, quantity=${decision.quantity}`, 'warn');
       }
     } else {
-      const estimatedVUSD = decision.quantity * getNOPrice(yesToken.tokenReserve, noToken.tokenReserve);
+      // buyNO locks one vUSD per NO token before the minted YES half is sold back
+      const vUSDLocked = amountIn ?? decision.quantity;
+      const shouldExecute = txHash ? true : (agent.vUSD >= vUSDLocked);
 
-      // If txHash is provided, on-chain transaction already succeeded - skip balance check
-      const shouldExecute = txHash ? true : (agent.vUSD >= estimatedVUSD && estimatedVUSD > 0);
-      
       if (shouldExecute) {
-        log('Trading', `[executeTrade] Executing BUY NO: agent.vUSD=${agent.vUSD.toFixed(2)}, estimatedVUSD=${estimatedVUSD.toFixed(2)}, quantity=${decision.quantity}`, 'debug');
-        const minted = mintDecisionTokens(estimatedVUSD, yesToken.tokenReserve, noToken.tokenReserve);
-        yesToken.tokenReserve += minted.yesTokensOut;
-        noToken.tokenReserve += minted.noTokensOut;
+        log('Trading', `[executeTrade] Executing BUY NO: agent.vUSD=${agent.vUSD.toFixed(2)}, quantity=${vUSDLocked}`, 'debug');
 
-        const yesToSwap = minted.yesTokensOut;
-        const additionalNO = calculateNOForYES(yesToSwap, yesToken.tokenReserve, noToken.tokenReserve);
-
-        yesToken.tokenReserve += yesToSwap;
-        noToken.tokenReserve -= additionalNO;
-
-        const totalNOReceived = minted.noTokensOut + additionalNO;
-
-        // Only deduct vUSD if not already done on-chain (when txHash is provided, balance already synced)
+        const { noOut: totalNOReceived, vUSDCRefund } = buyNO(marketStrategy, vUSDLocked);
+        const vUSDSpent = vUSDLocked - vUSDCRefund;
         if (!txHash) {
-          agent.vUSD -= estimatedVUSD;
+          agent.vUSD -= vUSDSpent;
         }
         updateAgentTokenHoldings(agent, decision.strategyId, 'no', totalNOReceived);
 
         // Calculate actual vUSD price per NO token (vUSD spent / tokens received)
-        const actualPricePerToken = totalNOReceived > 0 ? estimatedVUSD / totalNOReceived : 0;
+        const actualPricePerToken = totalNOReceived > 0 ? vUSDSpent / totalNOReceived : 0;
 
         const tradeEntry = {
           type: 'buy' as const,
@@ -351,115 +412,63 @@ export function executeTrade(
         };
         
         agent.trades.push(tradeEntry);
+        recordTrade({ id: agent.id, name: agent.personality.name }, marketState.roundNumber, tradeEntry);
         log('Trading', `[executeTrade] Added trade for ${agent.personality.name}: ${tradeEntry.type} ${tradeEntry.quantity} ${tradeEntry.tokenType} @ $${tradeEntry.price.toFixed(4)} vUSD/token (txHash: ${txHash || 'none'})`, 'debug');
 
         noToken.volume += totalNOReceived;
-        const currentPrice = getNOPrice(yesToken.tokenReserve, noToken.tokenReserve);
-        noToken.history.push({ price: currentPrice, timestamp: Date.now() });
+        noToken.history.push({ price: getNOProbability(marketStrategy), timestamp: Date.now() });
         if (noToken.history.length > 100) noToken.history.shift();
         updateTWAP(noToken);
       } else {
-        log('Trading', `[executeTrade] BUY NO condition failed: agent.vUSD=${agent.vUSD.toFixed(2)}, estimatedVUSD=${estimatedVUSD.toFixed(2)}, quantity=${decision.quantity}`, 'warn');
+        log('Trading', `[executeTrade] BUY NO condition failed: agent.vUSD=${agent.vUSD.toFixed(2)}, quantity=${decision.quantity}`, 'warn');
       }
     }
   } else if (decision.action === 'sell' && decision.quantity > 0) {
+    const quantity = amountIn ?? decision.quantity; // Tokens sold
     const holdings = getAgentTokenHoldings(agent, decision.strategyId, decision.tokenType);
 
     // If txHash is provided, on-chain transaction already succeeded - skip holdings check
-    const shouldExecute = txHash ? true : (holdings >= decision.quantity);
+    const shouldExecute = txHash ? true : (holdings >= quantity);
     
     if (shouldExecute) {
-      log('Trading', `[executeTrade] Executing SELL: holdings=${holdings.toFixed(2)}, quantity=${decision.quantity}, tokenType=${decision.tokenType}`, 'debug');
-      if (decision.tokenType === 'yes') {
-        let vUSDReceived: number;
-        
-        if (txHash) {
-          // On-chain swap: use actual swap calculation
-          vUSDReceived = calculateVUSDForYESSwap(decision.quantity, noToken.tokenReserve, yesToken.tokenReserve);
-          // Update reserves based on actual swap (YES in, vUSD out)
-          yesToken.tokenReserve += decision.quantity;
-          noToken.tokenReserve -= vUSDReceived;
-        } else {
-          // In-memory swap: use existing logic
-          const noTokensReceived = calculateNOForYES(decision.quantity, yesToken.tokenReserve, noToken.tokenReserve);
-          yesToken.tokenReserve += decision.quantity;
-          noToken.tokenReserve -= noTokensReceived;
-          vUSDReceived = Math.min(decision.quantity, noTokensReceived);
-          yesToken.tokenReserve -= vUSDReceived;
-          noToken.tokenReserve -= vUSDReceived;
-          agent.vUSD += vUSDReceived;
-        }
-
-        // Only add vUSD if not already done on-chain (when txHash is provided, balance already synced)
-        updateAgentTokenHoldings(agent, decision.strategyId, 'yes', -decision.quantity);
-
-        // Calculate actual vUSD price per YES token (vUSD received / tokens sold)
-        const actualPricePerToken = decision.quantity > 0 ? vUSDReceived / decision.quantity : 0;
-
-        const tradeEntry = {
-          type: 'sell' as const,
-          strategyId: decision.strategyId,
-          tokenType: 'yes' as const,
-          price: actualPricePerToken, // Actual vUSD price per token, not probability
-          quantity: decision.quantity,
-          timestamp: Date.now(),
-          reasoning: decision.reasoning || `${agent.personality.name} liquidated YES tokens`,
-          txHash: txHash, // Add txHash when trade is added (only after on-chain confirmation)
-        };
-        
-        agent.trades.push(tradeEntry);
-        log('Trading', `[executeTrade] Added trade for ${agent.personality.name}: ${tradeEntry.type} ${tradeEntry.quantity} ${tradeEntry.tokenType} @ $${tradeEntry.price.toFixed(4)} vUSD/token (txHash: ${txHash || 'none'})`, 'debug');
-
-        yesToken.volume += decision.quantity;
-        // Store probability price for history (for charts/TWAP)
-        const currentPrice = getYESPrice(yesToken.tokenReserve, noToken.tokenReserve);
-        yesToken.history.push({ price: currentPrice, timestamp: Date.now() });
-        if (yesToken.history.length > 100) yesToken.history.shift();
-        updateTWAP(yesToken);
-      } else {
-        // Sell NO tokens
-        const yesTokensReceived = calculateYESForNO(decision.quantity, yesToken.tokenReserve, noToken.tokenReserve);
-
-        yesToken.tokenReserve -= yesTokensReceived;
-        noToken.tokenReserve += decision.quantity;
-
-        const vUSDReceived = Math.min(decision.quantity, yesTokensReceived);
-
-        yesToken.tokenReserve -= vUSDReceived;
-        noToken.tokenReserve -= vUSDReceived;
-
-        // Only add vUSD if not already done on-chain (when txHash is provided, balance already synced)
-        if (!txHash) {
-          agent.vUSD += vUSDReceived;
-        }
-        updateAgentTokenHoldings(agent, decision.strategyId, 'no', -decision.quantity);
-
-        // Calculate actual vUSD price per NO token (vUSD received / tokens sold)
-        const actualPricePerToken = decision.quantity > 0 ? vUSDReceived / decision.quantity : 0;
+      log('Trading', `[executeTrade] Executing SELL: holdings=${holdings.toFixed(2)}, quantity=${quantity}, tokenType=${decision.tokenType}`, 'debug');
+      const token = decision.tokenType === 'yes' ? yesToken : noToken;
+      // YES is swapped into the pool; sellNO buys matching YES back and pays out the rest of the pairs' collateral
+      const vUSDReceived = decision.tokenType === 'yes'
+        ? swapYESForVUSDC(marketStrategy, quantity)
+        : sellNO(marketStrategy, quantity);
+
+      // Only add vUSD if not already done on-chain (when txHash is provided, balance already synced)
+      if (!txHash) {
+        agent.vUSD += vUSDReceived;
+      }
+      updateAgentTokenHoldings(agent, decision.strategyId, decision.tokenType, -quantity);
 
-        const tradeEntry = {
-          type: 'sell' as const,
-          strategyId: decision.strategyId,
-          tokenType: 'no' as const,
-          price: actualPricePerToken, // Actual vUSD price per token, not probability
-          quantity: decision.quantity,
-          timestamp: Date.now(),
-          reasoning: decision.reasoning || `${agent.personality.name} liquidated NO tokens`,
-          txHash: txHash, // Add txHash when trade is added (only after on-chain confirmation)
-        };
-        
-        agent.trades.push(tradeEntry);
-        log('Trading', `[executeTrade] Added trade for ${agent.personality.name}: ${tradeEntry.type} ${tradeEntry.quantity} ${tradeEntry.tokenType} @ $${tradeEntry.price.toFixed(4)} vUSD/token (txHash: ${txHash || 'none'})`, 'debug');
+      // Calculate actual vUSD price per token (vUSD received / tokens sold)
+      const actualPricePerToken = quantity > 0 ? vUSDReceived / quantity : 0;
 
-        noToken.volume += decision.quantity;
-        // Store probability price for history (for charts/TWAP)
-        const currentPrice = getNOPrice(yesToken.tokenReserve, noToken.tokenReserve);
-        noToken.history.push({ price: currentPrice, timestamp: Date.now() });
-        if (noToken.history.length > 100) noToken.history.shift();
-        updateTWAP(noToken);
-      }
+      const tradeEntry = {
+        type: 'sell' as const,
+        strategyId: decision.strategyId,
+        tokenType: decision.tokenType,
+        price: actualPricePerToken, // Actual vUSD price per token, not probability
+        quantity,
+        timestamp: Date.now(),
+        reasoning: decision.reasoning || `${agent.personality.name} liquidated ${decision.tokenType.toUpperCase()} tokens`,
+        txHash: txHash, // Add txHash when trade is added (only after on-chain confirmation)
+      };
+
+      agent.trades.push(tradeEntry);
+      recordTrade({ id: agent.id, name: agent.personality.name }, marketState.roundNumber, tradeEntry);
+      log('Trading', `[executeTrade] Added trade for ${agent.personality.name}: ${tradeEntry.type} ${tradeEntry.quantity} ${tradeEntry.tokenType} @ $${tradeEntry.price.toFixed(4)} vUSD/token (txHash: ${txHash || 'none'})`, 'debug');
+
+      token.volume += quantity;
+      // Store probability price for history (for charts/TWAP)
+      token.history.push({ price: getOutcomeProbability(marketStrategy, decision.tokenType), timestamp: Date.now() });
+      if (token.history.length > 100) token.history.shift();
+      updateTWAP(token);
     } else {
-      log('Trading', `[executeTrade] SELL condition failed: holdings=${holdings.toFixed(2)}, quantity=${decision.quantity}, tokenType=${decision.tokenType}`, 'warn');
+      log('Trading', `[executeTrade] SELL condition failed: holdings=${holdings.toFixed(2)}, quantity=${quantity}, tokenType=${decision.tokenType}`, 'warn');
     }
   } else if (decision.action !== 'hold') {
     log('Trading', `[executeTrade] Invalid action or quantity: action=${decision.action}, quantity=${decision.quantity}`, 'warn');
@@ -505,8 +514,8 @@ export async function processTradingRound(
       log('Trading', `Market price update error (continuing): ${err}`, 'warn');
     }
 
-    try {
-      const { getAgentVUSDCBalance, getTokenBalance, getYesTokenAddress } = await import('../blockchain');
+  try {
+    const { getAgentVUSDCBalance, getTokenBalance, getYesTokenAddress, getNoTokenAddress, getAgentNOBalance } = await import('../blockchain');
     const { getAgentTokenHoldings, updateAgentTokenHoldings } = await import('../agents');
 
     await Promise.all(agents.map(async (agent) => {
@@ -516,16 +525,23 @@ export async function processTradingRound(
       for (const strategy of marketState.strategies) {
         if (!strategy.resolved) {
           try {
-            const yesTokenAddress = await getYesTokenAddress(strategy.id);
-            if (yesTokenAddress && yesTokenAddress !== '0x0000000000000000000000000000000000000000') {
-              const currentOnChainBalance = await getTokenBalance(yesTokenAddress, agent.wallet.address);
-              const inMemoryBalance = getAgentTokenHoldings(agent, strategy.id, 'yes');
+            const tokenAddresses = { yes: await getYesTokenAddress(strategy.id), no: await getNoTokenAddress(strategy.id) };
+            for (const tokenType of ['yes', 'no'] as const) {
+              const tokenAddress = tokenAddresses[tokenType];
+              if (!tokenAddress || tokenAddress === '0x0000000000000000000000000000000000000000') continue;
+
+              const currentOnChainBalance = tokenType === 'yes'
+                ? await getTokenBalance(tokenAddress, agent.wallet.address)
+                : await getAgentNOBalance(strategy.id, agent.wallet.address);
+              const inMemoryBalance = getAgentTokenHoldings(agent, strategy.id, tokenType);
 
               if (Math.abs(currentOnChainBalance - inMemoryBalance) > 0.000001) {
-                updateAgentTokenHoldings(agent, strategy.id, 'yes', currentOnChainBalance - inMemoryBalance);
+                updateAgentTokenHoldings(agent, strategy.id, tokenType, currentOnChainBalance - inMemoryBalance);
               }
             }
-          } catch (e) { }
+          } catch (e) {
+            log('Trading', `Holdings sync failed for ${agent.personality.name} on ${strategy.name}: ${e}`, 'warn');
+          }
         }
       }
     }));
@@ -546,14 +562,16 @@ export async function processTradingRound(
 
     log('Trading', `Generating performance report for Round #${previousRoundNumber}`);
 
+    let graduationTxHash: string | null = null;
     if (winningStrategy) {
-      graduateProposal(winningStrategy);
+      graduateProposal(winningStrategy, previousRoundNumber);
       const { graduateProposalOnChain } = await import('../blockchain');
       const { config } = await import('../core/config');
       try {
         const finalPrice = winningStrategy.winner === 'yes' ? 1.0 : 0.0;
         const txHash = await graduateProposalOnChain(winningStrategy.id, finalPrice);
         if (txHash) {
+          graduationTxHash = txHash;
           log('Trading', `Successfully graduated strategy "${winningStrategy.name}" on-chain`);
           log('Trading', `Graduation confirmed: ${config.blockchain.blockExplorerUrl}/tx/${txHash}`, 'debug');
         } else {
@@ -564,9 +582,37 @@ export async function processTradingRound(
       }
     }
 
+    // Persist the round with full price/TWAP history and agent results before session data is cleared
+    const winnerId = winningStrategy?.id ?? null;
+    const agentResults = summarizeAgentResults(agents, marketState.strategies, winnerId);
+    try {
+      recordRoundEnd(marketState, { winnerId, graduationTxHash, agentResults });
+    } catch (err) {
+      log('Trading', `Failed to persist Round #${previousRoundNumber}: ${err}`, 'error');
+    }
+
+    // Agents persist across rounds: fold the round into their track record and keep them enrolled
+    completeAgentRound(agents, previousRoundNumber, agentResults, marketState.strategies, winnerId);
+    // Post-round LLM calls are charged to the between-rounds bucket, not the round that just ended
+    endUsageRound(previousRoundNumber);
+
+    // Between rounds: reflections, then (when enabled) the evolution step on the reflected population.
+    // Tracked so the next round only starts once it has settled (see waitForBetweenRounds)
+    betweenRounds = reflectOnRound(agents)
+      .catch(err => log('Trading', `Post-round reflection error: ${err}`, 'warn'))
+      .then(async () => {
+        if (!config.agents.evolution.enabled) return;
+        if (marketState.roundStartTime !== 0) {
+          log('Trading', 'Skipping population evolution: the next round has already started', 'warn');
+          return;
+        }
+        await evolvePopulation(agents);
+      })
+      .catch(err => log('Trading', `Population evolution error: ${err}`, 'error'));
+
+
     log('Market', 'Clearing active session data');
     marketState.strategies = [];
-    agents.length = 0;
     marketState.roundStartTime = 0;
     marketState.roundEndTime = 0;
     marketState.roundNumber++;
@@ -584,8 +630,11 @@ export async function processTradingRound(
   const yesNoAgents = agents.filter(a => a.strategy === 'yes-no');
   const otherAgents = agents.filter(a => a.strategy !== 'yes-no');
 
-  const shouldMakeBatchCall = (marketState.lastBatchLLMCallTime === null ||
-    (currentTime - marketState.lastBatchLLMCallTime) >= BATCH_LLM_GAP_MS) &&
+  // Spread the remaining round/daily token budget over the rest of the round
+  const conversations = config.llm.decisions.mode === 'per-agent' ? yesNoAgents.length : 1;
+  const batchGap = getBatchGap(BATCH_LLM_GAP_MS, marketState.roundEndTime - currentTime, conversations);
+  const shouldMakeBatchCall = Number.isFinite(batchGap) &&
+    (marketState.lastBatchLLMCallTime === null || (currentTime - marketState.lastBatchLLMCallTime) >= batchGap) &&
     !marketState.isMakingBatchLLMCall;
 
   // Always try to make decisions for yes-no agents, even if strategies are resolved
@@ -593,7 +642,8 @@ export async function processTradingRound(
   const strategiesForLLM = marketState.strategies.filter(s => !s.resolved);
   const allStrategiesForFallback = marketState.strategies.length > 0 ? marketState.strategies : [];
 
-  if (yesNoAgents.length > 0 && shouldMakeBatchCall && !marketState.isExecutingTradeBatch && !marketState.isLLMRateLimited) {
+  // Simulation runs skip the LLM so decisions only depend on the seeded RNG and market state (or on replayed recordings)
+  if (yesNoAgents.length > 0 && shouldMakeBatchCall && !marketState.isExecutingTradeBatch && !marketState.isLLMRateLimited && (!isSimulation || isLLMReplay)) {
     // Try LLM batch call if there are unresolved strategies and not rate limited
     if (strategiesForLLM.length > 0) {
       marketState.lastBatchLLMCallTime = currentTime;
@@ -604,60 +654,17 @@ export async function processTradingRound(
         log('Trading', `Orchestrating batch LLM analysis for ${yesNoAgents.length} agents across ${strategiesForLLM.length} active proposals`);
         const batchDecisions = await callLLMForAllAgents(yesNoAgents, marketState, strategiesForLLM);
 
-        for (const [agentId, decision] of batchDecisions.entries()) {
+        for (const [agentId, orders] of batchDecisions.entries()) {
           const agent = yesNoAgents.find(a => a.id === agentId);
           if (!agent) continue;
-
-          agent.roundMemory.push({
-            action: decision.action,
-            strategyId: decision.strategyId,
-            tokenType: decision.tokenType,
-            quantity: decision.quantity,
-            price: decision.price,
-            reasoning: decision.reasoning,
-            timestamp: currentTime,
-          });
-
-          if (agent.roundMemory.length > 100) agent.roundMemory.shift();
-
-          if (decision.action !== 'hold') {
-            marketState.tradeQueue.push({ decision, agent });
-          }
+          queueOrders(marketState, agent, orders.filter(o => o.action !== 'hold'), currentTime, orders[0]?.reasoning || 'Holding all positions');
         }
 
         for (const agent of yesNoAgents) {
           if (!batchDecisions.has(agent.id)) {
             // Use fallback strategy directly - don't retry LLM calls (already rate limited or batch failed)
-            const { executeYesNoStrategyFallback } = await import('./strategies');
-            const { selectStrategyForAgent } = await import('../agents');
-            const marketStrategy = selectStrategyForAgent(agent, marketState);
-            const fallbackDecision = marketStrategy 
-              ? executeYesNoStrategyFallback(agent, marketState, marketStrategy)
-              : {
-                  agentId: agent.id,
-                  action: 'hold' as const,
-                  strategyId: '',
-                  tokenType: 'yes' as const,
-                  quantity: 0,
-                  price: 0,
-                  reasoning: 'No active strategies available',
-                };
-
-            agent.roundMemory.push({
-              action: fallbackDecision.action,
-              strategyId: fallbackDecision.strategyId,
-              tokenType: fallbackDecision.tokenType,
-              quantity: fallbackDecision.quantity,
-              price: fallbackDecision.price,
-              reasoning: fallbackDecision.reasoning,
-              timestamp: currentTime,
-            });
-
-            if (agent.roundMemory.length > 100) agent.roundMemory.shift();
-
-            if (fallbackDecision.action !== 'hold') {
-              marketState.tradeQueue.push({ decision: fallbackDecision, agent });
-            }
+            const orders = await executeStrategy(agent, marketState);
+            queueOrders(marketState, agent, orders, currentTime, 'No fallback signal on any proposal, holding');
           }
         }
 
@@ -678,37 +685,8 @@ export async function processTradingRound(
         // Continue with fallback strategies for ALL agents when LLM fails
         for (const agent of yesNoAgents) {
           try {
-            const { executeYesNoStrategyFallback } = await import('./strategies');
-            const { selectStrategyForAgent } = await import('../agents');
-            
-            // Try to get unresolved strategy first
-            let marketStrategy = selectStrategyForAgent(agent, marketState);
-            
-            // If no unresolved strategies (near round end), use all strategies including resolved ones
-            if (!marketStrategy && allStrategiesForFallback.length > 0) {
-              const randomIndex = Math.floor(Math.random() * allStrategiesForFallback.length);
-              marketStrategy = allStrategiesForFallback[randomIndex] || null;
-              if (marketStrategy) {
-                log('Trading', `[${agent.personality.name}] LLM failed, no unresolved strategies, using resolved strategy "${marketStrategy.name}" for fallback`, 'debug');
-              }
-            }
-            
-            if (marketStrategy) {
-              const fallbackDecision = executeYesNoStrategyFallback(agent, marketState, marketStrategy);
-              agent.roundMemory.push({
-                action: fallbackDecision.action,
-                strategyId: fallbackDecision.strategyId,
-                tokenType: fallbackDecision.tokenType,
-                quantity: fallbackDecision.quantity,
-                price: fallbackDecision.price,
-                reasoning: fallbackDecision.reasoning || 'LLM API failed, using fallback strategy',
-                timestamp: currentTime,
-              });
-              if (agent.roundMemory.length > 100) agent.roundMemory.shift();
-              if (fallbackDecision.action !== 'hold') {
-                marketState.tradeQueue.push({ decision: fallbackDecision, agent });
-              }
-            }
+            const orders = await executeStrategy(agent, marketState);
+            queueOrders(marketState, agent, orders, currentTime, 'LLM API failed, fallback strategy holds');
           } catch (fallbackError) {
             log('Trading', `Fallback strategy error for ${agent.personality.name}: ${fallbackError}`, 'warn');
           }
@@ -746,37 +724,8 @@ export async function processTradingRound(
       log('Trading', `Executing fallback strategies for ${agentsToProcess.length} agents (${allStrategiesForFallback.length} strategies available)${marketState.isLLMRateLimited ? ' [Rate Limited - using fallback only]' : ''}`);
       for (const agent of agentsToProcess) {
         try {
-          const { executeYesNoStrategyFallback } = await import('./strategies');
-          const { selectStrategyForAgent } = await import('../agents');
-          
-          // Try to get unresolved strategy first
-          let marketStrategy = selectStrategyForAgent(agent, marketState);
-          
-          // If no unresolved strategies (near round end), use all strategies including resolved ones
-          if (!marketStrategy && allStrategiesForFallback.length > 0) {
-            const randomIndex = Math.floor(Math.random() * allStrategiesForFallback.length);
-            marketStrategy = allStrategiesForFallback[randomIndex] || null;
-            if (marketStrategy) {
-              log('Trading', `[${agent.personality.name}] No unresolved strategies, using resolved strategy "${marketStrategy.name}" for fallback`, 'debug');
-            }
-          }
-          
-          if (marketStrategy) {
-            const fallbackDecision = executeYesNoStrategyFallback(agent, marketState, marketStrategy);
-            agent.roundMemory.push({
-              action: fallbackDecision.action,
-              strategyId: fallbackDecision.strategyId,
-              tokenType: fallbackDecision.tokenType,
-              quantity: fallbackDecision.quantity,
-              price: fallbackDecision.price,
-              reasoning: fallbackDecision.reasoning || 'Using fallback strategy',
-              timestamp: currentTime,
-            });
-            if (agent.roundMemory.length > 100) agent.roundMemory.shift();
-            if (fallbackDecision.action !== 'hold') {
-              marketState.tradeQueue.push({ decision: fallbackDecision, agent });
-            }
-          }
+          const orders = await executeStrategy(agent, marketState);
+          queueOrders(marketState, agent, orders, currentTime, 'No fallback signal on any proposal, holding');
         } catch (fallbackError) {
           log('Trading', `Fallback strategy error for ${agent.personality.name}: ${fallbackError}`, 'warn');
         }
@@ -795,30 +744,21 @@ export async function processTradingRound(
   // Process other agents (non-yes-no strategies) with error handling
   for (const agent of otherAgents) {
     try {
-      const { executeStrategy } = await import('./strategies');
-      const decision = await executeStrategy(agent, marketState);
-
-      agent.roundMemory.push({
-        action: decision.action,
-        strategyId: decision.strategyId,
-        tokenType: decision.tokenType,
-        quantity: decision.quantity,
-        price: decision.price,
-        reasoning: decision.reasoning,
-        timestamp: currentTime,
-      });
-
-      if (agent.roundMemory.length > 100) agent.roundMemory.shift();
-
-      if (decision.action !== 'hold') {
-        executeTrade(decision, agents, marketState);
-      }
+      const orders = await executeStrategy(agent, marketState);
+      queueOrders(marketState, agent, orders, currentTime, `No ${agent.strategy} signal on any proposal, holding`);
     } catch (error) {
       // Log error but continue processing other agents - market remains active
       log('Trading', `Error processing agent ${agent.personality.name} (market remains active): ${error}`, 'error');
     }
   }
 
+  if (otherAgents.length > 0 && marketState.tradeQueue.length > 0) {
+    executeQueuedTrades(marketState, agents).catch(err => {
+      log('Trading', `Trade execution queue error: ${err}`, 'error');
+      marketState.isExecutingTradeBatch = false;
+    });
+  }
+
     // Don't stop the trading loop even if all strategies are resolved early
     // The loop should continue until roundEndTime expires
     // This ensures the market remains active even if strategies resolve or API calls fail
@@ -0,0 +1,243 @@
+/**
+ * LLM Token Budget
+ *
+ * Counts prompt/completion tokens and requests of every LLM call (provider
+ * usage, or estimated from text length), enforces per-round and per-day
+ * budgets (calls between rounds have their own bucket and only count
+ * towards the daily budget), and derives the batch call gap and prompt size that keep the
+ * trading loop within them.
+ */
+
+import { config } from '../core/config';
+import { log } from '../core/logger';
+import type { ChatRequest, ChatResponse } from './providers';
+
+export interface UsageTotals {
+    requests: number;
+    estimatedRequests: number; // Requests whose tokens were estimated (no usage from the provider)
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    cost: number; // USD, from the configured per-1K token prices
+}
+
+export interface RemainingBudget {
+    roundTokens: number; // Infinity when unlimited
+    roundRequests: number;
+    dailyTokens: number;
+    dailyRequests: number;
+    dailyCost: number;
+}
+
+/**
+ * Thrown before a request that would exceed the round or daily budget
+ */
+export class LLMBudgetExceededError extends Error {
+    readonly isBudgetExceeded = true;
+
+    constructor(reason: string) {
+        super(`LLM_BUDGET_EXCEEDED: ${reason}`);
+        this.name = 'LLMBudgetExceededError';
+    }
+}
+
+const DEFAULT_REQUEST_TOKENS = 3000; // Assumed size of a request before any usage is known
+const REQUESTS_PER_BATCH = 2; // A batch decision is usually a tool call turn plus the answer
+const MAX_ROUND_HISTORY = 20;
+
+let currentRound = 0;
+let inRound = false; // Outside a round, usage goes to the between-rounds bucket instead
+let betweenRoundsTotals = createTotals(); // Reflections, proposal and personality generation since the last round ended
+let currentDay = getDay();
+let dailyTotals = createTotals();
+const roundTotals = new Map<number, UsageTotals>();
+
+/**
+ * Rough prompt token count of a text (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+function getDay(): string {
+    return new Date().toISOString().slice(0, 10);
+}
+
+function createTotals(): UsageTotals {
+    return { requests: 0, estimatedRequests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+function getRoundTotals(): UsageTotals {
+    const totals = roundTotals.get(currentRound) ?? createTotals();
+    roundTotals.set(currentRound, totals);
+    return totals;
+}
+
+/**
+ * Daily totals, reset when the UTC day changes
+ */
+function getDailyTotals(): UsageTotals {
+    const day = getDay();
+    if (day !== currentDay) {
+        currentDay = day;
+        dailyTotals = createTotals();
+    }
+    return dailyTotals;
+}
+
+function remaining(limit: number, used: number): number {
+    return limit > 0 ? Math.max(0, limit - used) : Infinity;
+}
+
+function estimateRequestTokens(request: ChatRequest): number {
+    return estimateTokens(request.messages.map(m => m.content).join('\n'))
+        + (request.tools ? estimateTokens(JSON.stringify(request.tools)) : 0);
+}
+
+/**
+ * Totals the next request is charged to: the current round, or the between-rounds bucket
+ */
+function getWindowTotals(): UsageTotals {
+    return inRound ? getRoundTotals() : betweenRoundsTotals;
+}
+
+/**
+ * Start counting usage for a new round (older rounds are kept for reporting)
+ */
+export function startUsageRound(roundNumber: number): void {
+    currentRound = roundNumber;
+    inRound = true;
+    roundTotals.set(roundNumber, createTotals());
+    while (roundTotals.size > MAX_ROUND_HISTORY) {
+        roundTotals.delete(roundTotals.keys().next().value!);
+    }
+}
+
+export function getRemainingBudget(): RemainingBudget {
+    const { budget } = config.llm;
+    const round = getRoundTotals();
+    const daily = getDailyTotals();
+    return {
+        roundTokens: inRound ? remaining(budget.roundTokens, round.totalTokens) : Infinity,
+        roundRequests: inRound ? remaining(budget.roundRequests, round.requests) : Infinity,
+        dailyTokens: remaining(budget.dailyTokens, daily.totalTokens),
+        dailyRequests: remaining(budget.dailyRequests, daily.requests),
+        dailyCost: remaining(budget.dailyCost, daily.cost),
+    };
+}
+
+/**
+ * Throw LLMBudgetExceededError if the request does not fit the remaining round or daily budget
+ */
+export function checkBudget(request: ChatRequest): void {
+    const left = getRemainingBudget();
+    const tokens = estimateRequestTokens(request);
+
+    if (left.roundRequests < 1 || left.dailyRequests < 1) {
+        throw new LLMBudgetExceededError(`${left.roundRequests < 1 ? 'round' : 'daily'} request budget spent`);
+    }
+    if (tokens > left.roundTokens || tokens > left.dailyTokens) {
+        throw new LLMBudgetExceededError(`~${tokens} prompt tokens exceed the remaining ${tokens > left.roundTokens ? 'round' : 'daily'} token budget`);
+    }
+    if (left.dailyCost <= 0) {
+        throw new LLMBudgetExceededError('daily cost budget spent');
+    }
+}
+
+/**
+ * Count a completed request, using the provider's token usage when reported
+ */
+export function recordUsage(request: ChatRequest, response: ChatResponse): void {
+    const promptTokens = response.usage?.promptTokens ?? estimateRequestTokens(request);
+    const completionTokens = response.usage?.completionTokens
+        ?? estimateTokens((response.content ?? '') + response.toolCalls.map(c => c.arguments).join(''));
+    const { pricing } = config.llm;
+    const cost = (promptTokens * pricing.promptPer1k + completionTokens * pricing.completionPer1k) / 1000;
+
+    for (const totals of [getWindowTotals(), getDailyTotals()]) {
+        totals.requests++;
+        if (!response.usage) totals.estimatedRequests++;
+        totals.promptTokens += promptTokens;
+        totals.completionTokens += completionTokens;
+        totals.totalTokens += promptTokens + completionTokens;
+        totals.cost += cost;
+    }
+}
+
+/**
+ * Average tokens per request this round (today's average, or a default, before the first one)
+ */
+function getAverageRequestTokens(): number {
+    const round = getRoundTotals();
+    const daily = getDailyTotals();
+    if (round.requests > 0) return round.totalTokens / round.requests;
+    if (daily.requests > 0) return daily.totalTokens / daily.requests;
+    return DEFAULT_REQUEST_TOKENS;
+}
+
+/**
+ * Gap between batch LLM calls that spreads the remaining budget over the rest of the round
+ * (conversations = LLM conversations per batch, one per agent in per-agent mode)
+ * Never below baseGapMs; Infinity when not even one more batch call fits
+ */
+export function getBatchGap(baseGapMs: number, timeRemainingMs: number, conversations: number = 1): number {
+    const left = getRemainingBudget();
+    const callRequests = REQUESTS_PER_BATCH * conversations;
+    const affordableCalls = Math.floor(Math.min(
+        Math.min(left.roundTokens, left.dailyTokens) / (getAverageRequestTokens() * callRequests),
+        Math.min(left.roundRequests, left.dailyRequests) / callRequests,
+        left.dailyCost > 0 ? Infinity : 0
+    ));
+
+    if (affordableCalls < 1) return Infinity;
+    if (!Number.isFinite(affordableCalls)) return baseGapMs;
+    return Math.max(baseGapMs, timeRemainingMs / affordableCalls);
+}
+
+/**
+ * Share of the full prompt to send (1 = untrimmed, down to 0.25) as the round or daily token budget runs low
+ */
+export function getPromptScale(): number {
+    const { budget } = config.llm;
+    const left = getRemainingBudget();
+    const fractions = [
+        budget.roundTokens > 0 ? left.roundTokens / budget.roundTokens : 1,
+        budget.dailyTokens > 0 ? left.dailyTokens / budget.dailyTokens : 1,
+    ];
+    const fraction = Math.min(...fractions);
+    return fraction >= 0.5 ? 1 : Math.max(0.25, fraction * 2);
+}
+
+/**
+ * Usage of the current round, recent rounds and today, with budgets and what is left
+ */
+export function getLLMUsage() {
+    const left = getRemainingBudget();
+    const finite = (value: number) => (Number.isFinite(value) ? value : null); // JSON has no Infinity
+    return {
+        round: { roundNumber: currentRound, active: inRound, ...getRoundTotals() },
+        betweenRounds: betweenRoundsTotals,
+        rounds: [...roundTotals.entries()].map(([roundNumber, totals]) => ({ roundNumber, ...totals })),
+        daily: { ...getDailyTotals(), date: currentDay },
+        budget: config.llm.budget,
+        remaining: {
+            roundTokens: finite(left.roundTokens),
+            roundRequests: finite(left.roundRequests),
+            dailyTokens: finite(left.dailyTokens),
+            dailyRequests: finite(left.dailyRequests),
+            dailyCost: finite(left.dailyCost),
+        },
+        promptScale: getPromptScale(),
+    };
+}
+
+/**
+ * Close a finished round: log its usage and charge further calls to a fresh between-rounds bucket
+ */
+export function endUsageRound(roundNumber: number): void {
+    inRound = false;
+    betweenRoundsTotals = createTotals();
+    const totals = roundTotals.get(roundNumber);
+    if (!totals || totals.requests === 0) return;
+    log('LLM', `Round #${roundNumber} LLM usage: ${totals.requests} requests, ${totals.totalTokens} tokens (${totals.promptTokens} prompt / ${totals.completionTokens} completion), $${totals.cost.toFixed(4)}`);
+}
@@ -448,31 +448,31 @@ export const TRUSTED_DATA_SOURCES: DataSource[] = [
 ];
 
 /**
- * Get all trusted data sources
+ * Get all trusted data sources (DIA feeds and API-based sources)
  */
 export function getAllDataSources(): DataSource[] {
-  return TRUSTED_DATA_SOURCES;
+  return [...TRUSTED_DATA_SOURCES, ...API_DATA_SOURCES];
 }
 
 /**
  * Get data source by ID
  */
 export function getDataSourceById(id: number): DataSource | undefined {
-  return TRUSTED_DATA_SOURCES.find(ds => ds.id === id);
+  return getAllDataSources().find(ds => ds.id === id);
 }
 
 /**
  * Get data sources by type
  */
 export function getDataSourcesByType(type: string): DataSource[] {
-  return TRUSTED_DATA_SOURCES.filter(ds => ds.type === type);
+  return getAllDataSources().filter(ds => ds.type === type);
 }
 
 /**
  * Get data source by ticker
  */
 export function getDataSourceByTicker(ticker: string): DataSource | undefined {
-  return TRUSTED_DATA_SOURCES.find(ds => ds.ticker === ticker);
+  return getAllDataSources().find(ds => ds.ticker === ticker);
 }
 
 /**
@@ -852,4 +852,115 @@ export async function fetchInflation(
   }
 }
 
+// API-based data sources (API Ninjas), usable in proposals like the DIA feeds above
+export type ApiDataSourceType = 'Exchange Rate' | 'Inflation' | 'Income Tax';
 
+// Synthetic IDs: type base + letter code of the currency/country, so they stay stable when lists change
+const API_DATA_SOURCE_ID_BASES: Record<ApiDataSourceType, number> = {
+  'Exchange Rate': 1_000_000,
+  'Inflation': 2_000_000,
+  'Income Tax': 3_000_000,
+};
+
+// Inflation sources: the non-premium countries, plus US when a premium API Ninjas key is configured
+// (without one US data never comes back live and its proposals could not resolve)
+const INFLATION_SOURCE_COUNTRIES: Record<string, string> = {
+  ...(process.env.API_NINJAS_PREMIUM === 'true' ? { US: 'United States' } : {}),
+  ...Object.fromEntries(Object.entries(NON_PREMIUM_INFLATION_COUNTRIES).map(([code, country]) => [code, country.name])),
+};
+
+const INCOME_TAX_YEAR_FALLBACK = 2; // Earlier tax years tried when the current one has no data yet
+
+const INCOME_TAX_SOURCE_COUNTRIES: Record<string, string> = {
+  US: 'United States',
+  CA: 'Canada',
+};
+
+const API_NINJAS_EXCHANGE: Exchange = {
+  label: 'Source',
+  name: 'API Ninjas',
+  icon: { url: '', width: 0, height: 0, alt: 'API Ninjas' },
+};
+
+/**
+ * Base-26 number of a letter code (e.g. "GBP", "US")
+ */
+function letterCode(code: string): number {
+  return [...code.toUpperCase()].reduce((n, ch) => n * 26 + (ch.charCodeAt(0) - 65), 0);
+}
+
+function createApiDataSource(type: ApiDataSourceType, code: string, ticker: string, name: string, endpoint: string): DataSource {
+  return {
+    id: API_DATA_SOURCE_ID_BASES[type] + letterCode(code),
+    name,
+    endpoint,
+    ticker,
+    price: '', // No snapshot: API-based values are always fetched live
+    icon: '',
+    exchange: API_NINJAS_EXCHANGE,
+    type,
+  };
+}
+
+/**
+ * Exchange rates (USD_XXX, units of XXX per USD), yearly inflation rates (XX_CPI, in %)
+ * and top federal income tax rates (XX_INCOME_TAX, in %)
+ */
+export const API_DATA_SOURCES: DataSource[] = [
+  ...Object.entries(SUPPORTED_EXCHANGE_RATE_CURRENCIES)
+    .filter(([code]) => code !== 'USD')
+    .map(([code, currency]) => createApiDataSource(
+      'Exchange Rate', code, `USD_${code}`, `US Dollar to ${currency.name} Exchange Rate`,
+      `https://api.api-ninjas.com/v1/exchangerate?pair=USD_${code}`
+    )),
+  ...Object.entries(INFLATION_SOURCE_COUNTRIES).map(([code, country]) => createApiDataSource(
+    'Inflation', code, `${code}_CPI`, `${country} Inflation Rate (CPI, yearly %)`,
+    `https://api.api-ninjas.com/v1/inflation?country=${code}`
+  )),
+  ...Object.entries(INCOME_TAX_SOURCE_COUNTRIES).map(([code, country]) => createApiDataSource(
+    'Income Tax', code, `${code}_INCOME_TAX`, `${country} Top Federal Income Tax Rate (%)`,
+    `https://api.api-ninjas.com/v1/incometax?country=${code}`
+  )),
+];
+
+/**
+ * Whether a data source is served by API Ninjas rather than a DIA feed
+ */
+export function isApiDataSource(ds: DataSource): boolean {
+  return ds.type in API_DATA_SOURCE_ID_BASES;
+}
+
+/**
+ * Live value of an API-based data source
+ */
+export interface DataSourceValue {
+  value: number;
+  timestamp: string; // ISO time the value was fetched (API Ninjas responses carry no timestamp)
+}
+
+/**
+ * Fetch the current value of an API-based data source, null if unavailable
+ */
+export async function fetchApiDataSourceValue(ds: DataSource): Promise<DataSourceValue | null> {
+  const code = ds.ticker.split('_')[ds.type === 'Exchange Rate' ? 1 : 0]!;
+  let value: number | undefined;
+
+  if (ds.type === 'Exchange Rate') {
+    value = (await fetchExchangeRate(ds.ticker))?.exchange_rate;
+  } else if (ds.type === 'Inflation') {
+    // The API answers with a list of series; CPI is requested explicitly
+    const data: InflationResponse | InflationResponse[] | null = await fetchInflation(code, { type: 'CPI' });
+    value = (Array.isArray(data) ? data[0] : data)?.yearly_rate_pct;
+  } else if (ds.type === 'Income Tax') {
+    // Data for the current year is often published late: fall back to the latest year that has brackets
+    const currentYear = new Date().getUTCFullYear();
+    for (let year = currentYear; year >= currentYear - INCOME_TAX_YEAR_FALLBACK && value === undefined; year--) {
+      const data = await fetchIncomeTax(code, year, { federalOnly: true });
+      const rates = (data?.federal?.single?.brackets ?? []).map(bracket => bracket.rate);
+      if (rates.length > 0) value = Math.max(...rates) * 100;
+    }
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  return { value, timestamp: new Date().toISOString() };
+}
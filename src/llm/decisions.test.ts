@@ -0,0 +1,31 @@
+import { beforeEach, expect, test } from 'bun:test';
+import { callLLMPerAgent } from './index';
+import { setProvider } from './providers';
+import { createAgent, DEFAULT_AGENT_PERSONALITIES } from '../agents';
+import { createStorage, setStorage } from '../core/storage';
+import { initializeMarket } from '../engine/market';
+
+beforeEach(() => {
+  setStorage(createStorage('memory'));
+});
+
+test('a per-agent decision that times out aborts its LLM request', async () => {
+  const signals: AbortSignal[] = [];
+  // Never answers: only the abort settles the request
+  setProvider({
+    name: 'mock',
+    model: 'hanging',
+    isConfigured: () => true,
+    chat: request => new Promise((_, reject) => {
+      if (request.signal) signals.push(request.signal);
+      request.signal?.addEventListener('abort', () => reject(request.signal?.reason));
+    }),
+  });
+
+  const agent = createAgent(DEFAULT_AGENT_PERSONALITIES[0]!, 'yes-no', 0);
+  const decisions = await callLLMPerAgent([agent], initializeMarket(), [], 1, { concurrency: 1, timeoutMs: 50 });
+
+  expect(decisions.size).toBe(0);
+  expect(signals).toHaveLength(1);
+  expect(signals[0]?.aborted).toBe(true);
+});
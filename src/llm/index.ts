@@ -1,37 +1,150 @@
 import type { Agent, MarketState, MarketStrategy, TradeDecision } from '../core/types';
-import { getYESPrice, getNOPrice, calculateYESForVUSD, calculateNOForVUSD } from '../engine/amm';
 import { getAgentTokenHoldings } from '../agents';
 import { log } from '../core/logger';
-import { getAllDataSources, type DataSource, SUPPORTED_EXCHANGE_RATE_CURRENCIES, NON_PREMIUM_INFLATION_COUNTRIES } from './dataSources';
-import { handleOpenAIToolConversation, simpleGroqCompletion } from './tools';
-import { config, isDev } from '../core/config';
+import { getAllDataSources, isApiDataSource, type DataSource, SUPPORTED_EXCHANGE_RATE_CURRENCIES, NON_PREMIUM_INFLATION_COUNTRIES } from './dataSources';
+import { handleToolConversation, simpleCompletion } from './tools';
+import { getProvider } from './providers';
+import {
+  completeStructured,
+  getDecisionsSchema,
+  getReflectionsSchema,
+  DECISION_SCHEMA,
+  PERSONALITIES_SCHEMA,
+  STRATEGIES_SCHEMA,
+} from './structured';
+import { getPromptScale } from './budget';
+import { config, isDev, isLLMReplay } from '../core/config';
+import { validateProposalLogic } from '../engine/logic';
+import { createPool, getYESProbability, getNOProbability, getOutcomeProbability } from '../engine/pricing';
+import { constrainOrders } from '../engine/portfolio';
+import { sizeOrder, DEFAULT_MODEL_EDGE } from '../engine/sizing';
+import { getAgentPnL } from '../engine/accounting';
+import { getReflectionsForPrompt, summarizeOutcome } from '../agents/reflection';
 
-// Groq API configuration
-const GROQ_API_KEY = config.groq.apiKey;
-const GROQ_MODEL = config.groq.model;
+/**
+ * Model probability behind an LLM order, for position sizing
+ * Falls back to the token price plus (buy) or minus (sell) the default edge when the LLM gave none
+ */
+function getDecisionProbability(decision: { probability?: unknown }, tokenPrice: number, side: 'buy' | 'sell'): number {
+  const { probability } = decision;
+  if (typeof probability === 'number' && probability >= 0 && probability <= 1) return probability;
+  return side === 'buy' ? tokenPrice + DEFAULT_MODEL_EDGE : tokenPrice - DEFAULT_MODEL_EDGE;
+}
+
+export type DecisionOptions = typeof config.llm.decisions;
 
 /**
- * LLM API call for all agents using yes-no strategy (batched) - ALL strategies in one call
+ * LLM API call for all agents using yes-no strategy - ALL strategies in one batched call, or one private call
+ * per agent in per-agent mode (LLM_DECISION_MODE). Each agent gets a set of orders across proposals, already passed through the portfolio constraint step
+ * (an agent that only holds gets a single hold entry carrying its reasoning)
  */
 export async function callLLMForAllAgents(
   agents: Agent[],
   market: MarketState,
-  activeStrategies: MarketStrategy[]
-): Promise<Map<string, TradeDecision>> {
-  const decisions = new Map<string, TradeDecision>();
+  activeStrategies: MarketStrategy[],
+  options: DecisionOptions = config.llm.decisions
+): Promise<Map<string, TradeDecision[]>> {
+  const decisions = new Map<string, TradeDecision[]>();
 
   log('LLM', `Executing batch analysis for ${agents.length} agents across ${activeStrategies.length} active proposals`);
 
-  if (isDev) {
+  // Dev mode bypasses the LLM unless recorded turns are being replayed
+  if (isDev && !isLLMReplay) {
     log('LLM', 'System in developer mode: LLM analysis bypassed, utilizing strategy-driven fallbacks', 'debug');
     return decisions;
   }
 
-  if (!GROQ_API_KEY) {
+  if (!getProvider().isConfigured()) {
     log('LLM', 'API key missing: utilizing strategy-driven fallbacks', 'warn');
     return decisions;
   }
 
+  // Trim the prompt as the token budget runs low: fewer recent actions and lessons, and only the
+  // proposals agents hold or that lead on YES TWAP
+  const promptScale = getPromptScale();
+  if (promptScale < 1) {
+    const held = new Set(agents.flatMap(a => a.tokenHoldings.filter(h => h.quantity > 0).map(h => h.strategyId)));
+    const kept = new Set([...activeStrategies]
+      .sort((a, b) => Number(held.has(b.id)) - Number(held.has(a.id)) || b.yesToken.twap - a.yesToken.twap)
+      .slice(0, Math.max(2, Math.ceil(activeStrategies.length * promptScale)))
+      .map(s => s.id));
+    activeStrategies = activeStrategies.filter(s => kept.has(s.id));
+    log('LLM', `Token budget low: prompt trimmed to ${(promptScale * 100).toFixed(0)}% (${activeStrategies.length} proposals)`, 'warn');
+  }
+
+  if (options.mode === 'per-agent') {
+    return callLLMPerAgent(agents, market, activeStrategies, promptScale, options);
+  }
+  return requestOrders(agents, market, activeStrategies, promptScale);
+}
+
+/**
+ * Per-agent decision mode: one prompt per agent with only its own portfolio and memory, so agents cannot
+ * see each other's positions or orders. Calls run with bounded concurrency and a timeout each; agents
+ * whose call fails or times out are left to their fallback strategy
+ */
+export async function callLLMPerAgent(
+  agents: Agent[],
+  market: MarketState,
+  activeStrategies: MarketStrategy[],
+  promptScale: number = 1,
+  options: Pick<DecisionOptions, 'concurrency' | 'timeoutMs'> = config.llm.decisions
+): Promise<Map<string, TradeDecision[]>> {
+  const { concurrency, timeoutMs } = options;
+  const decisions = new Map<string, TradeDecision[]>();
+  const queue = [...agents];
+  let rateLimitError: unknown = null;
+
+  log('LLM', `Per-agent decisions for ${agents.length} agents (concurrency ${concurrency}, timeout ${timeoutMs / 1000}s)`);
+
+  const worker = async () => {
+    for (let agent = queue.shift(); agent && !rateLimitError; agent = queue.shift()) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      // Aborting cancels the in-flight request instead of leaving it running (and billed) in the background
+      const controller = new AbortController();
+      try {
+        const orders = await Promise.race([
+          requestOrders([agent], market, activeStrategies, promptScale, agent, controller.signal),
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+              const error = new Error(`Decision timeout after ${timeoutMs / 1000}s`);
+              controller.abort(error);
+              reject(error);
+            }, timeoutMs);
+          }),
+        ]);
+        const agentOrders = orders.get(agent.id);
+        if (agentOrders) decisions.set(agent.id, agentOrders);
+      } catch (error: any) {
+        // A rate limit stops the remaining calls; the trading loop then skips the LLM for the round
+        if (error?.isRateLimit) rateLimitError = error;
+        else log('LLM', `Decision for ${agent.personality.name} failed: ${error instanceof Error ? error.message : error}`, 'warn');
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, agents.length)) }, worker));
+
+  if (rateLimitError) throw rateLimitError;
+  log('LLM', `Per-agent decisions complete: order sets for ${decisions.size}/${agents.length} agents`);
+  return decisions;
+}
+
+/**
+ * Build the decision prompt for a set of agents, call the LLM and validate the returned orders
+ * With a persona (per-agent mode) the prompt is written to that agent alone
+ */
+async function requestOrders(
+  agents: Agent[],
+  market: MarketState,
+  activeStrategies: MarketStrategy[],
+  promptScale: number,
+  persona?: Agent,
+  signal?: AbortSignal
+): Promise<Map<string, TradeDecision[]>> {
+  const decisions = new Map<string, TradeDecision[]>();
+
   // Calculate timing information
   const currentTime = Date.now();
   const roundElapsed = currentTime - market.roundStartTime;
@@ -39,8 +152,8 @@ export async function callLLMForAllAgents(
 
   // Build strategy context with prices for each strategy
   const strategiesContext = activeStrategies.map(strategy => {
-    const yesPrice = getYESPrice(strategy.yesToken.tokenReserve, strategy.noToken.tokenReserve);
-    const noPrice = getNOPrice(strategy.yesToken.tokenReserve, strategy.noToken.tokenReserve);
+    const yesPrice = getYESProbability(strategy);
+    const noPrice = getNOProbability(strategy);
     const yesHistory = strategy.yesToken.history.slice(-10);
     const noHistory = strategy.noToken.history.slice(-10);
     const yesTWAP = strategy.yesToken.twap;
@@ -71,36 +184,26 @@ export async function callLLMForAllAgents(
 
   // Build agent context for each agent (with holdings for each strategy)
   const agentsContext = agents.map(agent => {
-    const recentActions = agent.roundMemory.slice(-5); // Last 5 actions
-
-    // Calculate total portfolio value and profit
-    let totalPortfolioValue = agent.vUSD;
-    const strategyHoldings = activeStrategies.map(strategy => {
-      const yesHoldings = getAgentTokenHoldings(agent, strategy.id, 'yes');
-      const noHoldings = getAgentTokenHoldings(agent, strategy.id, 'no');
-      const yesPrice = getYESPrice(strategy.yesToken.tokenReserve, strategy.noToken.tokenReserve);
-      const noPrice = getNOPrice(strategy.yesToken.tokenReserve, strategy.noToken.tokenReserve);
+    const recentActions = agent.roundMemory.slice(-Math.max(1, Math.round(5 * promptScale))); // Last 5 actions (fewer when trimmed)
 
-      totalPortfolioValue += (yesHoldings * yesPrice) + (noHoldings * noPrice);
+    const strategyHoldings = activeStrategies.map(strategy => ({
+      strategyId: strategy.id,
+      strategyName: strategy.name,
+      yesHoldings: getAgentTokenHoldings(agent, strategy.id, 'yes'),
+      noHoldings: getAgentTokenHoldings(agent, strategy.id, 'no'),
+    }));
 
-      return {
-        strategyId: strategy.id,
-        strategyName: strategy.name,
-        yesHoldings,
-        noHoldings,
-      };
-    });
-
-    const currentProfit = totalPortfolioValue - 100; // Assuming initial balance is 100
+    const pnl = getAgentPnL(agent, activeStrategies);
 
     return {
       id: agent.id,
       name: agent.personality.name,
       personality: agent.personality,
       vUSD: agent.vUSD,
-      currentProfit,
+      pnl,
       recentActions,
       strategyHoldings,
+      reflections: getReflectionsForPrompt(agent, Math.floor(config.agents.reflectionTokenBudget * promptScale)),
     };
   });
 
@@ -147,100 +250,117 @@ Proposal ${idx + 1}: ${strategy.name} (ID: ${strategy.id})
 - YES Token: $${strategy.yesPrice.toFixed(4)} (TWAP: ${strategy.yesTWAP.toFixed(4)}, Change: ${strategy.yesPriceChange.toFixed(2)}%)
 - NO Token: $${strategy.noPrice.toFixed(4)} (TWAP: ${strategy.noTWAP.toFixed(4)}, Change: ${strategy.noPriceChange.toFixed(2)}%)`).join('\n')}
 
-=== AGENTS (Each makes INDEPENDENT decision for EACH proposal) ===
+${persona ? '=== YOUR PORTFOLIO (private: other agents\' holdings and orders are not shown) ===' : '=== AGENTS (Each manages an INDEPENDENT portfolio across ALL proposals) ==='}
 ${agentsContext.map((agent, idx) => `
 Agent ${idx + 1}: ${agent.name} (${agent.id})
 - Risk Tolerance: ${agent.personality.riskTolerance}
 - Aggressiveness: ${agent.personality.aggressiveness}
 - CURRENT vUSD Balance (from blockchain): $${agent.vUSD.toFixed(2)} - Use this EXACT balance for calculations
-- Current Profit: $${agent.currentProfit.toFixed(2)}
+- Current Profit: $${agent.pnl.total.toFixed(2)} (realized $${agent.pnl.realized.toFixed(2)}, unrealized $${agent.pnl.unrealized.toFixed(2)})
 - Holdings per Proposal:
 ${agent.strategyHoldings.map(sh => `  - ${sh.strategyName}: YES=${sh.yesHoldings}, NO=${sh.noHoldings}`).join('\n')}
 - Recent Actions: ${agent.recentActions.length > 0
-      ? agent.recentActions.map(a => `${a.action} ${a.quantity} ${a.tokenType}`).join(', ')
+      ? agent.recentActions.map(a => `${a.action} ${a.quantity} ${a.tokenType}${a.outcome === 'slippage-reverted' ? ' (reverted: slippage)' : ''}`).join(', ')
+      : 'None'}
+- Lessons from Past Rounds (newest first): ${agent.reflections.length > 0
+      ? agent.reflections.map(r => `\n  - ${r}`).join('')
       : 'None'}`).join('\n')}
 
-=== DECISION OPTIONS ===
-Each agent can independently choose ONE action:
-1. BUY YES - Purchase YES tokens with vUSD on ONE proposal (taking a YES position)
-2. SELL YES - Sell YES tokens for vUSD on ONE proposal (taking a NO position by exiting YES)
-3. HOLD - Wait on all proposals (quantity = 0) - Keep current position
+=== ORDER OPTIONS ===
+Each agent submits a SET of orders for this tick, at most one per proposal and token type:
+1. BUY YES - Purchase YES tokens with vUSD on a proposal (taking a YES position)
+2. SELL YES - Sell YES tokens for vUSD on a proposal (exiting a YES position)
+3. BUY NO - Purchase NO tokens on a proposal (shorting it: NO gains when the YES price falls). Each NO token locks 1 vUSD up front, the YES half is sold back so you are refunded roughly the YES price per token
+4. SELL NO - Sell NO tokens for vUSD on a proposal (exiting a NO position)
+5. HOLD - A single entry with action "hold" (quantity = 0) if the agent changes nothing
+
+REBALANCING: only one proposal graduates. An agent holding YES on proposals that trail the leader should sell those positions and buy the leader in the SAME set of orders. Sells execute before buys, so sale proceeds can fund the buys.
 
-Generate INDEPENDENT decisions for ALL agents. Each agent makes ONLY ONE decision (for ONE proposal or HOLD). Respond ONLY with a JSON array in this exact format:
+${persona ? `Generate YOUR order set. Respond ONLY with a JSON array of orders in this exact format (use your agentId "${persona.id}" in every order):` : 'Generate INDEPENDENT order sets for ALL agents. Respond ONLY with a JSON array of orders in this exact format (an agent appears once per order):'}
 [
   {
-    "agentId": "agent-1",
+    "agentId": "${persona?.id ?? 'agent-1'}",
     "strategyId": "${activeStrategies[0]?.id || 'strategy-1'}",
     "action": "buy" | "sell" | "hold",
-    "tokenType": "yes",
+    "tokenType": "yes" | "no",
     "quantity": <number> (0 if hold, positive integer if buy/sell),
+    "probability": <number> (0-1, the agent's estimate that the chosen token pays out, i.e. for YES that the proposal graduates),
     "reasoning": "<Professional first-person reasoning (2-4 sentences, 80-150 words) explaining your trading decision. Include: market analysis, price considerations, risk assessment, and alignment with your trading philosophy. Write as a professional trader would explain their decision.>"
   },
   {
-    "agentId": "agent-2",
+    "agentId": "${persona?.id ?? 'agent-2'}",
     "strategyId": "${activeStrategies[2]?.id || 'strategy-3'}",
     "action": "buy" | "sell" | "hold",
-    "tokenType": "yes",
+    "tokenType": "yes" | "no",
     "quantity": <number>,
+    "probability": <number>,
     "reasoning": "<Professional first-person reasoning (2-4 sentences, 80-150 words) explaining your trading decision. Include: market analysis, price considerations, risk assessment, and alignment with your trading philosophy. Write as a professional trader would explain their decision.>"
   },
   ...
 ]
 
-IMPORTANT: Each agent appears ONLY ONCE in the array. Each agent chooses ONE proposal to trade on (or holds on all).
+IMPORTANT: An agent may appear several times (one entry per order), or once with "hold".
 
 IMPORTANT RULES:
-- Each agent makes ONLY ONE decision per batch call
-- Each agent chooses ONE proposal to trade on (or holds on all proposals)
-- You MUST generate exactly ${agents.length} decisions (one per agent)
-- You HAVE ACCESS TO TOOLS. Use 'get_dia_prices' to check current asset prices if needed to make a winning decision.
-- Each decision MUST include the "strategyId" field to specify which proposal the agent chose
-- Different agents SHOULD choose different proposals based on their personalities and interests
-- Each agent's reasoning must be PROFESSIONAL, DETAILED, and in FIRST PERSON (2-4 sentences, 80-150 words)
+- ${persona ? 'Include at least one order (a single "hold" entry if you change nothing)' : `Every one of the ${agents.length} agents MUST appear at least once`}
+- An agent's orders are executed as one batch: total vUSD spent on buys must not exceed its CURRENT vUSD Balance plus what its sells in the same batch return (buys are scaled down otherwise)
+- You HAVE ACCESS TO TOOLS. Use 'get_dia_prices' to check current asset prices, 'get_proposal_history' for price/TWAP trends, 'get_quote' to check the price impact of an order before sizing it, 'get_my_holdings' and 'get_round_time_remaining' for your position and timing, and 'get_exchange_rate' / 'get_inflation' for macro data, if needed to make a winning decision.
+- Each order MUST include the "strategyId" field to specify which proposal it trades
+${persona ? '' : '- Different agents SHOULD choose different proposals based on their personalities and interests\n'}- Each agent's reasoning must be PROFESSIONAL, DETAILED, and in FIRST PERSON (2-4 sentences, 80-150 words)
 - Explain your decision like a professional trader: include market analysis, price considerations, risk assessment, timing factors, and how it aligns with your trading philosophy
 - Use professional financial language and provide substantive reasoning (e.g., "I'm focusing on Tech Sector Growth because current market conditions show strong momentum, the price is below my calculated fair value, and my risk analysis indicates this aligns with my aggressive growth strategy..." not "Bullish Bob sees value")
 - CRITICAL CONSTRAINTS:
   * If action is "buy", quantity must be affordable with agent's CURRENT vUSD balance (check "CURRENT vUSD Balance" in agent info - this is the LATEST balance from blockchain)
-  * If action is "sell", agent MUST have YES tokens to sell (check YES Holdings in agent info)
+  * If action is "buy" with "tokenType": "no", quantity must not exceed the CURRENT vUSD balance (1 vUSD is locked per NO token before the refund)
+  * If action is "sell", agent MUST hold that token type to sell (check YES/NO Holdings in agent info)
+  * Order sizes are capped by position sizing on the edge between "probability" and the token price: buys need "probability" above the price
   * Use the EXACT "CURRENT vUSD Balance" shown in agent info for all calculations - this is synced from blockchain
-  * Only use "tokenType": "yes" (NO tokens don't exist as separate tokens)
+  * Use "tokenType": "no" to short a proposal you expect to fail, "yes" for one you expect to pass
+- Each agent should apply its own lessons from past rounds; lessons are private to that agent
 - Be true to each agent's personality traits - an optimistic agent might buy aggressively on one proposal, while a cautious one might hold or choose a safer proposal
-- Agents should focus on the proposal that aligns best with their personality and current market analysis`;
+- Agents should concentrate capital on the proposal they expect to graduate, in line with their personality and current market analysis`;
 
   try {
-    const systemPrompt = 'You are generating independent trading decisions for multiple AI agents. Each agent makes their own decision without knowing what others decide. USE TOOLS to check prices. Respond only with valid JSON array.';
+    const systemPrompt = persona
+      ? `You are ${persona.personality.name}, an independent trader deciding only for your own portfolio. ${persona.personality.memo} USE TOOLS to check prices. Respond only with valid JSON array.`
+      : 'You are generating independent trading decisions for multiple AI agents. Each agent makes their own decision without knowing what others decide. USE TOOLS to check prices. Respond only with valid JSON array.';
     const fullPrompt = `${systemPrompt}\n\n${prompt}`;
 
-    console.log(`[LLM] Making batch API call via OpenAI SDK for ${agents.length} agents...`);
+    console.log(persona ? `[LLM] Making API call for ${persona.personality.name}...` : `[LLM] Making batch API call for ${agents.length} agents...`);
 
     // Use tool-enabled conversation handler
-    const content = await handleOpenAIToolConversation(
+    const content = await handleToolConversation(
       fullPrompt,
       agents,
       market,
-      3 // Max 3 tool calls for trading decisions (reduced to avoid rate limits)
+      3, // Max 3 tool calls for trading decisions (reduced to avoid rate limits)
+      signal
     );
 
-    console.log(`[LLM] Received batch response from Groq`);
+    console.log(`[LLM] Received batch response from ${getProvider().name}`);
     console.log(`[LLM] Raw LLM Response:\n${content}\n`);
 
     if (!content) {
-      console.error('[LLM] Groq API returned no content');
+      console.error('[LLM] LLM API returned no content');
       return decisions;
     }
 
-    // Try to extract JSON array from the response
-    const jsonMatch = content.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      console.error('[LLM] LLM response does not contain valid JSON array');
-      console.error(`[LLM] Response was: ${content.substring(0, 200)}...`);
+    // Validate against the schema (known agents and active proposals), with one repair re-prompt
+    const agentDecisions = await completeStructured<any[]>(
+      'decisions',
+      fullPrompt,
+      content,
+      getDecisionsSchema(agents.map(a => a.id), activeStrategies.map(s => s.id)),
+      signal
+    );
+    if (!agentDecisions) {
+      console.error('[LLM] LLM response does not match the order schema');
       return decisions;
     }
-
-    const agentDecisions = JSON.parse(jsonMatch[0]);
     console.log(`[LLM] Parsed ${agentDecisions.length} decisions:`, JSON.stringify(agentDecisions, null, 2));
 
-    // Process each decision
+    // Validate each order, then apply the portfolio constraint step per agent
+    const ordersByAgent = new Map<string, TradeDecision[]>();
     for (const decision of agentDecisions) {
       const agent = agents.find(a => a.id === decision.agentId);
       if (!agent) {
@@ -248,55 +368,22 @@ IMPORTANT RULES:
         continue;
       }
 
-      // Validate the decision
-      if (!decision.strategyId) {
-        console.error(`[LLM] Missing strategyId for ${agent.personality.name}`);
-        continue;
-      }
-
       const strategy = activeStrategies.find(s => s.id === decision.strategyId);
       if (!strategy) {
         console.error(`[LLM] Strategy ${decision.strategyId} not found for ${agent.personality.name}`);
         continue;
       }
 
-      if (!['buy', 'sell', 'hold'].includes(decision.action)) {
-        console.error(`[LLM] Invalid action for ${agent.personality.name}: ${decision.action}`);
-        continue;
-      }
-
-      // Only YES tokens exist - NO is just the absence of YES
-      // Convert any "NO" token decisions to YES token logic
-      if (decision.tokenType === 'no') {
-        // Convert "NO" decision to selling YES or holding
-        if (decision.action === 'buy') {
-          // "Buy NO" means hold vUSD or sell YES if you have it
-          const yesHoldings = getAgentTokenHoldings(agent, strategy.id, 'yes');
-          if (yesHoldings > 0) {
-            decision.action = 'sell';
-            decision.tokenType = 'yes';
-          } else {
-            decision.action = 'hold';
-            decision.tokenType = 'yes';
-            decision.quantity = 0;
-          }
-        } else if (decision.action === 'sell') {
-          // "Sell NO" means buy YES
-          decision.action = 'buy';
-          decision.tokenType = 'yes';
-        } else {
-          decision.tokenType = 'yes';
+      if (!decision.tokenType) {
+        if (decision.action !== 'hold') {
+          console.error(`[LLM] Missing tokenType for ${agent.personality.name}`);
+          continue;
         }
+        decision.tokenType = 'yes';
       }
 
-      if (decision.tokenType !== 'yes') {
-        console.error(`[LLM] Invalid tokenType for ${agent.personality.name}: ${decision.tokenType} (only YES tokens exist)`);
-        continue;
-      }
-
-      const yesPrice = getYESPrice(strategy.yesToken.tokenReserve, strategy.noToken.tokenReserve);
-      const tokenPrice = yesPrice; // Only YES tokens exist
-      const holdings = getAgentTokenHoldings(agent, strategy.id, 'yes');
+      const tokenPrice = getOutcomeProbability(strategy, decision.tokenType);
+      const holdings = getAgentTokenHoldings(agent, strategy.id, decision.tokenType);
 
       // Enforce constraints - initialize quantity
       let quantity = Math.max(0, Math.floor(decision.quantity || 0));
@@ -306,13 +393,10 @@ IMPORTANT RULES:
         if (agent.vUSD <= 0) {
           decision.action = 'hold';
           quantity = 0;
-          decision.reasoning = `Cannot buy YES tokens - I have no vUSD. ${decision.reasoning || 'I need vUSD to purchase YES tokens.'}`;
+          decision.reasoning = `Cannot buy ${decision.tokenType.toUpperCase()} tokens - I have no vUSD. ${decision.reasoning || `I need vUSD to purchase ${decision.tokenType.toUpperCase()} tokens.`}`;
         } else {
-          const maxVUSDToSpend = agent.vUSD * agent.personality.aggressiveness;
-          if (maxVUSDToSpend > 0) {
-            const estimatedMaxTokens = Math.floor(calculateYESForVUSD(maxVUSDToSpend, strategy.yesToken.tokenReserve, strategy.noToken.tokenReserve));
-            quantity = Math.min(quantity, estimatedMaxTokens);
-          }
+          const probability = getDecisionProbability(decision, tokenPrice, 'buy');
+          quantity = Math.min(quantity, sizeOrder({ agent, market, marketStrategy: strategy, side: 'buy', tokenType: decision.tokenType, probability }));
           if (quantity === 0) {
             decision.action = 'hold';
             quantity = 0;
@@ -325,7 +409,8 @@ IMPORTANT RULES:
           quantity = 0;
           decision.reasoning = `Cannot sell ${decision.tokenType.toUpperCase()} tokens - agent has no holdings. ${decision.reasoning || ''}`;
         } else {
-          quantity = Math.min(quantity, holdings);
+          const probability = getDecisionProbability(decision, tokenPrice, 'sell');
+          quantity = Math.min(quantity, sizeOrder({ agent, market, marketStrategy: strategy, side: 'sell', tokenType: decision.tokenType, probability }));
           if (quantity === 0) {
             decision.action = 'hold';
             quantity = 0;
@@ -335,8 +420,6 @@ IMPORTANT RULES:
         quantity = 0;
       }
 
-      // Each agent makes only ONE decision, so use agentId as key
-      const decisionKey = agent.id;
       const finalDecision: TradeDecision = {
         agentId: agent.id,
         action: decision.action,
@@ -347,12 +430,19 @@ IMPORTANT RULES:
         reasoning: decision.reasoning || `${agent.personality.name} made a decision.`,
       };
 
-      decisions.set(decisionKey, finalDecision);
+      ordersByAgent.set(agent.id, [...(ordersByAgent.get(agent.id) ?? []), finalDecision]);
       console.log(`[LLM] ${agent.personality.name} on "${strategy.name}": ${finalDecision.action.toUpperCase()} ${finalDecision.quantity} ${finalDecision.tokenType.toUpperCase()} @ $${finalDecision.price.toFixed(4)}`);
       console.log(`[LLM] Reasoning: ${finalDecision.reasoning}`);
     }
 
-    console.log(`[LLM] Batch complete: ${decisions.size}/${agents.length} decisions generated (one per agent)\n`);
+    for (const [agentId, orders] of ordersByAgent.entries()) {
+      const agent = agents.find(a => a.id === agentId)!;
+      const constrained = constrainOrders(agent, orders, activeStrategies);
+      const hold = orders.find(o => o.action === 'hold') ?? { ...orders[0]!, action: 'hold' as const, quantity: 0 };
+      decisions.set(agentId, constrained.length > 0 ? constrained : [hold]);
+    }
+
+    console.log(`[LLM] Batch complete: order sets for ${decisions.size}/${agents.length} agents\n`);
     return decisions;
   } catch (error: any) {
     // Check for rate limit errors and re-throw with a specific marker
@@ -363,7 +453,7 @@ IMPORTANT RULES:
       throw rateLimitError;
     }
     // For other errors, log and return empty decisions
-    console.error('[LLM] Error calling Groq API:', error);
+    console.error('[LLM] Error calling LLM API:', error);
     if (error instanceof Error) {
       console.error('[LLM] Error message:', error.message);
     }
@@ -380,24 +470,25 @@ export async function callLLMForYesNoStrategy(
   market: MarketState,
   marketStrategy: MarketStrategy
 ): Promise<TradeDecision | null> {
-  console.log(`\n[LLM] ${agent.personality.name} (${agent.id}) - Using Groq API`);
-  console.log(`[LLM] Model: ${GROQ_MODEL}`);
+  console.log(`\n[LLM] ${agent.personality.name} (${agent.id}) - Using ${getProvider().name} API`);
+  console.log(`[LLM] Model: ${getProvider().name}/${getProvider().model}`);
   console.log(`[LLM] Strategy: ${marketStrategy.name}`);
 
-  if (isDev) {
+  // Dev mode bypasses the LLM unless recorded turns are being replayed
+  if (isDev && !isLLMReplay) {
     console.log(`[LLM] Dev mode active - skipping LLM call for ${agent.personality.name}`);
     return null;
   }
 
-  if (!GROQ_API_KEY) {
+  if (!getProvider().isConfigured()) {
     console.log(`[LLM] No API key configured - falling back to default strategy`);
     return null; // No API key configured, fallback to default strategy
   }
 
   const { personality } = agent;
-  // Get prices from new AMM (YES + NO ≈ 1.0)
-  const yesPrice = getYESPrice(marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve);
-  const noPrice = getNOPrice(marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve);
+  // Implied probabilities from the vUSDC/YES pool (YES + NO = 1.0)
+  const yesPrice = getYESProbability(marketStrategy);
+  const noPrice = getNOProbability(marketStrategy);
   const yesHistory = marketStrategy.yesToken.history.slice(-10);
   const noHistory = marketStrategy.noToken.history.slice(-10);
 
@@ -429,7 +520,7 @@ export async function callLLMForYesNoStrategy(
   const recentActions = agent.roundMemory.slice(-10); // Last 10 actions
   const memoryContext = recentActions.length > 0
     ? `\n=== YOUR RECENT ACTIONS IN THIS ROUND ===\n${recentActions.map((action, idx) =>
-      `${idx + 1}. ${action.action.toUpperCase()} ${action.quantity} ${action.tokenType.toUpperCase()} @ $${action.price.toFixed(4)} - ${action.reasoning}`
+      `${idx + 1}. ${action.action.toUpperCase()} ${action.quantity} ${action.tokenType.toUpperCase()} @ $${action.price.toFixed(4)}${action.outcome === 'slippage-reverted' ? ' [REVERTED: slippage]' : ''} - ${action.reasoning}`
     ).join('\n')}\n`
     : '\n=== YOUR RECENT ACTIONS IN THIS ROUND ===\nNo actions yet in this round.\n';
 
@@ -476,55 +567,42 @@ Based on your personality, the market data, and timing context, make a trading d
   "action": "buy" | "sell" | "hold",
   "tokenType": "yes" | "no",
   "quantity": <number> (0 if hold, otherwise positive integer),
+  "probability": <number> (0-1, your estimate that the chosen token pays out, i.e. for YES that the proposal graduates),
   "reasoning": "<Professional first-person reasoning (2-4 sentences, 80-150 words) explaining your trading decision. Include: detailed market analysis, current price evaluation, risk assessment, timing considerations, and how this decision aligns with your trading philosophy. Write as a professional trader would explain their decision to a colleague.>"
 }
 
 Important constraints:
 - If action is "buy", quantity must be affordable with your CURRENT vUSD balance shown above (this is the LATEST balance synced from blockchain)
 - If action is "sell", quantity cannot exceed your holdings for the chosen token type
+- Order sizes are capped by position sizing on the edge between "probability" and the token price: buys need "probability" above the price
 - If action is "hold", quantity must be 0 (you can hold to wait for better opportunities)
 - Use the EXACT "CURRENT vUSD Balance" shown above for all calculations - this is synced from blockchain
 - Consider the timing: you make decisions every 2 seconds, resolution happens after ~${market.roundsUntilResolution} rounds
 - Be true to your personality traits and trading philosophy`;
 
   try {
-    // Call Groq via OpenAI SDK (consistent with other LLM calls)
+    // Call the configured provider (consistent with other LLM calls)
     const systemPrompt = 'You are a trading agent AI. Respond only with valid JSON.';
     const fullPrompt = `${systemPrompt}\n\n${prompt}`;
 
-    console.log(`[LLM] Making API call to Groq via OpenAI SDK...`);
-    const content = await simpleGroqCompletion(fullPrompt);
+    console.log(`[LLM] Making API call to ${getProvider().name}...`);
+    const content = await simpleCompletion(fullPrompt, { schema: { name: 'decision', schema: DECISION_SCHEMA } });
 
-    console.log(`[LLM] Received response from Groq`);
+    console.log(`[LLM] Received response from ${getProvider().name}`);
     console.log(`[LLM] Raw LLM Response:\n${content}\n`);
 
     if (!content) {
-      console.error('[LLM] Groq API returned no content');
+      console.error('[LLM] LLM API returned no content');
       return null;
     }
 
-    // Try to extract JSON from the response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error('[LLM] LLM response does not contain valid JSON');
-      console.error(`[LLM] Response was: ${content.substring(0, 200)}...`);
+    const decision = await completeStructured<any>('decision', fullPrompt, content, DECISION_SCHEMA);
+    if (!decision) {
+      console.error('[LLM] LLM response does not match the decision schema');
       return null;
     }
-
-    const decision = JSON.parse(jsonMatch[0]);
     console.log(`[LLM] Parsed Decision:`, JSON.stringify(decision, null, 2));
 
-    // Validate the decision
-    if (!['buy', 'sell', 'hold'].includes(decision.action)) {
-      console.error(`[LLM] Invalid action from LLM: ${decision.action}`);
-      return null;
-    }
-
-    if (!['yes', 'no'].includes(decision.tokenType)) {
-      console.error(`[LLM] Invalid tokenType from LLM: ${decision.tokenType}`);
-      return null;
-    }
-
     console.log(`[LLM] Valid decision: ${decision.action.toUpperCase()} ${decision.quantity} ${decision.tokenType.toUpperCase()}`);
 
     const tokenPrice = decision.tokenType === 'yes' ? yesPrice : noPrice;
@@ -536,21 +614,15 @@ Important constraints:
     const token = decision.tokenType === 'yes' ? marketStrategy.yesToken : marketStrategy.noToken;
 
     if (decision.action === 'buy') {
-      // Calculate max tokens affordable with AMM
-      const maxVUSDToSpend = agent.vUSD * personality.aggressiveness;
-      if (maxVUSDToSpend > 0) {
-        // Estimate max tokens using new AMM
-        const estimatedMaxTokens = decision.tokenType === 'yes'
-          ? Math.floor(calculateYESForVUSD(maxVUSDToSpend, marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve))
-          : Math.floor(calculateNOForVUSD(maxVUSDToSpend, marketStrategy.yesToken.tokenReserve, marketStrategy.noToken.tokenReserve));
-        quantity = Math.min(quantity, estimatedMaxTokens);
-      }
+      const probability = getDecisionProbability(decision, tokenPrice, 'buy');
+      quantity = Math.min(quantity, sizeOrder({ agent, market, marketStrategy, side: 'buy', tokenType: decision.tokenType, probability }));
       if (quantity === 0 || agent.vUSD <= 0) {
         decision.action = 'hold';
         quantity = 0;
       }
     } else if (decision.action === 'sell') {
-      quantity = Math.min(quantity, holdings);
+      const probability = getDecisionProbability(decision, tokenPrice, 'sell');
+      quantity = Math.min(quantity, holdings, sizeOrder({ agent, market, marketStrategy, side: 'sell', tokenType: decision.tokenType, probability }));
       if (quantity === 0 || holdings < quantity) {
         decision.action = 'hold';
         quantity = 0;
@@ -574,7 +646,7 @@ Important constraints:
 
     return finalDecision;
   } catch (error) {
-    console.error('[LLM] Error calling Groq API:', error);
+    console.error('[LLM] Error calling LLM API:', error);
     if (error instanceof Error) {
       console.error('[LLM] Error message:', error.message);
       console.error('[LLM] Error stack:', error.stack);
@@ -590,19 +662,20 @@ Important constraints:
 export async function generateStrategiesFromDataSources(
   count: number = 5
 ): Promise<MarketStrategy[]> {
-  const dataSources = getAllDataSources();
+  const dataSources = getAllDataSources().filter(ds => !isApiDataSource(ds));
+  const apiDataSources = getAllDataSources().filter(ds => isApiDataSource(ds));
 
-  const apiDataSourcesCount = 3; // Exchange Rate, Inflation, Income Tax
-  const totalDataSourcesCount = dataSources.length + apiDataSourcesCount;
-  console.log(`\n[LLM] Generating ${count} unique market strategies based on ${totalDataSourcesCount} trusted data sources (${dataSources.length} hardcoded + ${apiDataSourcesCount} API-based)...`);
-  console.log(`[LLM] Model: ${GROQ_MODEL}`);
+  const totalDataSourcesCount = dataSources.length + apiDataSources.length;
+  console.log(`\n[LLM] Generating ${count} unique market strategies based on ${totalDataSourcesCount} trusted data sources (${dataSources.length} DIA + ${apiDataSources.length} API-based)...`);
+  console.log(`[LLM] Model: ${getProvider().name}/${getProvider().model}`);
 
-  if (isDev) {
+  // Dev mode bypasses the LLM unless recorded turns are being replayed
+  if (isDev && !isLLMReplay) {
     console.log(`[LLM] Dev mode active - using default strategies`);
     return [];
   }
 
-  if (!GROQ_API_KEY) {
+  if (!getProvider().isConfigured()) {
     console.log(`[LLM] No API key configured - using default strategies`);
     return [];
   }
@@ -613,11 +686,13 @@ export async function generateStrategiesFromDataSources(
     return `- [${ds.ticker}] ${ds.name} (${ds.type}) - ID: ${ds.id}`;
   }).join('\n');
 
-  // API sources are currently disabled in tools, so we hide them from prompt to avoid confusion
-  const apiSourcesSummary = "API-based sources (Exchange Rates, Inflation) are currently disabled. Focus on DIA assets above.";
+  // API Ninjas sources: exchange rates (units per USD), yearly inflation (%) and top income tax rates (%)
+  const apiSourcesSummary = apiDataSources.map(ds => {
+    return `- [${ds.ticker}] ${ds.name} (${ds.type}) - ID: ${ds.id}`;
+  }).join('\n');
 
   const nowFormatted = new Date().toLocaleDateString('en-US', { day: 'numeric', month: 'long', year: 'numeric' });
-  const totalDataSources = dataSources.length;
+  const totalDataSources = totalDataSourcesCount;
 
   const prompt = `You are generating ${count} unique, verifiable REAL WORLD ASSET (RWA) market prediction strategies for a prediction market platform.
 Current Date: ${nowFormatted}
@@ -642,6 +717,8 @@ Total: ${totalDataSources} data sources available.
 === TOOLS YOU MUST USE TO VERIFY DATA ===
 - get_dia_prices(tickers: string[]): Returns live prices for multiple assets in ONE call.
   VALID TICKERS: SPY, QQQ, VOO, VTI, TLT, IBIT, FBTC, BTC, ETH, WTI, NG, XBR, CAD, AUD, CNY, GBP.
+- get_macro_data(tickers: string[]): Returns current values of the API-based sources above (exchange rates, inflation, income tax) in ONE call.
+  Values are in the units of the ticker: USD_XXX = units of XXX per USD, XX_CPI = yearly inflation in %, XX_INCOME_TAX = top federal rate in %.
 
 === STRATEGY REQUIREMENTS ===
 - Each strategy MUST have a clear "timeLimitDays" field (e.g., 2, 7, 30).
@@ -653,7 +730,7 @@ Total: ${totalDataSources} data sources available.
 - Evaluation Logic: Human-readable logic for frontend (e.g. "(SPY > 700 AND QQQ > 550)" or "(BTC > 100000 OR ETH > 5000)").
 - Mathematical Logic: Pure machine-readable logic for automated check.
 - Verification Source: The specific "ID" of the data source used for verification (from the list above).
-- IMPORTANT: You MUST call 'get_dia_prices' with relevant tickers to verify current values before generating strategies.
+- IMPORTANT: You MUST call 'get_dia_prices' (and 'get_macro_data' for API-based sources) with relevant tickers to verify current values before generating strategies.
 
 === MULTI-DATA SOURCE STRATEGIES (REQUIRED) ===
 IMPORTANT: At least 3 out of ${count} strategies MUST use MULTIPLE data sources (2-3 assets) combined with AND/OR logic.
@@ -663,6 +740,7 @@ Examples of multi-data source strategies:
 2. "Energy Sector Downturn": (WTI < 60 AND NG < 3) - Both oil and natural gas must drop below thresholds
 3. "Market Divergence": (QQQ > 550 OR TLT > 95) - Either Nasdaq rises OR bonds rise (flight to safety scenario)
 4. "Broad Market Growth": (VOO > 650 AND VTI > 300 AND SPY > 700) - All major indices must exceed targets
+5. "Strong Dollar, Cooling Prices": (USD_GBP > 0.80 AND DE_CPI < 3) - Dollar strengthens against the pound while German inflation falls below 3%
 
 When using multiple data sources:
 - Include ALL data sources in the "usedDataSources" array
@@ -680,7 +758,7 @@ Generate exactly ${count} unique RWA strategies. Respond ONLY with a JSON array
     "usedDataSources": [
       {
         "id": <number (The ID from the list above)>,
-        "currentValue": <number (The value you saw from get_dia_prices)>,
+        "currentValue": <number (The value you saw from get_dia_prices or get_macro_data)>,
         "targetValue": <number (The target value for the prediction)>,
         "operator": ">" | "<" | ">=" | "<="
       },
@@ -708,17 +786,17 @@ CRITICAL RULES:
 
   // First, try with tools enabled
   try {
-    console.log(`[LLM] Calling Groq via OpenAI SDK with tool access for ${nowFormatted}...`);
+    console.log(`[LLM] Calling ${getProvider().name} with tool access for ${nowFormatted}...`);
 
-    // Use OpenAI SDK with Groq's OpenAI-compatible endpoint for proper tool support
-    content = await handleOpenAIToolConversation(
+    // Tool-enabled conversation through the configured provider
+    content = await handleToolConversation(
       fullPrompt,
       [], // No agents yet during initialization
       { strategies: [] } as any, // Dummy market state
       3 // Max 3 tool calls (reduced to avoid rate limits)
     );
 
-    console.log(`[LLM] Received response from Groq (with tools)`);
+    console.log(`[LLM] Received response from ${getProvider().name} (with tools)`);
   } catch (toolError) {
     console.error('[LLM] ⚠️ Tool-enabled call failed:', toolError);
     content = null;
@@ -730,9 +808,9 @@ CRITICAL RULES:
       console.log(`[LLM] 🔄 Retrying without tools...`);
       
       // Use simple completion without tools as fallback
-      content = await simpleGroqCompletion(fullPrompt);
+      content = await simpleCompletion(fullPrompt, { schema: { name: 'strategies', schema: STRATEGIES_SCHEMA } });
       
-      console.log(`[LLM] Received response from Groq (without tools)`);
+      console.log(`[LLM] Received response from ${getProvider().name} (without tools)`);
     } catch (fallbackError) {
       console.error('[LLM] ❌ Fallback (no tools) also failed:', fallbackError);
       return [];
@@ -740,19 +818,16 @@ CRITICAL RULES:
   }
 
   if (!content) {
-    console.error('[LLM] ❌ Groq API returned no content after both attempts');
+    console.error('[LLM] ❌ LLM API returned no content after both attempts');
     return [];
   }
 
   try {
-    const jsonMatch = content.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      console.error('[LLM] LLM response does not contain valid JSON array');
-      console.error(`[LLM] Response was: ${content.substring(0, 500)}...`);
+    const strategyData = await completeStructured<any[]>('strategies', fullPrompt, content, STRATEGIES_SCHEMA);
+    if (!strategyData) {
+      console.error('[LLM] LLM response does not match the strategy schema');
       return [];
     }
-
-    const strategyData = JSON.parse(jsonMatch[0]);
     console.log(`[LLM] Parsed ${strategyData.length} RWA strategies with time limits`);
 
     const initialTokenReserve = 2000;
@@ -772,6 +847,7 @@ CRITICAL RULES:
         mathematicalLogic: strategy.mathematicalLogic || '',
         usedDataSources: Array.isArray(strategy.usedDataSources) ? strategy.usedDataSources : [],
         resolutionDeadline,
+        pool: createPool(initialTokenReserve),
         yesToken: {
           tokenReserve: initialTokenReserve,
           volume: 0,
@@ -792,14 +868,80 @@ CRITICAL RULES:
       };
     });
 
-    console.log(`[LLM] Generated ${strategies.length} verified RWA strategies with deadlines\n`);
-    return strategies;
+    // Reject strategies whose logic doesn't parse or references tickers outside usedDataSources
+    const validStrategies = strategies.filter(strategy => {
+      const logicError = validateProposalLogic(strategy);
+      if (logicError) {
+        console.warn(`[LLM] Rejected strategy "${strategy.name}": ${logicError}`);
+        return false;
+      }
+      return true;
+    });
+
+    console.log(`[LLM] Generated ${validStrategies.length} verified RWA strategies with deadlines\n`);
+    return validStrategies;
   } catch (error) {
     console.error('[LLM] Error parsing strategy response:', error);
     return [];
   }
 }
 
+/**
+ * Post-round lessons for each agent, written in its own voice from its round outcome (one batched call)
+ * Returns lessons by agent id; agents missing from the response are left to rule-derived lessons
+ */
+export async function generateAgentReflections(agents: Agent[]): Promise<Map<string, string>> {
+  const lessons = new Map<string, string>();
+  if (!getProvider().isConfigured() || agents.length === 0) return lessons;
+
+  const agentsContext = agents.map(agent => {
+    const outcome = agent.memory?.[agent.memory.length - 1];
+    const previous = getReflectionsForPrompt(agent, 150);
+    return `
+Agent ${agent.id}: ${agent.personality.name}
+- Risk Tolerance: ${agent.personality.riskTolerance}, Aggressiveness: ${agent.personality.aggressiveness}
+- Philosophy: ${agent.personality.memo}
+- This round: ${outcome ? summarizeOutcome(outcome) : 'no outcome recorded'}
+- Earlier reflections: ${previous.length > 0 ? previous.join(' | ') : 'None'}`;
+  }).join('\n');
+
+  const prompt = `A prediction market round just closed. Only one proposal graduated: its YES tokens settle at 1 and every other proposal's YES at 0 (NO tokens settle at the complement).
+
+For each agent below, write the lessons it takes into the next round, based on what it held at the close and how that settled.
+${agentsContext}
+
+Respond ONLY with a JSON array in this exact format:
+[
+  { "agentId": "agent-1", "lessons": "<1-3 first-person sentences: what worked or failed and what I will do differently next round>" }
+]`;
+
+  try {
+    const systemPrompt = 'You are writing post-round trading reflections for AI agents. Respond only with valid JSON array.';
+    const fullPrompt = `${systemPrompt}\n\n${prompt}`;
+    const schema = getReflectionsSchema(agents.map(a => a.id));
+    const content = await simpleCompletion(fullPrompt, { schema: { name: 'reflections', schema } });
+    if (!content) {
+      console.error('[LLM] LLM API returned no content for reflections');
+      return lessons;
+    }
+
+    const entries = await completeStructured<Array<{ agentId: string; lessons: string }>>('reflections', fullPrompt, content, schema);
+    if (!entries) {
+      console.error('[LLM] Reflection response does not match the reflection schema');
+      return lessons;
+    }
+
+    for (const entry of entries) {
+      lessons.set(entry.agentId, entry.lessons.trim());
+    }
+    console.log(`[LLM] Generated reflections for ${lessons.size}/${agents.length} agents`);
+  } catch (error) {
+    console.error('[LLM] Error generating agent reflections:', error);
+  }
+
+  return lessons;
+}
+
 /**
  * Generate AI agent personalities using LLM
  */
@@ -813,14 +955,15 @@ export async function generateAgentPersonalities(
   traits: string[];
 }>> {
   console.log(`\n[LLM] Generating ${count} unique AI agent personalities...`);
-  console.log(`[LLM] Model: ${GROQ_MODEL}`);
+  console.log(`[LLM] Model: ${getProvider().name}/${getProvider().model}`);
 
-  if (isDev) {
+  // Dev mode bypasses the LLM unless recorded turns are being replayed
+  if (isDev && !isLLMReplay) {
     console.log(`[LLM] Dev mode active - using default personalities`);
     return [];
   }
 
-  if (!GROQ_API_KEY) {
+  if (!getProvider().isConfigured()) {
     console.log(`[LLM] No API key configured - using default personalities`);
     return [];
   }
@@ -857,27 +1000,23 @@ CRITICAL:
     const systemPrompt = 'You are generating diverse AI trading agent personalities. Respond only with valid JSON array.';
     const fullPrompt = `${systemPrompt}\n\n${prompt}`;
 
-    console.log(`[LLM] Calling Groq via OpenAI SDK to generate agent personalities...`);
+    console.log(`[LLM] Calling ${getProvider().name} to generate agent personalities...`);
 
-    // Use the OpenAI SDK wrapper which shares the API key
-    const content = await simpleGroqCompletion(fullPrompt);
+    // Use the shared completion helper (configured provider)
+    const content = await simpleCompletion(fullPrompt, { schema: { name: 'personalities', schema: PERSONALITIES_SCHEMA } });
 
-    console.log(`[LLM] ✅ Received response from Groq`);
+    console.log(`[LLM] ✅ Received response from ${getProvider().name}`);
 
     if (!content) {
-      console.error('[LLM] ❌ Groq API returned no content');
+      console.error('[LLM] ❌ LLM API returned no content');
       return [];
     }
 
-    // Try to extract JSON array from the response
-    const jsonMatch = content.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      console.error('[LLM] ❌ LLM response does not contain valid JSON array');
-      console.error(`[LLM] Response was: ${content.substring(0, 200)}...`);
+    const personalityData = await completeStructured<any[]>('personalities', fullPrompt, content, PERSONALITIES_SCHEMA);
+    if (!personalityData) {
+      console.error('[LLM] ❌ LLM response does not match the personality schema');
       return [];
     }
-
-    const personalityData = JSON.parse(jsonMatch[0]);
     console.log(`[LLM] 📊 Parsed ${personalityData.length} personalities:`, JSON.stringify(personalityData, null, 2));
 
     // Validate and normalize personalities
@@ -916,7 +1055,7 @@ CRITICAL:
 
     return personalities;
   } catch (error) {
-    console.error('[LLM] ❌ Error calling Groq API for personality generation:', error);
+    console.error('[LLM] ❌ Error calling LLM API for personality generation:', error);
     if (error instanceof Error) {
       console.error('[LLM] Error message:', error.message);
     }
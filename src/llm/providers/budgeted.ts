@@ -0,0 +1,31 @@
+import { isLLMReplay } from '../../core/config';
+import { checkBudget, recordUsage } from '../budget';
+import type { ChatRequest, ChatResponse, LLMProvider } from './index';
+
+/**
+ * Wraps a provider with the token budget: requests are checked against it first and their usage counted
+ * (replayed turns make no API call and are not charged)
+ */
+export class BudgetedProvider implements LLMProvider {
+    constructor(private inner: LLMProvider) {}
+
+    get name() {
+        return this.inner.name;
+    }
+
+    get model() {
+        return this.inner.model;
+    }
+
+    isConfigured(): boolean {
+        return this.inner.isConfigured();
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        if (isLLMReplay) return this.inner.chat(request);
+        checkBudget(request);
+        const response = await this.inner.chat(request);
+        recordUsage(request, response);
+        return response;
+    }
+}
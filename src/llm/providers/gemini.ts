@@ -0,0 +1,96 @@
+import { GoogleGenAI, type Content, type Part } from '@google/genai';
+import { LLMRateLimitError, type ChatRequest, type ChatResponse, type LLMMessage, type LLMProvider } from './index';
+
+function isRateLimitError(error: any): boolean {
+    return error?.status === 429 || error?.message?.includes('RESOURCE_EXHAUSTED');
+}
+
+function parseArguments(text: string): Record<string, unknown> {
+    try {
+        return JSON.parse(text || '{}');
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Gemini contents from chat messages: assistant turns become "model" turns, tool results function responses
+ * System messages are passed separately as the system instruction
+ */
+function toContents(messages: LLMMessage[]): Content[] {
+    return messages.filter(m => m.role !== 'system').map(message => {
+        if (message.role === 'tool') {
+            return {
+                role: 'user',
+                parts: [{ functionResponse: { id: message.toolCallId, name: message.name, response: { result: message.content } } }],
+            };
+        }
+        if (message.role === 'assistant') {
+            const parts: Part[] = message.content ? [{ text: message.content }] : [];
+            for (const call of message.toolCalls ?? []) {
+                parts.push({ functionCall: { id: call.id, name: call.name, args: parseArguments(call.arguments) } });
+            }
+            return { role: 'model', parts };
+        }
+        return { role: 'user', parts: [{ text: message.content }] };
+    });
+}
+
+/**
+ * Google Gemini through @google/genai
+ */
+export class GeminiProvider implements LLMProvider {
+    readonly name = 'gemini' as const;
+    private client: GoogleGenAI | null = null;
+
+    constructor(private apiKey: string, readonly model: string) {}
+
+    isConfigured(): boolean {
+        return this.apiKey !== '';
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        this.client ??= new GoogleGenAI({ apiKey: this.apiKey });
+        const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+        try {
+            const response = await this.client.models.generateContent({
+                model: this.model,
+                contents: toContents(request.messages),
+                config: {
+                    ...(system ? { systemInstruction: system } : {}),
+                    ...(request.tools?.length ? {
+                        tools: [{
+                            functionDeclarations: request.tools.map(tool => ({
+                                name: tool.name,
+                                description: tool.description,
+                                parametersJsonSchema: tool.parameters,
+                            })),
+                        }],
+                    } : {}),
+                    // Gemini rejects a JSON response type together with function calling
+                    ...((request.json || request.schema) && !request.tools?.length ? { responseMimeType: 'application/json' } : {}),
+                    ...(request.schema && !request.tools?.length ? { responseJsonSchema: request.schema.schema } : {}),
+                    ...(request.maxTokens !== undefined ? { maxOutputTokens: request.maxTokens } : {}),
+                    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+                    ...(request.signal ? { abortSignal: request.signal } : {}),
+                },
+            });
+
+            return {
+                content: response.text ?? null,
+                toolCalls: (response.functionCalls ?? []).map((call, index) => ({
+                    id: call.id ?? `call-${index}`,
+                    name: call.name ?? '',
+                    arguments: JSON.stringify(call.args ?? {}),
+                })),
+                usage: response.usageMetadata
+                    ? { promptTokens: response.usageMetadata.promptTokenCount ?? 0, completionTokens: response.usageMetadata.candidatesTokenCount ?? 0 }
+                    : undefined,
+            };
+        } catch (error) {
+            if (isRateLimitError(error)) throw new LLMRateLimitError(this.name, error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,115 @@
+import type { JSONSchema } from '../structured';
+import { config } from '../../core/config';
+import { log } from '../../core/logger';
+import { OpenAICompatibleProvider } from './openai';
+import { GeminiProvider } from './gemini';
+import { MockProvider } from './mock';
+import { RecordingProvider } from './recording';
+import { BudgetedProvider } from './budgeted';
+import { getRecorder } from '../recorder';
+
+export type LLMProviderName = typeof config.llm.provider;
+
+export interface LLMToolCall {
+    id: string;
+    name: string;
+    arguments: string; // JSON encoded
+}
+
+export interface LLMMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    toolCalls?: LLMToolCall[]; // Assistant turns that called tools
+    toolCallId?: string; // Tool results
+    name?: string; // Tool results: name of the tool that produced them
+}
+
+/**
+ * Function the model may call, parameters as JSON Schema
+ */
+export interface LLMTool {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+}
+
+export interface ChatRequest {
+    messages: LLMMessage[];
+    tools?: LLMTool[];
+    json?: boolean; // Ask for a single JSON object (not honored together with tools by every provider)
+    schema?: { name: string; schema: JSONSchema }; // Native structured output where the provider supports it, otherwise JSON mode for objects
+    maxTokens?: number;
+    temperature?: number;
+    signal?: AbortSignal; // Cancels the in-flight request (e.g. the per-agent decision timeout)
+}
+
+export interface ChatResponse {
+    content: string | null;
+    toolCalls: LLMToolCall[];
+    usage?: { promptTokens: number; completionTokens: number };
+}
+
+/**
+ * Chat model backend used by every LLM call (decisions, strategy generation, reflections).
+ * Implementations throw LLMRateLimitError when the API rate-limits, other failures as plain errors.
+ */
+export interface LLMProvider {
+    readonly name: LLMProviderName;
+    readonly model: string;
+    isConfigured(): boolean;
+    chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+/**
+ * Thrown by providers when the API rate-limits; the trading loop stops calling the LLM for the rest of the round
+ */
+export class LLMRateLimitError extends Error {
+    readonly isRateLimit = true;
+
+    constructor(public readonly provider: LLMProviderName, public readonly originalError?: unknown) {
+        super('LLM_RATE_LIMIT');
+        this.name = 'LLMRateLimitError';
+    }
+}
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Create an LLM provider by name
+ */
+export function createProvider(name: LLMProviderName): LLMProvider {
+    switch (name) {
+        case 'openai':
+            return new OpenAICompatibleProvider('openai', config.openai.apiKey, config.openai.model, config.openai.baseUrl, true);
+        case 'gemini':
+            return new GeminiProvider(config.gemini.apiKey, config.gemini.model);
+        case 'mock':
+            return new MockProvider();
+        case 'groq':
+            // Groq only honors json_schema on a few models, so schemas fall back to JSON mode
+            return new OpenAICompatibleProvider('groq', config.groq.apiKey, config.groq.model, 'https://api.groq.com/openai/v1', false);
+        default:
+            throw new Error(`Unknown LLM provider: ${name}`);
+    }
+}
+
+/**
+ * Get the active LLM provider (created lazily from config, wrapped by the recorder when enabled and the token budget)
+ */
+export function getProvider(): LLMProvider {
+    if (!provider) {
+        const recorder = getRecorder();
+        provider = createProvider(config.llm.provider);
+        if (recorder) provider = new RecordingProvider(provider, recorder);
+        provider = new BudgetedProvider(provider);
+        log('LLM', `Using ${provider.name} provider (${provider.model})${provider.isConfigured() ? '' : ', no API key configured'}`);
+    }
+    return provider;
+}
+
+/**
+ * Replace the active LLM provider (e.g. a scripted MockProvider)
+ */
+export function setProvider(backend: LLMProvider): void {
+    provider = backend;
+}
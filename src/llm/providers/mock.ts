@@ -0,0 +1,35 @@
+import type { ChatRequest, ChatResponse, LLMProvider } from './index';
+
+export type MockResponder = (request: ChatRequest, callIndex: number) => string | ChatResponse;
+
+/**
+ * Deterministic offline provider: answers from a responder or a fixed list of responses (cycled)
+ * Without either it returns an empty JSON array (an empty object in JSON mode), so callers take their fallbacks
+ */
+export class MockProvider implements LLMProvider {
+    readonly name = 'mock' as const;
+    readonly model = 'mock';
+    readonly requests: ChatRequest[] = []; // Every request received, in order
+    private responder: MockResponder;
+
+    constructor(responses?: MockResponder | (string | ChatResponse)[]) {
+        if (typeof responses === 'function') {
+            this.responder = responses;
+        } else if (responses && responses.length > 0) {
+            this.responder = (_request, callIndex) => responses[callIndex % responses.length]!;
+        } else {
+            this.responder = request => (request.json || request.schema?.schema.type === 'object' ? '{}' : '[]');
+        }
+    }
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        request.signal?.throwIfAborted();
+        this.requests.push(request);
+        const response = this.responder(request, this.requests.length - 1);
+        return typeof response === 'string' ? { content: response, toolCalls: [] } : response;
+    }
+}
@@ -0,0 +1,107 @@
+import OpenAI from 'openai';
+import { LLMRateLimitError, type ChatRequest, type ChatResponse, type LLMMessage, type LLMProvider, type LLMProviderName } from './index';
+
+/**
+ * Rate-limit errors as reported by OpenAI-compatible APIs (Groq uses 429 and "rate_limit_exceeded")
+ */
+function isRateLimitError(error: any): boolean {
+    return error?.status === 429 ||
+        error?.code === 429 ||
+        error?.message?.includes('rate limit') ||
+        error?.message?.includes('Rate limit') ||
+        error?.message?.includes('exceeded') ||
+        error?.error?.code === 'rate_limit_exceeded';
+}
+
+function toOpenAIMessage(message: LLMMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+    switch (message.role) {
+        case 'tool':
+            return { role: 'tool', tool_call_id: message.toolCallId ?? '', content: message.content };
+        case 'assistant':
+            return {
+                role: 'assistant',
+                content: message.content,
+                ...(message.toolCalls?.length ? {
+                    tool_calls: message.toolCalls.map(call => ({
+                        id: call.id,
+                        type: 'function' as const,
+                        function: { name: call.name, arguments: call.arguments },
+                    })),
+                } : {}),
+            };
+        default:
+            return { role: message.role, content: message.content };
+    }
+}
+
+/**
+ * response_format for a request: json_schema when supported (object roots only), else json_object for objects
+ * Array schemas get no response_format since JSON mode only produces objects
+ */
+function getResponseFormat(request: ChatRequest, supportsJsonSchema: boolean): OpenAI.Chat.Completions.ChatCompletionCreateParams['response_format'] {
+    if (request.schema?.schema.type === 'object') {
+        return supportsJsonSchema
+            ? { type: 'json_schema', json_schema: { name: request.schema.name, schema: request.schema.schema as unknown as Record<string, unknown> } }
+            : { type: 'json_object' };
+    }
+    return request.json && !request.schema ? { type: 'json_object' } : undefined;
+}
+
+/**
+ * Chat completions over the OpenAI SDK, for OpenAI itself and compatible endpoints (Groq, local servers)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    private client: OpenAI;
+
+    constructor(
+        readonly name: LLMProviderName,
+        private apiKey: string,
+        readonly model: string,
+        baseURL: string,
+        private supportsJsonSchema: boolean
+    ) {
+        this.client = new OpenAI({
+            apiKey: apiKey || 'missing', // The SDK throws on an empty key; isConfigured() keeps callers from using it
+            baseURL,
+            maxRetries: 0, // Disable built-in SDK retries to ensure immediate fallback
+        });
+    }
+
+    isConfigured(): boolean {
+        return this.apiKey !== '';
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResponse> {
+        const responseFormat = getResponseFormat(request, this.supportsJsonSchema);
+        try {
+            const response = await this.client.chat.completions.create({
+                model: this.model,
+                messages: request.messages.map(toOpenAIMessage),
+                ...(request.tools?.length ? {
+                    tools: request.tools.map(tool => ({
+                        type: 'function' as const,
+                        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+                    })),
+                    tool_choice: 'auto' as const,
+                } : {}),
+                ...(responseFormat ? { response_format: responseFormat } : {}),
+                ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+                ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+            }, { signal: request.signal });
+
+            const message = response.choices[0]?.message;
+            return {
+                content: message?.content ?? null,
+                toolCalls: (message?.tool_calls ?? []).flatMap(call =>
+                    call.type === 'function' ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments || '{}' }] : []
+                ),
+                usage: response.usage
+                    ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+                    : undefined,
+            };
+        } catch (error) {
+            if (isRateLimitError(error)) throw new LLMRateLimitError(this.name, error);
+            throw error;
+        }
+    }
+}
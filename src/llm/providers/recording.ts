@@ -0,0 +1,25 @@
+import type { LLMRecorder } from '../recorder';
+import type { ChatRequest, ChatResponse, LLMProvider } from './index';
+
+/**
+ * Wraps a provider with the recorder: turns are recorded, or in replay mode served without calling the provider
+ */
+export class RecordingProvider implements LLMProvider {
+    constructor(private inner: LLMProvider, private recorder: LLMRecorder) {}
+
+    get name() {
+        return this.inner.name;
+    }
+
+    get model() {
+        return this.inner.model;
+    }
+
+    isConfigured(): boolean {
+        return this.recorder.mode === 'replay' || this.inner.isConfigured();
+    }
+
+    chat(request: ChatRequest): Promise<ChatResponse> {
+        return this.recorder.chat(this.model, request.messages, () => this.inner.chat(request));
+    }
+}
@@ -0,0 +1,163 @@
+/**
+ * LLM Record/Replay
+ *
+ * In record mode every chat turn and tool result is appended to a JSONL file
+ * with the full conversation so far; in replay mode they are served from that
+ * file instead of the provider and the tools, so LLM-driven rounds can be
+ * rerun offline.
+ */
+
+import { createHash } from 'node:crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { config } from '../core/config';
+import { log } from '../core/logger';
+import type { ChatResponse, LLMMessage } from './providers';
+
+export type RecorderMode = typeof config.llm.recorder.mode;
+
+export interface RecordingEntry {
+    kind: 'chat' | 'tool';
+    key: string; // Hash of model, normalized conversation and tool call
+    channel: string; // Call site and turn, for in-order fallback when the exact key is missing
+    model: string;
+    messages: LLMMessage[]; // Conversation up to this turn (tool results included)
+    response?: ChatResponse; // Chat turns
+    toolCall?: { name: string; arguments: string }; // Tool results
+    result?: string;
+    recordedAt: string;
+}
+
+/**
+ * Thrown in replay mode when no recording matches a request
+ */
+export class LLMReplayMissError extends Error {
+    constructor(kind: RecordingEntry['kind'], channel: string) {
+        super(`No recorded ${kind} for ${channel}`);
+        this.name = 'LLMReplayMissError';
+    }
+}
+
+/**
+ * Strip values that change between otherwise identical runs (timestamps, elapsed times, timestamped ids)
+ */
+function normalize(text: string): string {
+    return text
+        .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z/g, '<time>')
+        .replace(/\b\d{13}\b/g, '<ts>')
+        .replace(/-?\d+(\.\d+)?s\b/g, '<duration>');
+}
+
+function hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex').slice(0, 24);
+}
+
+/**
+ * Call site (first prompt line) and turn number of a conversation
+ */
+function getChannel(kind: RecordingEntry['kind'], messages: LLMMessage[], suffix: string = ''): string {
+    const firstLine = normalize(messages[0]?.content.split('\n')[0] ?? '');
+    return `${kind}:${hash(firstLine)}:${messages.length}${suffix}`;
+}
+
+function getKey(model: string, messages: LLMMessage[], extra: string = ''): string {
+    return hash(JSON.stringify([model, messages.map(m => ({ ...m, content: normalize(m.content) })), extra]));
+}
+
+export class LLMRecorder {
+    private entries: RecordingEntry[] = [];
+    private consumed = new Set<RecordingEntry>();
+
+    constructor(readonly mode: Exclude<RecorderMode, 'off'>, readonly path: string) {
+        if (mode === 'replay') {
+            if (!existsSync(path)) {
+                throw new Error(`LLM recording not found: ${path}`);
+            }
+            this.entries = readFileSync(path, 'utf8')
+                .split('\n')
+                .filter(line => line.trim())
+                .map(line => JSON.parse(line) as RecordingEntry);
+            log('LLM', `Replaying ${this.entries.length} recorded LLM turns from ${path}`);
+        } else {
+            mkdirSync(dirname(path), { recursive: true });
+            log('LLM', `Recording LLM conversations to ${path}`);
+        }
+    }
+
+    private append(entry: RecordingEntry): void {
+        appendFileSync(this.path, `${JSON.stringify(entry)}\n`);
+    }
+
+    /**
+     * Recorded entry for a key, else the next unused entry of the same channel in recording order
+     */
+    private take(kind: RecordingEntry['kind'], key: string, channel: string): RecordingEntry {
+        const entry = this.entries.find(e => e.kind === kind && e.key === key && !this.consumed.has(e))
+            ?? this.entries.find(e => e.kind === kind && e.key === key)
+            ?? this.entries.find(e => e.kind === kind && e.channel === channel && !this.consumed.has(e));
+        if (!entry) {
+            throw new LLMReplayMissError(kind, channel);
+        }
+        if (entry.key !== key) {
+            log('LLM', `Replay: no exact match for ${channel}, using next recorded turn`, 'debug');
+        }
+        this.consumed.add(entry);
+        return entry;
+    }
+
+    /**
+     * Chat turn: served from the recording in replay mode, otherwise sent and recorded
+     */
+    async chat(model: string, messages: LLMMessage[], send: () => Promise<ChatResponse>): Promise<ChatResponse> {
+        const key = getKey(model, messages);
+        const channel = getChannel('chat', messages);
+        if (this.mode === 'replay') {
+            return structuredClone(this.take('chat', key, channel).response!);
+        }
+
+        const response = await send();
+        this.append({ kind: 'chat', key, channel, model, messages, response, recordedAt: new Date().toISOString() });
+        return response;
+    }
+
+    /**
+     * Tool result for a call made in a conversation: served from the recording in replay mode,
+     * otherwise executed and recorded
+     */
+    async tool(
+        model: string,
+        messages: LLMMessage[],
+        toolCall: { name: string; arguments: string },
+        execute: () => Promise<string>
+    ): Promise<string> {
+        const key = getKey(model, messages, `${toolCall.name}(${toolCall.arguments})`);
+        const channel = getChannel('tool', messages, `:${toolCall.name}`);
+        if (this.mode === 'replay') {
+            return this.take('tool', key, channel).result ?? '';
+        }
+
+        const result = await execute();
+        this.append({ kind: 'tool', key, channel, model, messages, toolCall, result, recordedAt: new Date().toISOString() });
+        return result;
+    }
+}
+
+let recorder: LLMRecorder | null | undefined;
+
+/**
+ * Active recorder from config, null when recording is off
+ */
+export function getRecorder(): LLMRecorder | null {
+    if (recorder === undefined) {
+        const { mode, path } = config.llm.recorder;
+        recorder = mode === 'off' ? null : new LLMRecorder(mode, path);
+    }
+    return recorder;
+}
+
+/**
+ * Replace the active recorder (null disables recording)
+ */
+export function setRecorder(value: LLMRecorder | null): void {
+    recorder = value;
+}
@@ -0,0 +1,295 @@
+/**
+ * Structured LLM Output
+ *
+ * JSON Schema (subset) definitions for every prompt that expects JSON, a
+ * validator reporting per-field errors, one repair re-prompt with those
+ * errors, and parse failure metrics per prompt type.
+ */
+
+import { log } from '../core/logger';
+import { simpleCompletion } from './tools';
+
+export type PromptType = 'decisions' | 'decision' | 'strategies' | 'personalities' | 'reflections';
+
+/**
+ * Subset of JSON Schema understood by the validator (and passed to providers with native structured output)
+ */
+export interface JSONSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    enum?: (string | number)[];
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    properties?: Record<string, JSONSchema>;
+    required?: string[];
+    items?: JSONSchema;
+    minItems?: number;
+    maxItems?: number;
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; errors: string[]; invalidJSON: boolean };
+
+export interface StructuredOutputMetrics {
+    responses: number;
+    parseFailures: number; // Not valid JSON
+    validationFailures: number; // Valid JSON that does not match the schema
+    repairs: number; // Repair re-prompts sent
+    repaired: number; // Repairs that produced a valid response
+    failures: number; // Responses still invalid after the repair
+    failureRate: number; // (parse + validation failures) / responses, before repair
+}
+
+const metrics = new Map<PromptType, Omit<StructuredOutputMetrics, 'failureRate'>>();
+
+const TRADE_ACTIONS = ['buy', 'sell', 'hold'];
+const TOKEN_TYPES = ['yes', 'no'];
+
+/**
+ * Batch order sets: every order must reference an enrolled agent and an active proposal
+ */
+export function getDecisionsSchema(agentIds: string[], strategyIds: string[]): JSONSchema {
+    return {
+        type: 'array',
+        minItems: 1,
+        items: {
+            type: 'object',
+            properties: {
+                agentId: { type: 'string', enum: agentIds },
+                strategyId: { type: 'string', enum: strategyIds },
+                action: { type: 'string', enum: TRADE_ACTIONS },
+                tokenType: { type: 'string', enum: TOKEN_TYPES },
+                quantity: { type: 'number', minimum: 0 },
+                probability: { type: 'number', minimum: 0, maximum: 1 },
+                reasoning: { type: 'string' },
+            },
+            required: ['agentId', 'strategyId', 'action', 'quantity'],
+        },
+    };
+}
+
+export const DECISION_SCHEMA: JSONSchema = {
+    type: 'object',
+    properties: {
+        action: { type: 'string', enum: TRADE_ACTIONS },
+        tokenType: { type: 'string', enum: TOKEN_TYPES },
+        quantity: { type: 'number', minimum: 0 },
+        probability: { type: 'number', minimum: 0, maximum: 1 },
+        reasoning: { type: 'string' },
+    },
+    required: ['action', 'tokenType', 'quantity'],
+};
+
+export const STRATEGIES_SCHEMA: JSONSchema = {
+    type: 'array',
+    minItems: 1,
+    items: {
+        type: 'object',
+        properties: {
+            name: { type: 'string', minLength: 1 },
+            description: { type: 'string' },
+            timeLimitDays: { type: 'number', minimum: 1 },
+            evaluationLogic: { type: 'string', minLength: 1 },
+            mathematicalLogic: { type: 'string', minLength: 1 },
+            usedDataSources: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'integer' },
+                        currentValue: { type: 'number' },
+                        targetValue: { type: 'number' },
+                        operator: { type: 'string', enum: ['>', '<', '>=', '<='] },
+                    },
+                    required: ['id', 'targetValue'],
+                },
+            },
+        },
+        required: ['name', 'description', 'timeLimitDays', 'evaluationLogic', 'mathematicalLogic', 'usedDataSources'],
+    },
+};
+
+export const PERSONALITIES_SCHEMA: JSONSchema = {
+    type: 'array',
+    minItems: 1,
+    items: {
+        type: 'object',
+        properties: {
+            name: { type: 'string', minLength: 1 },
+            riskTolerance: { type: 'string', enum: ['low', 'medium', 'high'] },
+            aggressiveness: { type: 'number', minimum: 0, maximum: 1 },
+            memo: { type: 'string' },
+            traits: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['name', 'riskTolerance', 'aggressiveness', 'memo', 'traits'],
+    },
+};
+
+export function getReflectionsSchema(agentIds: string[]): JSONSchema {
+    return {
+        type: 'array',
+        items: {
+            type: 'object',
+            properties: {
+                agentId: { type: 'string', enum: agentIds },
+                lessons: { type: 'string', minLength: 1 },
+            },
+            required: ['agentId', 'lessons'],
+        },
+    };
+}
+
+function describeType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+/**
+ * Validate a parsed value against a schema, one error per offending field ("$[2].strategyId: ...")
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, path: string = '$'): string[] {
+    const typeMatches =
+        schema.type === 'array' ? Array.isArray(value)
+            : schema.type === 'object' ? typeof value === 'object' && value !== null && !Array.isArray(value)
+                : schema.type === 'integer' ? Number.isInteger(value)
+                    : schema.type === 'number' ? typeof value === 'number' && Number.isFinite(value)
+                        : typeof value === schema.type;
+    if (!typeMatches) {
+        return [`${path}: expected ${schema.type}, got ${describeType(value)}`];
+    }
+
+    const errors: string[] = [];
+    if (schema.enum && !schema.enum.includes(value as string | number)) {
+        errors.push(`${path}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}`);
+    }
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}, got ${value}`);
+        if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}, got ${value}`);
+    }
+    if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        errors.push(`${path}: must not be empty`);
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${path}: must contain at least ${schema.minItems} item(s)`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push(`${path}: must contain at most ${schema.maxItems} item(s)`);
+        }
+        if (schema.items) {
+            value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+        }
+    } else if (schema.type === 'object') {
+        const record = value as Record<string, unknown>;
+        for (const key of schema.required ?? []) {
+            if (record[key] === undefined || record[key] === null) errors.push(`${path}.${key}: is required`);
+        }
+        for (const [key, property] of Object.entries(schema.properties ?? {})) {
+            if (record[key] !== undefined && record[key] !== null) errors.push(...validateSchema(record[key], property, `${path}.${key}`));
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Parse JSON out of a response: the whole text, a fenced code block, or the outermost array/object
+ */
+function extractJSON(content: string, schema: JSONSchema): unknown {
+    const text = content.trim();
+    const candidates = [text];
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (fenced?.[1]) candidates.push(fenced[1].trim());
+    const outermost = text.match(schema.type === 'array' ? /\[[\s\S]*\]/ : /\{[\s\S]*\}/);
+    if (outermost) candidates.push(outermost[0]);
+
+    let lastError: unknown;
+    for (const candidate of candidates) {
+        try {
+            return JSON.parse(candidate);
+        } catch (error) {
+            lastError = error;
+        }
+    }
+    throw lastError;
+}
+
+/**
+ * Parse and validate a response against a schema
+ */
+export function parseStructured<T>(content: string, schema: JSONSchema): ParseResult<T> {
+    let value: unknown;
+    try {
+        value = extractJSON(content, schema);
+    } catch (error) {
+        return { ok: false, invalidJSON: true, errors: [`$: response is not valid JSON (${error instanceof Error ? error.message : error})`] };
+    }
+
+    const errors = validateSchema(value, schema);
+    return errors.length === 0 ? { ok: true, value: value as T } : { ok: false, invalidJSON: false, errors };
+}
+
+function record(promptType: PromptType, update: (entry: Omit<StructuredOutputMetrics, 'failureRate'>) => void): void {
+    const entry = metrics.get(promptType) ?? { responses: 0, parseFailures: 0, validationFailures: 0, repairs: 0, repaired: 0, failures: 0 };
+    update(entry);
+    metrics.set(promptType, entry);
+}
+
+/**
+ * Validate an LLM response; on failure re-prompt once with the validation errors (without tools)
+ * Returns null when the repaired response is still invalid
+ */
+export async function completeStructured<T>(
+    promptType: PromptType,
+    prompt: string,
+    content: string,
+    schema: JSONSchema,
+    signal?: AbortSignal
+): Promise<T | null> {
+    const result = parseStructured<T>(content, schema);
+    record(promptType, entry => {
+        entry.responses++;
+        if (!result.ok && result.invalidJSON) entry.parseFailures++;
+        else if (!result.ok) entry.validationFailures++;
+    });
+    if (result.ok) return result.value;
+
+    log('LLM', `Invalid ${promptType} response (${result.errors.length} errors): ${result.errors.slice(0, 5).join('; ')}`, 'warn');
+
+    const repairPrompt = `${prompt}
+
+=== YOUR PREVIOUS RESPONSE ===
+${content.length > 4000 ? `${content.substring(0, 4000)}...` : content}
+
+=== VALIDATION ERRORS ===
+${result.errors.slice(0, 20).map(e => `- ${e}`).join('\n')}
+
+Your previous response did not match the required format. Fix every error listed above and respond ONLY with the corrected JSON.`;
+
+    record(promptType, entry => entry.repairs++);
+    const repairedContent = await simpleCompletion(repairPrompt, { schema: { name: promptType, schema }, signal });
+    const repaired = repairedContent ? parseStructured<T>(repairedContent, schema) : null;
+
+    if (repaired?.ok) {
+        record(promptType, entry => entry.repaired++);
+        log('LLM', `Repaired ${promptType} response after re-prompt`);
+        return repaired.value;
+    }
+
+    record(promptType, entry => entry.failures++);
+    log('LLM', `Repair of ${promptType} response failed: ${repaired ? repaired.errors.slice(0, 5).join('; ') : 'no content'}`, 'error');
+    return null;
+}
+
+/**
+ * Structured output metrics per prompt type
+ */
+export function getStructuredOutputMetrics(): Record<string, StructuredOutputMetrics> {
+    return Object.fromEntries([...metrics.entries()].map(([promptType, entry]) => [
+        promptType,
+        { ...entry, failureRate: entry.responses > 0 ? (entry.parseFailures + entry.validationFailures) / entry.responses : 0 },
+    ]));
+}
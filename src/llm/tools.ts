@@ -1,14 +1,14 @@
 /**
- * OpenAI SDK Tools for Groq via OpenAI-Compatible API
+ * LLM Tools and Conversations
  * 
- * This uses the OpenAI SDK with Groq's OpenAI-compatible endpoint
- * for proper tool/function calling support.
- * Groq supports function calling and is compatible with OpenAI's API format.
+ * Tool definitions and the multi-turn tool-calling loop, run through the
+ * configured LLM provider (Groq, OpenAI-compatible, Gemini or mock).
  */
 
-import OpenAI from 'openai';
 import type { Agent, MarketState, MarketStrategy } from '../core/types';
 import { getYESPrice, getNOPrice } from '../engine/amm';
+import { getYESProbability, getNOProbability, getYESPriceInVUSDC, getNOPriceInVUSDC } from '../engine/pricing';
+import { quoteSwap } from '../engine/quote';
 import { getAgentTokenHoldings } from '../agents';
 import { log } from '../core/logger';
 import {
@@ -17,20 +17,17 @@ import {
     getDataSourcesByType,
     fetchExchangeRate,
     fetchInflation,
+    getExchangeRate,
+    SUPPORTED_EXCHANGE_RATE_CURRENCIES,
+    API_DATA_SOURCES,
+    isApiDataSource,
+    fetchApiDataSourceValue,
     type DataSource,
 } from './dataSources';
+import { validateSchema, type JSONSchema } from './structured';
 
-import { config } from '../core/config';
-
-// Initialize OpenAI client with Groq's OpenAI-compatible endpoint
-const GROQ_API_KEY = config.groq.apiKey;
-const GROQ_MODEL = config.groq.model;
-
-export const openai = new OpenAI({
-    apiKey: GROQ_API_KEY,
-    baseURL: 'https://api.groq.com/openai/v1',
-    maxRetries: 0, // Disable built-in SDK retries to ensure immediate fallback as requested
-});
+import { getProvider, type ChatRequest, type LLMMessage, type LLMTool } from './providers';
+import { getRecorder } from './recorder';
 
 /**
  * Response type from DIA Data API endpoints
@@ -59,30 +56,131 @@ async function fetchDIAData(endpoint: string): Promise<DIADataResponse | null> {
     }
 }
 
+const MAX_TICKERS_PER_CALL = 10;
+const MAX_HISTORY_POINTS = 50;
+const DEFAULT_HISTORY_POINTS = 20;
+const MAX_QUOTE_AMOUNT = 1_000_000;
+const MAX_TOOL_CALLS_PER_TURN = 5; // Further calls in the same model turn get an error result
+
+const CURRENCIES = Object.keys(SUPPORTED_EXCHANGE_RATE_CURRENCIES);
+
 /**
- * OpenAI-format tool definitions for Groq
+ * Tool definition with its parameters in the validator's JSON Schema subset
  */
-export const OPENAI_TRADING_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: JSONSchema;
+}
+
+const TOOL_DEFINITIONS: ToolDefinition[] = [
     {
-        type: 'function',
-        function: {
-            name: 'get_dia_prices',
-            description: 'Get current real-time prices for one or more assets from DIA trusted data sources in a single batch call. Returns price, name, type, and last updated timestamp for each ticker. VALID TICKERS: SPY, QQQ, VOO, VTI, TLT, IBIT, FBTC, BTC, ETH, WTI, NG, XBR, CAD, AUD, CNY, GBP. Use ONLY these tickers.',
-            parameters: {
-                type: 'object',
-                properties: {
-                    tickers: {
-                        type: 'array',
-                        items: { type: 'string' },
-                        description: 'Array of ticker symbols. VALID: SPY, QQQ, VOO, VTI, TLT, IBIT, FBTC, BTC, ETH, WTI, NG, XBR, CAD, AUD, CNY, GBP'
-                    }
-                },
-                required: ['tickers']
-            }
+        name: 'get_dia_prices',
+        description: `Get current real-time prices for one or more assets from DIA trusted data sources in a single batch call (at most ${MAX_TICKERS_PER_CALL} tickers). Returns price, name, type, and last updated timestamp for each ticker. VALID TICKERS: SPY, QQQ, VOO, VTI, TLT, IBIT, FBTC, BTC, ETH, WTI, NG, XBR, CAD, AUD, CNY, GBP. Use ONLY these tickers.`,
+        parameters: {
+            type: 'object',
+            properties: {
+                tickers: {
+                    type: 'array',
+                    items: { type: 'string', minLength: 1 },
+                    minItems: 1,
+                    maxItems: MAX_TICKERS_PER_CALL,
+                    description: 'Array of ticker symbols. VALID: SPY, QQQ, VOO, VTI, TLT, IBIT, FBTC, BTC, ETH, WTI, NG, XBR, CAD, AUD, CNY, GBP'
+                }
+            },
+            required: ['tickers']
+        }
+    },
+    {
+        name: 'get_macro_data',
+        description: `Get current values of API-based macro data sources in a single batch call (at most ${MAX_TICKERS_PER_CALL} tickers): exchange rates USD_XXX (units of XXX per USD), yearly inflation rates XX_CPI (%) and top federal income tax rates XX_INCOME_TAX (%). VALID TICKERS: ${API_DATA_SOURCES.map(ds => ds.ticker).join(', ')}.`,
+        parameters: {
+            type: 'object',
+            properties: {
+                tickers: {
+                    type: 'array',
+                    items: { type: 'string', enum: API_DATA_SOURCES.map(ds => ds.ticker) },
+                    minItems: 1,
+                    maxItems: MAX_TICKERS_PER_CALL,
+                    description: 'Array of macro data tickers (e.g. USD_GBP, DE_CPI, US_INCOME_TAX)'
+                }
+            },
+            required: ['tickers']
+        }
+    },
+    {
+        name: 'get_proposal_history',
+        description: `Get the recent YES/NO price and TWAP series of a proposal (oldest first, at most ${MAX_HISTORY_POINTS} points per series).`,
+        parameters: {
+            type: 'object',
+            properties: {
+                proposalId: { type: 'string', minLength: 1, description: 'Proposal (strategy) ID' },
+                points: { type: 'integer', minimum: 1, maximum: MAX_HISTORY_POINTS, description: `Number of most recent points per series (default ${DEFAULT_HISTORY_POINTS})` }
+            },
+            required: ['proposalId']
+        }
+    },
+    {
+        name: 'get_quote',
+        description: 'Simulate a swap against a proposal\'s AMM pool without executing it. Returns expected output, effective price, price impact and fee. Buys spend vUSD, sells spend outcome tokens.',
+        parameters: {
+            type: 'object',
+            properties: {
+                proposalId: { type: 'string', minLength: 1, description: 'Proposal (strategy) ID' },
+                side: { type: 'string', enum: ['buy', 'sell'] },
+                tokenType: { type: 'string', enum: ['yes', 'no'] },
+                amount: { type: 'number', minimum: 0, maximum: MAX_QUOTE_AMOUNT, description: 'vUSD to spend (buy) or tokens to sell (sell)' }
+            },
+            required: ['proposalId', 'side', 'tokenType', 'amount']
+        }
+    },
+    {
+        name: 'get_my_holdings',
+        description: 'Get an agent\'s vUSD balance and YES/NO token holdings across proposals, with their current value in vUSD.',
+        parameters: {
+            type: 'object',
+            properties: {
+                agentId: { type: 'string', minLength: 1, description: 'Your agent ID' }
+            },
+            required: ['agentId']
+        }
+    },
+    {
+        name: 'get_round_time_remaining',
+        description: 'Get the current round number, when it ends and how much trading time is left.',
+        parameters: { type: 'object', properties: {} }
+    },
+    {
+        name: 'get_exchange_rate',
+        description: `Get the current exchange rate between two currencies from API Ninjas. SUPPORTED: ${CURRENCIES.join(', ')}.`,
+        parameters: {
+            type: 'object',
+            properties: {
+                from: { type: 'string', enum: CURRENCIES, description: 'Source currency code' },
+                to: { type: 'string', enum: CURRENCIES, description: 'Target currency code' }
+            },
+            required: ['from', 'to']
+        }
+    },
+    {
+        name: 'get_inflation',
+        description: 'Get the latest monthly and yearly inflation rate of a country from API Ninjas.',
+        parameters: {
+            type: 'object',
+            properties: {
+                country: { type: 'string', minLength: 2, description: '2-letter country code (e.g. "US", "DE") or country name' },
+                type: { type: 'string', enum: ['CPI', 'HICP'], description: 'Inflation indicator (default CPI)' }
+            },
+            required: ['country']
         }
     }
 ];
 
+/**
+ * Provider-neutral tool definitions
+ */
+export const TRADING_TOOLS: LLMTool[] = TOOL_DEFINITIONS.map(tool => ({ ...tool, parameters: { ...tool.parameters } }));
+
 /**
  * Fetch batch DIA data for a list of tickers
  */
@@ -91,6 +189,7 @@ export async function fetchDIABatch(tickers: string[]): Promise<any[]> {
         tickers.map(async (ticker: string) => {
             const ds = getDataSourceByTicker(ticker.toUpperCase());
             if (!ds) return { ticker, error: 'Not found' };
+            if (isApiDataSource(ds)) return { ticker, error: 'Not a DIA ticker (use get_macro_data)' };
 
             const liveData = await fetchDIAData(ds.endpoint);
 
@@ -121,9 +220,46 @@ export async function fetchDIABatch(tickers: string[]): Promise<any[]> {
 }
 
 /**
- * Execute a tool call
+ * Fetch current values for DIA and API-based tickers alike (same result shape as fetchDIABatch)
  */
-export async function executeOpenAIToolCall(
+export async function fetchDataSourceBatch(tickers: string[]): Promise<any[]> {
+    return await Promise.all(
+        tickers.map(async (ticker: string) => {
+            const ds = getDataSourceByTicker(ticker.toUpperCase());
+            if (!ds || !isApiDataSource(ds)) return (await fetchDIABatch([ticker]))[0];
+
+            const live = await fetchApiDataSourceValue(ds);
+            if (!live) {
+                return { ticker: ds.ticker, name: ds.name, type: ds.type, error: 'Unavailable' };
+            }
+
+            return {
+                ticker: ds.ticker,
+                name: ds.name,
+                type: ds.type,
+                price: live.value,
+                source: 'live',
+                lastUpdated: live.timestamp
+            };
+        })
+    );
+}
+
+/**
+ * Last `points` entries of a price or TWAP series
+ */
+function tail<T>(series: T[], points: number): T[] {
+    return series.slice(-points);
+}
+
+function findProposal(marketState: MarketState, proposalId: string): MarketStrategy | undefined {
+    return marketState.strategies.find(s => s.id === proposalId);
+}
+
+/**
+ * Execute a tool call (arguments are validated against the tool's parameter schema first)
+ */
+export async function executeToolCall(
     name: string,
     args: any,
     agents: Agent[],
@@ -131,15 +267,19 @@ export async function executeOpenAIToolCall(
 ): Promise<string> {
     console.log(`[Tool] Executing: ${name}`, args);
 
+    const tool = TOOL_DEFINITIONS.find(t => t.name === name);
+    if (!tool) {
+        return JSON.stringify({ error: `Unknown function: ${name}` });
+    }
+    const errors = validateSchema(args, tool.parameters, 'args');
+    if (errors.length > 0) {
+        return JSON.stringify({ error: 'Invalid arguments', details: errors });
+    }
+
     try {
         switch (name) {
             case 'get_dia_prices': {
-                const { tickers } = args;
-                if (!Array.isArray(tickers)) {
-                    return JSON.stringify({ error: 'Tickers must be an array' });
-                }
-
-                const results = await fetchDIABatch(tickers);
+                const results = await fetchDIABatch(args.tickers);
 
                 return JSON.stringify({
                     count: results.length,
@@ -147,6 +287,95 @@ export async function executeOpenAIToolCall(
                 });
             }
 
+            case 'get_macro_data': {
+                const results = await fetchDataSourceBatch(args.tickers);
+
+                return JSON.stringify({
+                    count: results.length,
+                    values: results
+                });
+            }
+
+            case 'get_proposal_history': {
+                const proposal = findProposal(marketState, args.proposalId);
+                if (!proposal) {
+                    return JSON.stringify({ error: `Proposal ${args.proposalId} not found` });
+                }
+                const points: number = args.points ?? DEFAULT_HISTORY_POINTS;
+
+                return JSON.stringify({
+                    proposalId: proposal.id,
+                    name: proposal.name,
+                    yes: { price: getYESProbability(proposal), twap: proposal.yesToken.twap, history: tail(proposal.yesToken.history, points), twapHistory: tail(proposal.yesToken.twapHistory, points) },
+                    no: { price: getNOProbability(proposal), twap: proposal.noToken.twap, history: tail(proposal.noToken.history, points), twapHistory: tail(proposal.noToken.twapHistory, points) }
+                });
+            }
+
+            case 'get_quote': {
+                const proposal = findProposal(marketState, args.proposalId);
+                if (!proposal) {
+                    return JSON.stringify({ error: `Proposal ${args.proposalId} not found` });
+                }
+                if (proposal.resolved) {
+                    return JSON.stringify({ error: `Proposal ${args.proposalId} is closed for trading` });
+                }
+
+                return JSON.stringify(quoteSwap(proposal, args.side, args.amount, undefined, args.tokenType));
+            }
+
+            case 'get_my_holdings': {
+                // Only agents taking part in this conversation (the caller alone in per-agent mode)
+                const agent = agents.find(a => a.id === args.agentId);
+                if (!agent) {
+                    return JSON.stringify({ error: `Agent ${args.agentId} is not part of this decision` });
+                }
+                const holdings = agent.tokenHoldings
+                    .filter(h => h.quantity > 0)
+                    .map(h => {
+                        const proposal = findProposal(marketState, h.strategyId);
+                        const price = proposal ? (h.tokenType === 'yes' ? getYESPriceInVUSDC(proposal) : getNOPriceInVUSDC(proposal)) : 0;
+                        return { proposalId: h.strategyId, name: proposal?.name ?? null, tokenType: h.tokenType, quantity: h.quantity, price, value: h.quantity * price };
+                    });
+
+                return JSON.stringify({
+                    agentId: agent.id,
+                    vUSD: agent.vUSD,
+                    holdings,
+                    holdingsValue: holdings.reduce((sum, h) => sum + h.value, 0)
+                });
+            }
+
+            case 'get_round_time_remaining': {
+                const now = Date.now();
+                const remainingMs = Math.max(0, marketState.roundEndTime - now);
+
+                return JSON.stringify({
+                    roundNumber: marketState.roundNumber,
+                    roundEndsAt: new Date(marketState.roundEndTime).toISOString(),
+                    timeRemainingSeconds: Math.round(remainingMs / 1000),
+                    elapsedSeconds: Math.round(Math.max(0, now - marketState.roundStartTime) / 1000),
+                    roundsUntilResolution: marketState.roundsUntilResolution
+                });
+            }
+
+            case 'get_exchange_rate': {
+                const rate = await getExchangeRate(args.from, args.to);
+                if (!rate) {
+                    return JSON.stringify({ error: `Exchange rate ${args.from}_${args.to} unavailable` });
+                }
+
+                return JSON.stringify(rate);
+            }
+
+            case 'get_inflation': {
+                const inflation = await fetchInflation(args.country, { type: args.type });
+                if (!inflation) {
+                    return JSON.stringify({ error: `Inflation data for ${args.country} unavailable` });
+                }
+
+                return JSON.stringify(inflation);
+            }
+
             default:
                 return JSON.stringify({ error: `Unknown function: ${name}` });
         }
@@ -157,15 +386,29 @@ export async function executeOpenAIToolCall(
 }
 
 /**
- * Handle multi-turn conversation with OpenAI SDK + Groq
+ * Tool call arguments, null when they are not valid JSON (reported back to the model by the validation)
+ */
+function parseArguments(text: string): unknown {
+    try {
+        return JSON.parse(text || '{}');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Handle multi-turn tool-calling conversation with the configured provider (aborting the signal cancels the pending turn)
  */
-export async function handleOpenAIToolConversation(
+export async function handleToolConversation(
     prompt: string,
     agents: Agent[],
     marketState: MarketState,
-    maxIterations: number = 5
+    maxIterations: number = 5,
+    signal?: AbortSignal
 ): Promise<string | null> {
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    const provider = getProvider();
+    const recorder = getRecorder();
+    const messages: LLMMessage[] = [
         { role: 'user', content: prompt }
     ];
 
@@ -176,55 +419,49 @@ export async function handleOpenAIToolConversation(
     console.log('TOOL-ENABLED CONVERSATION STARTED');
     console.log('===============================================================\n');
 
-    while (iteration < maxIterations) {
+    while (iteration < maxIterations && !signal?.aborted) {
         iteration++;
-        console.log(`📡 [Iteration ${iteration}/${maxIterations}] Calling Groq via OpenAI SDK...`);
+        console.log(`📡 [Iteration ${iteration}/${maxIterations}] Calling ${provider.name} (${provider.model})...`);
 
         try {
-            const response = await openai.chat.completions.create({
-                model: GROQ_MODEL,
-                messages,
-                tools: OPENAI_TRADING_TOOLS,
-                tool_choice: 'auto'
-            });
-
-            const choice = response.choices[0];
-            if (!choice) {
-                console.error('No choice in response');
-                return null;
-            }
-            const message = choice.message;
+            const response = await provider.chat({ messages, tools: TRADING_TOOLS, signal });
 
             // Check for tool calls
-            if (message.tool_calls && message.tool_calls.length > 0) {
+            if (response.toolCalls.length > 0) {
                 // Add assistant message with tool calls
-                messages.push(message);
-
-                console.log(`\n--- AI CALLED ${message.tool_calls.length} TOOL(S) ---`);
-
-                // Process each tool call
-                for (const toolCall of message.tool_calls) {
-                    const fn = (toolCall as any).function;
-                    if (!fn) continue;
+                messages.push({ role: 'assistant', content: response.content ?? '', toolCalls: response.toolCalls });
+
+                console.log(`\n--- AI CALLED ${response.toolCalls.length} TOOL(S) ---`);
+
+                // Process each tool call (every call needs a result, so those over the limit get an error)
+                for (const [index, toolCall] of response.toolCalls.entries()) {
+                    if (index >= MAX_TOOL_CALLS_PER_TURN) {
+                        messages.push({
+                            role: 'tool',
+                            toolCallId: toolCall.id,
+                            name: toolCall.name,
+                            content: JSON.stringify({ error: `At most ${MAX_TOOL_CALLS_PER_TURN} tool calls per turn` })
+                        });
+                        continue;
+                    }
 
-                    const args = JSON.parse(fn.arguments || '{}');
+                    const args = parseArguments(toolCall.arguments);
 
                     // PROMINENT TOOL CALL LOG
                     console.log(`\n+-----------------------------------------------------+`);
-                    console.log(`| TOOL CALL: ${fn.name.padEnd(40)} |`);
+                    console.log(`| TOOL CALL: ${toolCall.name.padEnd(40)} |`);
                     console.log(`+-----------------------------------------------------+`);
                     console.log(`| Arguments:                                         |`);
                     console.log(JSON.stringify(args, null, 2).replace(/^/gm, '| '));
                     console.log(`+-----------------------------------------------------+`);
 
-                    toolsUsed.push(`${fn.name}(${JSON.stringify(args)})`);
+                    toolsUsed.push(`${toolCall.name}(${JSON.stringify(args)})`);
 
-                    const result = await executeOpenAIToolCall(
-                        fn.name,
-                        args,
-                        agents,
-                        marketState
-                    );
+                    // Recorded with the conversation so far; replayed without hitting the data sources
+                    const execute = () => executeToolCall(toolCall.name, args, agents, marketState);
+                    const result = recorder
+                        ? await recorder.tool(provider.model, messages, toolCall, execute)
+                        : await execute();
 
                     console.log(`   📤 Result (${result.length} chars):`);
                     console.log(result.length > 500 ? result.substring(0, 500) + '...' : result);
@@ -232,14 +469,15 @@ export async function handleOpenAIToolConversation(
                     // Add tool result
                     messages.push({
                         role: 'tool',
-                        tool_call_id: toolCall.id,
+                        toolCallId: toolCall.id,
+                        name: toolCall.name,
                         content: result
                     });
                 }
                 // Loop continues for the next turn
             } else {
                 // No tool calls - return final text
-                const finalText = message.content || '';
+                const finalText = response.content || '';
 
                 console.log('\n===============================================================');
                 console.log(`CONVERSATION COMPLETE - ${toolsUsed.length} TOOL(S) USED:`);
@@ -254,21 +492,16 @@ export async function handleOpenAIToolConversation(
                 return finalText;
             }
         } catch (error: any) {
-            // Check for rate limit errors
-            if (error?.status === 429 || 
-                error?.code === 429 || 
-                error?.message?.includes('rate limit') || 
-                error?.message?.includes('Rate limit') ||
-                error?.message?.includes('exceeded') ||
-                error?.error?.code === 'rate_limit_exceeded') {
-                console.error('[OpenAI Tool Conversation] Rate limit detected:', error?.message || error?.error?.message);
-                // Throw a specific error that can be caught upstream
-                const rateLimitError = new Error('LLM_RATE_LIMIT');
-                (rateLimitError as any).isRateLimit = true;
-                (rateLimitError as any).originalError = error;
-                throw rateLimitError;
+            // Rate limits are thrown upstream so the round stops calling the LLM
+            if (error?.isRateLimit) {
+                console.error('[Tool Conversation] Rate limit detected:', error.originalError?.message || error.message);
+                throw error;
+            }
+            if (signal?.aborted) {
+                console.warn(`[Tool Conversation] Aborted: ${signal.reason instanceof Error ? signal.reason.message : signal.reason}`);
+                return null;
             }
-            console.error('[OpenAI Tool Conversation] Error:', error);
+            console.error('[Tool Conversation] Error:', error);
             return null;
         }
     }
@@ -279,18 +512,16 @@ export async function handleOpenAIToolConversation(
 }
 
 /**
- * Simple chat completion without tools
+ * Simple chat completion without tools (rate limits are rethrown, other errors return null)
  */
-export async function simpleGroqCompletion(prompt: string): Promise<string | null> {
+export async function simpleCompletion(prompt: string, options: Omit<ChatRequest, 'messages' | 'tools'> = {}): Promise<string | null> {
+    const provider = getProvider();
     try {
-        const response = await openai.chat.completions.create({
-            model: GROQ_MODEL,
-            messages: [{ role: 'user', content: prompt }]
-        });
-
-        return response.choices[0]?.message?.content || null;
-    } catch (error) {
-        console.error('[Groq Completion] Error:', error);
+        const response = await provider.chat({ ...options, messages: [{ role: 'user', content: prompt }] });
+        return response.content || null;
+    } catch (error: any) {
+        if (error?.isRateLimit) throw error;
+        console.error(`[${provider.name} Completion] Error:`, error);
         return null;
     }
 }
@@ -0,0 +1,102 @@
+import { readFileSync } from 'node:fs';
+import type { StrategyType } from '../core/types';
+import { config } from '../core/config';
+import { seedRandom } from '../core/random';
+import { DEFAULT_AGENT_PERSONALITIES } from '../agents';
+import { listStrategies } from '../engine/strategies';
+import {
+    buildAgentMix,
+    generateSyntheticSeries,
+    getRecordedSeries,
+    runBacktest,
+    type BacktestSeries,
+} from '../engine/backtest';
+
+// Usage:
+//   bun src/scripts/backtest.ts [--round N | --file series.json] [--proposals 5] [--steps 200]
+//     [--strategies twap,momentum] [--personalities "Sarah Chen,James Wilson"] [--seed 42] [--liquidity 2000] [--json]
+// Without --round/--file a synthetic random-walk series is generated from the seed
+
+function parseArgs(argv: string[]): Record<string, string> {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg?.startsWith('--')) continue;
+        const next = argv[i + 1];
+        if (next !== undefined && !next.startsWith('--')) {
+            args[arg.slice(2)] = next;
+            i++;
+        } else {
+            args[arg.slice(2)] = 'true';
+        }
+    }
+    return args;
+}
+
+function loadSeries(args: Record<string, string>): BacktestSeries[] {
+    if (args.round) {
+        return getRecordedSeries(parseInt(args.round));
+    }
+    if (args.file) {
+        return JSON.parse(readFileSync(args.file, 'utf8')) as BacktestSeries[];
+    }
+    return generateSyntheticSeries(parseInt(args.proposals || '5'), parseInt(args.steps || '200'));
+}
+
+async function backtest() {
+    const args = parseArgs(process.argv.slice(2));
+    const seed = parseInt(args.seed || String(config.simulation.seed));
+    seedRandom(seed);
+
+    const registered = listStrategies().map(s => s.name);
+    const strategies: StrategyType[] = args.strategies ? args.strategies.split(',').map(s => s.trim()) : registered;
+    const unknown = strategies.filter(s => !registered.includes(s));
+    if (unknown.length > 0) {
+        console.error(`Unknown strategies: ${unknown.join(', ')} (available: ${registered.join(', ')})`);
+        process.exit(1);
+    }
+
+    const names = args.personalities?.split(',').map(n => n.trim().toLowerCase());
+    const personalities = names
+        ? DEFAULT_AGENT_PERSONALITIES.filter(p => names.includes(p.name.toLowerCase()))
+        : DEFAULT_AGENT_PERSONALITIES;
+    if (personalities.length === 0) {
+        console.error(`No matching personalities (available: ${DEFAULT_AGENT_PERSONALITIES.map(p => p.name).join(', ')})`);
+        process.exit(1);
+    }
+
+    const series = loadSeries(args);
+    if (series.length === 0) {
+        console.error('No price series to replay');
+        process.exit(1);
+    }
+
+    const result = await runBacktest({
+        series,
+        agents: buildAgentMix(strategies, personalities),
+        liquidity: args.liquidity ? parseFloat(args.liquidity) : undefined,
+        seed,
+    });
+
+    if (args.json) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+    }
+
+    console.log(`Backtest: ${series.length} proposals, ${result.steps} steps, ${result.agents.length} agents (seed ${seed})\n`);
+    console.table(result.agents.map(a => ({
+        agent: a.agentName,
+        strategy: a.strategy,
+        pnl: a.pnl.toFixed(2),
+        trades: a.tradeCount,
+        maxDrawdown: `${(a.maxDrawdown * 100).toFixed(1)}%`,
+    })));
+    console.table(result.proposals.map(p => ({
+        proposal: p.name,
+        finalPrice: p.finalPrice.toFixed(4),
+        twap: p.twap.toFixed(4),
+        graduates: p.strategyId === result.graduatedStrategyId ? 'yes' : '',
+    })));
+}
+
+backtest().catch(console.error);
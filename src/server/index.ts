@@ -1,6 +1,8 @@
 import {
   getAllDataSources,
   getDataSourceById,
+  isApiDataSource,
+  fetchApiDataSourceValue,
   validateCurrencyPair,
   SUPPORTED_EXCHANGE_RATE_CURRENCIES,
   fetchExchangeRate as getExchangeRate, // Alias to avoid confusion
@@ -9,7 +11,8 @@ import {
   getGraduatedProposals,
 } from '../core/db';
 import { getLogs } from '../core/logger';
-import type { Agent, MarketState } from '../core/types';
+import type { Agent, MarketState, StrategyMix } from '../core/types';
+import type { EvolutionOptions } from '../agents/evolution';
 
 /**
  * Create API server
@@ -93,8 +96,10 @@ export function createServer(
           // If live data requested
           if (url.searchParams.get('live') === 'true') {
             try {
-              const response = await fetch(ds.endpoint);
-              const liveData = await response.json();
+              // API Ninjas sources need the API key, so they go through their fetcher
+              const liveData = isApiDataSource(ds)
+                ? await fetchApiDataSourceValue(ds)
+                : await (await fetch(ds.endpoint)).json();
               return new Response(JSON.stringify({ ...ds, liveData }), {
                 headers: { ...corsHeaders, 'Content-Type': 'application/json' },
               });
@@ -211,18 +216,15 @@ export function createServer(
 
       // Get market state
       if (url.pathname === '/api/market' && req.method === 'GET') {
-        const { getYESPrice, getNOPrice, getYESPriceInVUSD } = await import('../engine/amm');
+        const { getPool, getYESProbability, getNOProbability, getYESPriceInVUSDC, getNOPriceInVUSDC } = await import('../engine/pricing');
         const enrichedStrategies = marketState.strategies.map((s) => {
-          // Note: yesPrice/noPrice are probabilities (0-1), not vUSD prices
-          const yesPriceProb = getYESPrice(s.yesToken.tokenReserve, s.noToken.tokenReserve);
-          const noPriceProb = getNOPrice(s.yesToken.tokenReserve, s.noToken.tokenReserve);
-          // Calculate actual vUSD price per YES token for swaps
-          const yesPriceVUSD = getYESPriceInVUSD(s.noToken.tokenReserve, s.yesToken.tokenReserve);
           return {
             ...s,
-            yesPrice: yesPriceProb, // Probability (0-1)
-            noPrice: noPriceProb, // Probability (0-1)
-            yesPriceVUSD: yesPriceVUSD, // Actual vUSD price per YES token for swaps
+            pool: getPool(s),
+            yesPrice: getYESProbability(s), // Probability (0-1)
+            noPrice: getNOProbability(s), // Probability (0-1)
+            yesPriceVUSD: getYESPriceInVUSDC(s), // Actual vUSD price per YES token for swaps
+            noPriceVUSD: getNOPriceInVUSDC(s), // Actual vUSD price per NO token via buyNO
           };
         });
 
@@ -242,28 +244,34 @@ export function createServer(
         );
       }
 
+      // Registered agent strategies with their config schema and how many agents run each
+      if (url.pathname === '/api/strategies' && req.method === 'GET') {
+        const { listStrategies } = await import('../engine/strategies');
+        const strategies = listStrategies().map((strategy) => ({
+          name: strategy.name,
+          description: strategy.description,
+          configSchema: strategy.configSchema,
+          agentCount: agents.filter((a) => a.strategy === strategy.name).length,
+        }));
+        return new Response(JSON.stringify(strategies), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       // Get agents
       if (url.pathname === '/api/agents' && req.method === 'GET') {
         const { getAgentVUSDCBalance } = await import('../blockchain');
-        const { getYESPrice, getNOPrice } = await import('../engine/amm');
+        const { getAgentPnL } = await import('../engine/accounting');
         const agentsData = await Promise.all(
           agents.map(async (agent) => {
             const onChainVUSD = await getAgentVUSDCBalance(agent.wallet.address);
-
-            // Calculate total value
-            const totalValue = onChainVUSD + agent.tokenHoldings.reduce((sum, holding) => {
-              const strategy = marketState.strategies.find(s => s.id === holding.strategyId);
-              if (!strategy) return sum;
-              const price = holding.tokenType === 'yes'
-                ? getYESPrice(strategy.yesToken.tokenReserve, strategy.noToken.tokenReserve)
-                : getNOPrice(strategy.yesToken.tokenReserve, strategy.noToken.tokenReserve);
-              return sum + (holding.quantity * price);
-            }, 0);
+            const pnl = getAgentPnL({ ...agent, vUSD: onChainVUSD }, marketState.strategies);
 
             return {
               ...agent,
               vUSD: onChainVUSD,
-              totalValue: totalValue,
+              totalValue: pnl.totalValue,
+              pnl,
               tradeCount: agent.trades.length,
               trades: agent.trades,
             };
@@ -280,24 +288,16 @@ export function createServer(
         const agent = agents.find((a) => a.id === id);
         if (agent) {
           const { getAgentVUSDCBalance } = await import('../blockchain');
-          const { getYESPrice, getNOPrice } = await import('../engine/amm');
+          const { getAgentPnL } = await import('../engine/accounting');
           const onChainVUSD = await getAgentVUSDCBalance(agent.wallet.address);
-
-          // Calculate total value
-          const totalValue = onChainVUSD + agent.tokenHoldings.reduce((sum, holding) => {
-            const strategy = marketState.strategies.find(s => s.id === holding.strategyId);
-            if (!strategy) return sum;
-            const price = holding.tokenType === 'yes'
-              ? getYESPrice(strategy.yesToken.tokenReserve, strategy.noToken.tokenReserve)
-              : getNOPrice(strategy.yesToken.tokenReserve, strategy.noToken.tokenReserve);
-            return sum + (holding.quantity * price);
-          }, 0);
+          const pnl = getAgentPnL({ ...agent, vUSD: onChainVUSD }, marketState.strategies);
 
           return new Response(
             JSON.stringify({
               ...agent,
               vUSD: onChainVUSD,
-              totalValue: totalValue,
+              totalValue: pnl.totalValue,
+              pnl,
               tradeCount: agent.trades.length,
             }),
             {
@@ -311,6 +311,202 @@ export function createServer(
         });
       }
 
+      // Human traders: register an external wallet
+      if (url.pathname === '/api/traders/register' && req.method === 'POST') {
+        try {
+          const body = await req.json() as { address?: string; name?: string };
+          const { ethers } = await import('ethers');
+          if (!body.address || !ethers.isAddress(body.address)) {
+            return new Response(JSON.stringify({ success: false, error: 'A valid wallet address is required' }), {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+          }
+
+          const { registerTrader } = await import('../traders');
+          const { buildFaucetTransaction } = await import('../blockchain');
+          const trader = registerTrader(body.address, body.name);
+          return new Response(
+            JSON.stringify({
+              success: true,
+              trader,
+              faucetTransaction: buildFaucetTransaction(trader.wallet.address), // Sign & submit to receive 100 vUSDC
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        } catch (error: any) {
+          return new Response(JSON.stringify({ success: false, error: error.message }), {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+      }
+
+      // Human traders: list with balances and PnL (same shape as /api/agents)
+      if (url.pathname === '/api/traders' && req.method === 'GET') {
+        const { getTraders, syncTraderBalances, getTraderValuation } = await import('../traders');
+        const tradersData = await Promise.all(
+          getTraders().map(async (trader) => {
+            await syncTraderBalances(trader, marketState);
+            return {
+              ...trader,
+              ...getTraderValuation(trader, marketState),
+              tradeCount: trader.trades.length,
+            };
+          })
+        );
+        return new Response(JSON.stringify(tradersData), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Quote a swap against the active market (local AMM mirror, optional on-chain cross-check)
+      if ((url.pathname === '/api/quote' || url.pathname === '/api/traders/quote') && req.method === 'GET') {
+        const proposalId = url.searchParams.get('proposalId');
+        const side = url.searchParams.get('side');
+        const amount = parseFloat(url.searchParams.get('amount') || '');
+        const outcome = url.searchParams.get('outcome') || 'yes';
+        const slippageParam = url.searchParams.get('slippageBps');
+        const slippageBps = slippageParam === null ? undefined : parseInt(slippageParam);
+
+        if (!proposalId || (side !== 'buy' && side !== 'sell') || (outcome !== 'yes' && outcome !== 'no') || !(amount > 0)) {
+          return new Response(JSON.stringify({ error: 'Required: proposalId, side (buy|sell), amount > 0; optional outcome (yes|no)' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        if (slippageBps !== undefined && !(slippageBps >= 0 && slippageBps <= 10000)) {
+          return new Response(JSON.stringify({ error: 'slippageBps must be between 0 and 10000' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const strategy = marketState.strategies.find((s) => s.id === proposalId);
+        if (!strategy) {
+          return new Response(JSON.stringify({ error: 'Proposal not found in active market' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const { quoteSwap } = await import('../engine/quote');
+        const quote = quoteSwap(strategy, side, amount, slippageBps, outcome);
+
+        if (url.searchParams.get('onChain') === 'true') {
+          const { getSwapQuoteOnChain } = await import('../blockchain');
+          const onChainOut = await getSwapQuoteOnChain(proposalId, side, amount, outcome);
+          const localOut = quote.vUSDCRefund ?? quote.expectedOut; // Router quotes the refund for NO buys
+          return new Response(
+            JSON.stringify({
+              ...quote,
+              onChain: onChainOut === null
+                ? null
+                : { expectedOut: onChainOut, difference: onChainOut - localOut },
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(JSON.stringify(quote), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Human traders: single trader, swap building and signed transaction submission
+      if (url.pathname.startsWith('/api/traders/')) {
+        const parts = url.pathname.split('/').filter(Boolean); // ['api', 'traders', ':address', ...action]
+        const address = parts[2] || '';
+        const action = parts.slice(3).join('/');
+
+        const { getTrader, syncTraderBalances, getTraderValuation, submitTraderTransaction } = await import('../traders');
+        const trader = getTrader(address);
+        if (!trader) {
+          return new Response(JSON.stringify({ error: 'Trader not registered' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        if (action === '' && req.method === 'GET') {
+          await syncTraderBalances(trader, marketState);
+          return new Response(
+            JSON.stringify({
+              ...trader,
+              ...getTraderValuation(trader, marketState),
+              tradeCount: trader.trades.length,
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (action === 'swap/build' && req.method === 'POST') {
+          try {
+            const body = await req.json() as { proposalId?: string; side?: string; outcome?: string; amount?: number; minAmountOut?: number };
+            const { proposalId, side, amount } = body;
+            const outcome = body.outcome || 'yes';
+
+            if (!proposalId || (side !== 'buy' && side !== 'sell') || (outcome !== 'yes' && outcome !== 'no') || typeof amount !== 'number' || amount <= 0) {
+              return new Response(JSON.stringify({ success: false, error: 'Required: proposalId, side (buy|sell), amount > 0; optional outcome (yes|no)' }), {
+                status: 400,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+              });
+            }
+
+            const strategy = marketState.strategies.find((s) => s.id === proposalId && !s.resolved);
+            if (!strategy) {
+              return new Response(JSON.stringify({ success: false, error: 'Proposal not tradable in the active market' }), {
+                status: 400,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+              });
+            }
+
+            const { quoteSwap } = await import('../engine/quote');
+            const { buildSwapTransactions } = await import('../blockchain');
+            const quote = quoteSwap(strategy, side, amount, undefined, outcome);
+            const minAmountOut = typeof body.minAmountOut === 'number' ? body.minAmountOut : quote.minOut;
+            const transactions = await buildSwapTransactions(trader.wallet.address, proposalId, side, amount, minAmountOut, outcome);
+
+            return new Response(JSON.stringify({ success: true, quote, transactions }), {
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+          } catch (error: any) {
+            return new Response(JSON.stringify({ success: false, error: error.message }), {
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+          }
+        }
+
+        if (action === 'submit' && req.method === 'POST') {
+          try {
+            const body = await req.json() as { signedTransaction?: string };
+            if (!body.signedTransaction) {
+              return new Response(JSON.stringify({ success: false, error: 'signedTransaction is required' }), {
+                status: 400,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+              });
+            }
+
+            const result = await submitTraderTransaction(trader, body.signedTransaction, marketState);
+            return new Response(JSON.stringify(result), {
+              status: result.success ? 200 : 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+          } catch (error: any) {
+            return new Response(JSON.stringify({ success: false, error: error.message }), {
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+          }
+        }
+
+        return new Response(JSON.stringify({ error: 'Unknown trader action' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       // Get history (graduated proposals)
       if ((url.pathname === '/api/history' || url.pathname === '/api/graduated') && req.method === 'GET') {
         const graduated = getGraduatedProposals();
@@ -319,6 +515,149 @@ export function createServer(
         });
       }
 
+      // Round archive: list all persisted rounds
+      if (url.pathname === '/api/rounds' && req.method === 'GET') {
+        const { getRounds, getRoundStrategies } = await import('../core/db');
+        const rounds = getRounds().map((round) => {
+          const strategies = getRoundStrategies(round.roundNumber);
+          const winner = strategies.find((s) => s.id === round.winnerId);
+          return {
+            ...round,
+            winnerName: winner?.name ?? null,
+            strategyCount: strategies.length,
+          };
+        });
+        return new Response(JSON.stringify(rounds), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Round archive: a single round (strategies with price series, agent results/trades) or its trades
+      if (url.pathname.startsWith('/api/rounds/') && req.method === 'GET') {
+        const parts = url.pathname.split('/').filter(Boolean); // ['api', 'rounds', ':roundNumber', 'trades'?]
+        const roundNumber = parseInt(parts[2] || '');
+        const isTradesRequest = parts[3] === 'trades';
+
+        if (isNaN(roundNumber) || parts.length > 4 || (parts.length === 4 && !isTradesRequest)) {
+          return new Response(JSON.stringify({ error: 'Invalid round path' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const { getRound, getRoundStrategies, getRoundTrades } = await import('../core/db');
+        const round = getRound(roundNumber);
+        if (!round) {
+          return new Response(JSON.stringify({ error: 'Round not found' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        let trades = getRoundTrades(roundNumber);
+
+        if (isTradesRequest) {
+          const agentId = url.searchParams.get('agentId');
+          const strategyId = url.searchParams.get('strategyId');
+          if (agentId) trades = trades.filter((t) => t.agentId === agentId);
+          if (strategyId) trades = trades.filter((t) => t.strategyId === strategyId);
+          return new Response(JSON.stringify(trades), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const strategies = getRoundStrategies(roundNumber).map((s) => ({
+          ...s,
+          finalYesTWAP: s.yesToken.twap,
+          finalNoTWAP: s.noToken.twap,
+          isWinner: s.id === round.winnerId,
+        }));
+
+        // Agents that traded but have no result yet (round still active) are listed from trades alone
+        const agentIds = new Set([...round.agentResults.map((r) => r.agentId), ...trades.map((t) => t.agentId)]);
+        const agentsSummary = [...agentIds].map((agentId) => {
+          const result = round.agentResults.find((r) => r.agentId === agentId);
+          const agentTrades = trades.filter((t) => t.agentId === agentId);
+          return {
+            agentId,
+            agentName: result?.agentName ?? agentTrades[0]?.agentName ?? agentId,
+            vUSD: result?.vUSD ?? null,
+            totalValue: result?.totalValue ?? null,
+            pnl: result?.pnl ?? null,
+            realizedPnl: result?.realizedPnl ?? null,
+            unrealizedPnl: result?.unrealizedPnl ?? null,
+            settlementPnl: result?.settlementPnl ?? null,
+            trades: agentTrades,
+          };
+        });
+
+        return new Response(
+          JSON.stringify({
+            ...round,
+            strategies,
+            agents: agentsSummary,
+            tradeCount: trades.filter((t) => t.status === 'filled').length,
+          }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      // Leaderboard: live ranking of the current round, per-round rankings and all-time totals
+      if (url.pathname === '/api/leaderboard' && req.method === 'GET') {
+        const { getRounds } = await import('../core/db');
+        const { getAllTimeLeaderboard, getLiveLeaderboard, getRoundLeaderboard } = await import('../engine/accounting');
+        const rounds = getRounds().filter((round) => round.status === 'completed');
+        return new Response(
+          JSON.stringify({
+            current: marketState.strategies.length > 0
+              ? { roundNumber: marketState.roundNumber, entries: getLiveLeaderboard(agents, marketState) }
+              : null,
+            rounds: rounds.map((round) => ({
+              roundNumber: round.roundNumber,
+              winnerId: round.winnerId,
+              entries: getRoundLeaderboard(round),
+            })),
+            allTime: getAllTimeLeaderboard(rounds),
+          }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      // Admin: Resolve graduated proposals past their deadline against oracle data
+      if (url.pathname === '/api/admin/resolve' && req.method === 'POST') {
+        const { resolveDueProposals } = await import('../engine/resolution');
+        const resolved = await resolveDueProposals();
+        return new Response(JSON.stringify({ success: true, resolved }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Admin: Confirm a late oracle observation held back by the resolver, optionally overriding its outcome
+      if (url.pathname === '/api/admin/resolve/confirm' && req.method === 'POST') {
+        const body = await req.json().catch(() => ({})) as { proposalId?: string; outcome?: boolean };
+        if (!body.proposalId || (body.outcome !== undefined && typeof body.outcome !== 'boolean')) {
+          return new Response(JSON.stringify({ success: false, error: 'Required: proposalId; optional outcome (boolean)' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        const { confirmResolution } = await import('../engine/resolution');
+        const resolution = await confirmResolution(body.proposalId, body.outcome);
+        if (!resolution) {
+          return new Response(JSON.stringify({ success: false, error: 'No resolution pending confirmation for this proposal' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        return new Response(JSON.stringify({ success: true, resolution }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       // Inject a custom proposal (before trading starts)
       if (url.pathname === '/api/proposal/inject' && req.method === 'POST') {
         try {
@@ -408,6 +747,22 @@ export function createServer(
             }
           }
 
+          // Validate logic strings and check every referenced ticker is in usedDataSources
+          const { validateProposalLogic } = await import('../engine/logic');
+          const logicError = validateProposalLogic({ evaluationLogic, mathematicalLogic, usedDataSources });
+          if (logicError) {
+            return new Response(
+              JSON.stringify({ 
+                success: false, 
+                error: logicError 
+              }),
+              { 
+                status: 400,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+              }
+            );
+          }
+
           const { createProposalOnChain } = await import('../blockchain');
           
           // Generate unique ID for the proposal
@@ -442,6 +797,7 @@ export function createServer(
           }
 
           // Add proposal to in-memory market state (matching AI-generated format exactly)
+          const { createPool } = await import('../engine/pricing');
           const now = Date.now();
           const newStrategy = {
             id: proposalId,
@@ -454,6 +810,7 @@ export function createServer(
             timestamp: now,
             resolved: false,
             winner: null,
+            pool: createPool(liquidity),
             yesToken: {
               tokenReserve: liquidity,
               volume: 0,
@@ -505,12 +862,18 @@ export function createServer(
         try {
           const { generateAndSetStrategies } = await import('../engine/market');
           const { generateAndSetAgents } = await import('../agents');
+          // Optional body: { strategyMix } to override config.agents.strategyMix, { spawn } new agents to add
+          const body = await req.json().catch(() => ({})) as { strategyMix?: StrategyMix; spawn?: number };
+
+          // Let the last round's reflections and evolution step finish before re-enrolling agents
+          const { waitForBetweenRounds } = await import('../engine/trading');
+          await waitForBetweenRounds();
 
           // 1. Generate strategies and update market state
           await generateAndSetStrategies(marketState);
 
-          // 2. Generate agents and update agents array (handles on-chain registration)
-          await generateAndSetAgents(agents);
+          // 2. Enroll persisted agents (spawning new ones if requested) and update agents array (handles on-chain registration)
+          await generateAndSetAgents(agents, body.strategyMix, body.spawn);
 
           return new Response(
             JSON.stringify({
@@ -531,6 +894,45 @@ export function createServer(
         }
       }
 
+      // Admin: Run an evolution step on the enrolled agents between rounds
+      // Optional body overrides config.agents.evolution: { populationSize, retireCount, mutationRate, mutationStrength }
+      if (url.pathname === '/api/admin/evolve' && req.method === 'POST') {
+        if (marketState.roundStartTime !== 0) {
+          return new Response(JSON.stringify({ error: 'Cannot evolve agents while a round is active' }), {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        try {
+          const { evolvePopulation, validateEvolutionOptions } = await import('../agents/evolution');
+          const { config } = await import('../core/config');
+          const body = await req.json().catch(() => ({})) as Partial<EvolutionOptions>;
+          const { populationSize, retireCount, mutationRate, mutationStrength } = { ...config.agents.evolution, ...body };
+          const options = { populationSize, retireCount, mutationRate, mutationStrength };
+          const invalid = validateEvolutionOptions(options);
+          if (invalid) {
+            return new Response(JSON.stringify({ success: false, error: invalid }), {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+          }
+          const result = await evolvePopulation(agents, options);
+          return new Response(
+            JSON.stringify({
+              success: true,
+              ...result,
+              agentsCount: agents.length,
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        } catch (error: any) {
+          return new Response(JSON.stringify({ error: error.message }), {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+      }
+
       // Handle individual init steps from frontend
       if (url.pathname === '/api/init/proposals' && req.method === 'POST') {
         try {
@@ -555,11 +957,14 @@ export function createServer(
       if (url.pathname === '/api/init/agents' && req.method === 'POST') {
         try {
           const { generateAndSetAgents } = await import('../agents');
-          await generateAndSetAgents(agents);
+          const { waitForBetweenRounds } = await import('../engine/trading');
+          const body = await req.json().catch(() => ({})) as { strategyMix?: StrategyMix; spawn?: number };
+          await waitForBetweenRounds();
+          await generateAndSetAgents(agents, body.strategyMix, body.spawn);
           return new Response(
             JSON.stringify({
               success: true,
-              message: 'Agents generated',
+              message: 'Agents enrolled',
               count: agents.length,
             }),
             { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -574,19 +979,46 @@ export function createServer(
 
       if (url.pathname === '/api/trade/start' && req.method === 'POST') {
         try {
-          const { startTradingLoop } = await import('../engine/trading');
+          const { startTradingLoop, waitForBetweenRounds } = await import('../engine/trading');
           const { resetAgentBalancesTo100, getAgentVUSDCBalance } = await import('../blockchain');
           const { log } = await import('../core/logger');
+          // Optional body: { strategyMix } to reassign agent strategies for the new round
+          const body = await req.json().catch(() => ({})) as { strategyMix?: StrategyMix };
+
+          // The previous round's reflections and evolution step replace the agents array: wait for them
+          await waitForBetweenRounds();
 
           if (marketState.roundStartTime === 0) {
+            if (body.strategyMix) {
+              const { applyStrategyMix } = await import('../engine/strategies');
+              try {
+                applyStrategyMix(agents, body.strategyMix);
+              } catch (error: any) {
+                return new Response(JSON.stringify({ error: error.message }), {
+                  status: 400,
+                  headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                });
+              }
+              log('Trading', `Strategy mix for new round: ${agents.map(a => `${a.personality.name}=${a.strategy}`).join(', ')}`);
+            }
+
             // Set roundStartTime FIRST to prevent concurrent calls
             marketState.roundStartTime = Date.now();
             marketState.roundEndTime = marketState.roundStartTime + marketState.roundDuration;
-            // Reset rate limit flag for new round
+            // Reset rate limit flag and LLM usage for new round
             marketState.isLLMRateLimited = false;
+            const { startUsageRound } = await import('../llm/budget');
+            startUsageRound(marketState.roundNumber);
             // Set isExecutingTrades to true for the entire round duration
             marketState.isExecutingTrades = true;
 
+            try {
+              const { recordRoundStart } = await import('../core/db');
+              recordRoundStart(marketState);
+            } catch (error: any) {
+              log('Trading', `Failed to persist round start: ${error.message}`, 'error');
+            }
+
             // New round starting - reset agent balances to 100 vUSDC
             if (agents.length > 0) {
               log('Trading', `Resetting ${agents.length} agent balances to 100 vUSDC for new round...`);
@@ -662,6 +1094,22 @@ export function createServer(
         });
       }
 
+      // Structured output parse/validation failure rates per prompt type
+      if (url.pathname === '/api/llm/metrics' && req.method === 'GET') {
+        const { getStructuredOutputMetrics } = await import('../llm/structured');
+        return new Response(JSON.stringify(getStructuredOutputMetrics()), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // LLM token/request usage against the round and daily budgets
+      if (url.pathname === '/api/llm/usage' && req.method === 'GET') {
+        const { getLLMUsage } = await import('../llm/budget');
+        return new Response(JSON.stringify(getLLMUsage()), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       // Health check
       if (url.pathname === '/health' && req.method === 'GET') {
         return new Response(JSON.stringify({ status: 'ok' }), {
@@ -0,0 +1,44 @@
+// Shared fixtures for the bun:test suites
+import type { Agent, MarketStrategy } from '../core/types';
+import { DEFAULT_AGENT_PERSONALITIES } from '../agents';
+import { createPool } from '../engine/pricing';
+
+/**
+ * Unresolved proposal with a balanced pool (2000 liquidity unless overridden), token reserves mirroring the pool
+ */
+export function createTestStrategy(overrides: Partial<MarketStrategy> = {}): MarketStrategy {
+  const pool = overrides.pool ?? createPool(2000);
+  return {
+    id: 'proposal-1',
+    name: 'Proposal 1',
+    description: '',
+    evaluationLogic: '',
+    mathematicalLogic: '',
+    usedDataSources: [],
+    resolutionDeadline: 0,
+    pool,
+    yesToken: { tokenReserve: pool.yesReserve, volume: 0, history: [], twap: 0.5, twapHistory: [] },
+    noToken: { tokenReserve: pool.vUSDCReserve, volume: 0, history: [], twap: 0.5, twapHistory: [] },
+    timestamp: 0,
+    resolved: false,
+    winner: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Agent with 100 vUSD, no holdings and the first default personality
+ */
+export function createTestAgent(overrides: Partial<Agent> = {}): Agent {
+  return {
+    id: 'agent-1',
+    personality: DEFAULT_AGENT_PERSONALITIES[0]!,
+    strategy: 'yes-no',
+    vUSD: 100,
+    tokenHoldings: [],
+    wallet: { address: '', derivationPath: '' },
+    trades: [],
+    roundMemory: [],
+    ...overrides,
+  };
+}
@@ -0,0 +1,150 @@
+import { ethers } from 'ethers';
+import type { HumanTrader, MarketState } from '../core/types';
+import { log } from '../core/logger';
+import { getTraderRecords, recordTrade, saveTraderRecord } from '../core/db';
+import { getAgentTokenHoldings, updateAgentTokenHoldings } from '../agents';
+import { getHoldingsValue } from '../engine/pricing';
+
+// Registered human traders keyed by lowercased wallet address, loaded from storage on first use
+let traders: Map<string, HumanTrader> | null = null;
+
+function getTraderMap(): Map<string, HumanTrader> {
+  traders ??= new Map(getTraderRecords().map(trader => [trader.wallet.address.toLowerCase(), trader]));
+  return traders;
+}
+
+/**
+ * Register an external wallet as a human trader (idempotent)
+ */
+export function registerTrader(address: string, name?: string): HumanTrader {
+  const key = address.toLowerCase();
+  const existing = getTraderMap().get(key);
+  if (existing) {
+    if (name && name !== existing.name) {
+      existing.name = name;
+      saveTraderRecord(existing);
+    }
+    return existing;
+  }
+
+  const checksummed = ethers.getAddress(address);
+  const trader: HumanTrader = {
+    id: `human-${key}`,
+    name: name || `Trader ${checksummed.slice(0, 6)}…${checksummed.slice(-4)}`,
+    wallet: { address: checksummed },
+    vUSD: 0,
+    tokenHoldings: [],
+    trades: [],
+    registeredAt: Date.now(),
+  };
+  getTraderMap().set(key, trader);
+  saveTraderRecord(trader);
+  log('Traders', `Registered human trader ${trader.name} (${checksummed})`);
+  return trader;
+}
+
+/**
+ * Get a registered trader by wallet address
+ */
+export function getTrader(address: string): HumanTrader | undefined {
+  return getTraderMap().get(address.toLowerCase());
+}
+
+/**
+ * Get all registered traders
+ */
+export function getTraders(): HumanTrader[] {
+  return [...getTraderMap().values()];
+}
+
+/**
+ * Refresh a trader's vUSDC, YES and NO balances for the active strategies from chain
+ */
+export async function syncTraderBalances(trader: HumanTrader, marketState: MarketState): Promise<void> {
+  const { getAgentVUSDCBalance, getAgentYESBalance, getAgentNOBalance } = await import('../blockchain');
+  trader.vUSD = await getAgentVUSDCBalance(trader.wallet.address);
+
+  for (const strategy of marketState.strategies) {
+    const onChainBalances = {
+      yes: await getAgentYESBalance(strategy.id, trader.wallet.address),
+      no: await getAgentNOBalance(strategy.id, trader.wallet.address),
+    };
+    for (const tokenType of ['yes', 'no'] as const) {
+      const inMemoryBalance = getAgentTokenHoldings(trader, strategy.id, tokenType);
+      if (Math.abs(onChainBalances[tokenType] - inMemoryBalance) > 0.000001) {
+        updateAgentTokenHoldings(trader, strategy.id, tokenType, onChainBalances[tokenType] - inMemoryBalance);
+      }
+    }
+  }
+}
+
+/**
+ * Value a trader's holdings at current probability prices (same basis as /api/agents)
+ * PnL is trading PnL: vUSDC received from sells - vUSDC spent on buys + current holdings value
+ */
+export function getTraderValuation(trader: HumanTrader, marketState: MarketState): { holdingsValue: number; totalValue: number; pnl: number } {
+  const holdingsValue = getHoldingsValue(trader.tokenHoldings, marketState.strategies);
+
+  const netCashFlow = trader.trades.reduce((sum, trade) => {
+    const notional = trade.price * trade.quantity;
+    return trade.type === 'sell' ? sum + notional : sum - notional;
+  }, 0);
+
+  return {
+    holdingsValue,
+    totalValue: trader.vUSD + holdingsValue,
+    pnl: netCashFlow + holdingsValue,
+  };
+}
+
+/**
+ * Relay a signed transaction from a trader's wallet; router swaps are recorded as trades
+ * using the on-chain balance deltas around the swap.
+ */
+export async function submitTraderTransaction(
+  trader: HumanTrader,
+  signedTx: string,
+  marketState: MarketState
+): Promise<{ success: boolean; txHash?: string; error?: string; trade?: HumanTrader['trades'][number] }> {
+  const { decodeSignedSwap, submitSignedTransaction, getAgentVUSDCBalance, getAgentYESBalance, getAgentNOBalance } = await import('../blockchain');
+  const swap = decodeSignedSwap(signedTx);
+  const getOutcomeBalance = swap?.outcome === 'no' ? getAgentNOBalance : getAgentYESBalance;
+
+  const before = swap
+    ? {
+        vUSD: await getAgentVUSDCBalance(trader.wallet.address),
+        tokens: await getOutcomeBalance(swap.proposalId, trader.wallet.address),
+      }
+    : null;
+
+  const result = await submitSignedTransaction(signedTx, trader.wallet.address);
+  if (!result.success || !swap || !before) {
+    return result;
+  }
+
+  const afterVUSD = await getAgentVUSDCBalance(trader.wallet.address);
+  const afterTokens = await getOutcomeBalance(swap.proposalId, trader.wallet.address);
+  const tokenDelta = afterTokens - before.tokens;
+  const vUSDDelta = afterVUSD - before.vUSD;
+  const quantity = Math.abs(tokenDelta);
+
+  trader.vUSD = afterVUSD;
+  updateAgentTokenHoldings(trader, swap.proposalId, swap.outcome, tokenDelta);
+
+  const trade: HumanTrader['trades'][number] = {
+    type: tokenDelta >= 0 ? 'buy' : 'sell',
+    strategyId: swap.proposalId,
+    tokenType: swap.outcome,
+    price: quantity > 0 ? Math.abs(vUSDDelta) / quantity : 0,
+    quantity,
+    timestamp: Date.now(),
+    reasoning: 'Human trade',
+    txHash: result.txHash,
+  };
+  trader.trades.push(trade);
+  saveTraderRecord(trader);
+  recordTrade({ id: trader.id, name: trader.name }, marketState.roundNumber, trade);
+
+  log('Traders', `${trader.name} ${trade.type} ${trade.quantity.toFixed(4)} ${trade.tokenType.toUpperCase()} @ ${trade.price.toFixed(4)} vUSDC (tx: ${result.txHash})`);
+  return { ...result, trade };
+}